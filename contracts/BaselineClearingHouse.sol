@@ -0,0 +1,446 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import "@openzeppelin/contracts/token/ERC721/IERC721Receiver.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+
+/**
+ * @title BaselineClearingHouse
+ * @dev Frozen copy of the ClearingHouse settlement from before the order book was indexed per asset, for the gas
+ *      benchmark only: every matching helper scans the single activeOrderIds array and participants are collected
+ *      with a linear membership check. Order entry is reduced to the two submit functions the benchmark uses;
+ *      settlement is unchanged. Not deployed.
+ */
+contract BaselineClearingHouse is ReentrancyGuard, IERC721Receiver {
+    enum Side { Buy, Sell }
+
+    struct Order {
+        uint256 id;
+        address maker;
+        address asset;          // ERC721 address
+        uint256 tokenId;
+        address paymentToken;   // ERC20 address (Primary for Sell, Required for Buy)
+        uint256 price;          // Price (Primary for Sell, Required for Buy)
+        Side side;
+        address counterparty;   // Optional: 0 for any, otherwise specific address
+        bool active;
+        uint256 failedSettlementCycles;
+        bool isLocked;          // True if asset is in contract custody (Sell orders only)
+        uint256 expiresAt;      // Optional: 0 for none, otherwise timestamp after which the order is retired
+        uint256 expiryCycle;    // Optional: 0 for none, otherwise last settlement cycle the order takes part in
+        uint256 sequence;       // Time priority: submission order
+    }
+
+    // A single Buy/Sell match recorded during obligation calculation
+    struct Trade {
+        uint256 buyOrderId;
+        uint256 sellOrderId;
+        address paymentToken;
+        uint256 price;
+        bool unwound;           // True if the trade was dropped because a participant defaulted
+    }
+
+    // A settlement chain for one asset (A -> B -> C), stored as a contiguous run of _cycleTrades
+    struct Chain {
+        address asset;
+        uint256 tokenId;
+        uint256 firstTrade;     // Index of the first link in _cycleTrades
+        uint256 tradeCount;
+    }
+
+    uint256 public nextOrderId;
+    uint256 internal _nextSequence;
+    mapping(uint256 => Order) internal _orders;
+    // Mapping: OrderID -> PaymentToken -> Price accepted by a Sell order
+    mapping(uint256 => mapping(address => uint256)) public sellOrderTerms;
+
+    uint256[] public activeOrderIds;
+
+    uint256 public lastSettlementTime;
+    uint256 public settlementCycle;
+    uint256 public constant SETTLEMENT_INTERVAL = 5 minutes;
+    uint256 public constant MAX_FAILED_CYCLES = 2;
+
+    // Maps User -> Token -> Net Balance (+ receiving, - paying)
+    mapping(address => mapping(address => int256)) internal _netBalances;
+    // Maps User -> Token -> Amount actually collected during Phase 1 (for refunds)
+    mapping(address => mapping(address => uint256)) internal _collected;
+
+    address[] internal _involvedUsers;
+    address[] internal _involvedTokens;
+
+    Trade[] internal _cycleTrades;
+    Chain[] internal _cycleChains;
+    // Maps OrderID -> settlement cycle in which it was matched
+    mapping(uint256 => uint256) internal _matchedInCycle;
+
+    event OrderPlaced(uint256 indexed orderId, address indexed maker, address indexed asset, uint256 tokenId, Side side, uint256 price, address counterparty);
+    event SettlementCompleted(uint256 timestamp);
+    event AssetLocked(uint256 indexed orderId, address indexed asset, uint256 tokenId);
+    event AssetUnlocked(uint256 indexed orderId, address indexed asset, uint256 tokenId);
+    event SettlementFailed(uint256 indexed orderId, string reason);
+    event OrderExpired(uint256 indexed orderId, address indexed maker);
+
+    constructor() {
+        lastSettlementTime = block.timestamp;
+    }
+
+    function onERC721Received(address, address, uint256, bytes calldata) external pure override returns (bytes4) {
+        return IERC721Receiver.onERC721Received.selector;
+    }
+
+    // --- Order Entry ---
+
+    function submitBuyOrder(address asset, uint256 tokenId, address paymentToken, uint256 price, address counterparty) external nonReentrant {
+        _createOrder(asset, tokenId, paymentToken, price, Side.Buy, counterparty);
+    }
+
+    function submitMulticurrencySellOrder(address asset, uint256 tokenId, address[] calldata paymentTokens, uint256[] calldata prices, address counterparty) external nonReentrant {
+        require(paymentTokens.length == prices.length, "Length mismatch");
+        require(paymentTokens.length > 0, "No terms provided");
+
+        uint256 orderId = _createOrder(asset, tokenId, address(0), 0, Side.Sell, counterparty);
+        for (uint256 i = 0; i < paymentTokens.length; i++) {
+            sellOrderTerms[orderId][paymentTokens[i]] = prices[i];
+        }
+    }
+
+    function _createOrder(address asset, uint256 tokenId, address paymentToken, uint256 price, Side side, address counterparty) internal returns (uint256 orderId) {
+        orderId = nextOrderId++;
+
+        Order storage order = _orders[orderId];
+        order.id = orderId;
+        order.maker = msg.sender;
+        order.asset = asset;
+        order.tokenId = tokenId;
+        order.paymentToken = paymentToken;
+        order.price = price;
+        order.side = side;
+        order.counterparty = counterparty;
+        order.active = true;
+        order.sequence = _nextSequence++;
+
+        activeOrderIds.push(orderId);
+        emit OrderPlaced(orderId, msg.sender, asset, tokenId, side, price, counterparty);
+    }
+
+    // --- Settlement ---
+
+    function performSettlement() external nonReentrant {
+        require(block.timestamp >= lastSettlementTime + SETTLEMENT_INTERVAL, "Too early to settle");
+        lastSettlementTime = block.timestamp;
+        settlementCycle++;
+
+        delete _involvedUsers;
+        delete _involvedTokens;
+        delete _cycleTrades;
+        delete _cycleChains;
+
+        _retireExpiredOrders();
+
+        (address[] memory assets, uint256[] memory tokenIds, uint256 uniqueCount) = _identifyUniqueAssets();
+        for (uint256 i = 0; i < uniqueCount; i++) {
+            _calculateAssetChainObligations(assets[i], tokenIds[i]);
+        }
+
+        if (_executeCashCollection()) {
+            _distributeCash();
+            _finalizeOrdersAndAssets();
+        } else {
+            _refundCollectedFunds();
+            _handleSettlementFailure();
+            emit SettlementFailed(0, "Global Payment Failure");
+        }
+
+        emit SettlementCompleted(block.timestamp);
+    }
+
+    function _identifyUniqueAssets() internal view returns (address[] memory, uint256[] memory, uint256) {
+        address[] memory assets = new address[](activeOrderIds.length);
+        uint256[] memory tokenIds = new uint256[](activeOrderIds.length);
+        uint256 uniqueCount = 0;
+
+        for (uint256 i = 0; i < activeOrderIds.length; i++) {
+            Order storage order = _orders[activeOrderIds[i]];
+            if (!order.active) continue;
+
+            bool found = false;
+            for (uint256 j = 0; j < uniqueCount; j++) {
+                if (assets[j] == order.asset && tokenIds[j] == order.tokenId) {
+                    found = true;
+                    break;
+                }
+            }
+            if (!found) {
+                assets[uniqueCount] = order.asset;
+                tokenIds[uniqueCount] = order.tokenId;
+                uniqueCount++;
+            }
+        }
+        return (assets, tokenIds, uniqueCount);
+    }
+
+    function _calculateAssetChainObligations(address currentAsset, uint256 currentTokenId) internal {
+        (uint256 sellId, bool foundSell) = _findLockedSellOrder(currentAsset, currentTokenId);
+
+        if (!foundSell) {
+            (sellId, foundSell) = _findMatchableSeller(currentAsset, currentTokenId);
+            if (foundSell) foundSell = _lockSeller(sellId);
+        }
+
+        if (!foundSell) return;
+
+        uint256 firstTrade = _cycleTrades.length;
+        uint256 iterations = 0;
+
+        while (foundSell && iterations < 50) {
+            iterations++;
+
+            (uint256 buyId, uint256 buyPrice, bool foundBuy) = _findMatchingBuyOrder(currentAsset, currentTokenId, sellId);
+            if (!foundBuy) break;
+
+            Order storage sellOrder = _orders[sellId];
+            Order storage buyOrder = _orders[buyId];
+            address payToken = buyOrder.paymentToken;
+
+            _updateNetBalance(buyOrder.maker, payToken, -int256(buyPrice));
+            _updateNetBalance(sellOrder.maker, payToken, int256(buyPrice));
+
+            _cycleTrades.push(Trade(buyId, sellId, payToken, buyPrice, false));
+            _matchedInCycle[buyId] = settlementCycle;
+            _matchedInCycle[sellId] = settlementCycle;
+
+            (sellId, foundSell) = _findSellOrder(currentAsset, currentTokenId, buyOrder.maker);
+        }
+
+        if (_cycleTrades.length > firstTrade) {
+            _cycleChains.push(Chain(currentAsset, currentTokenId, firstTrade, _cycleTrades.length - firstTrade));
+        }
+    }
+
+    function _findLockedSellOrder(address asset, uint256 tokenId) internal view returns (uint256 id, bool found) {
+        for (uint256 k = 0; k < activeOrderIds.length; k++) {
+            Order storage o = _orders[activeOrderIds[k]];
+            if (o.active && o.side == Side.Sell && o.asset == asset && o.tokenId == tokenId && o.isLocked) {
+                return (o.id, true);
+            }
+        }
+    }
+
+    function _findMatchableSeller(address asset, uint256 tokenId) internal view returns (uint256 sellId, bool matchExists) {
+        for (uint256 k = 0; k < activeOrderIds.length; k++) {
+            Order storage o = _orders[activeOrderIds[k]];
+            if (o.active && o.side == Side.Sell && o.asset == asset && o.tokenId == tokenId && !o.isLocked) {
+                if (matchExists && _orders[sellId].sequence < o.sequence) continue;
+
+                (,, bool foundBuy) = _findMatchingBuyOrder(asset, tokenId, o.id);
+                if (foundBuy) {
+                    sellId = o.id;
+                    matchExists = true;
+                }
+            }
+        }
+    }
+
+    function _lockSeller(uint256 sellId) internal returns (bool) {
+        Order storage o = _orders[sellId];
+        try IERC721(o.asset).safeTransferFrom(o.maker, address(this), o.tokenId) {
+            o.isLocked = true;
+            emit AssetLocked(o.id, o.asset, o.tokenId);
+            return true;
+        } catch {
+            o.active = false;
+            return false;
+        }
+    }
+
+    function _findSellOrder(address asset, uint256 tokenId, address maker) internal view returns (uint256 id, bool found) {
+        for (uint256 k = 0; k < activeOrderIds.length; k++) {
+            Order storage o = _orders[activeOrderIds[k]];
+            if (o.active && o.side == Side.Sell && o.asset == asset && o.tokenId == tokenId && o.maker == maker && _matchedInCycle[o.id] != settlementCycle) {
+                if (!found || o.sequence < _orders[id].sequence) {
+                    id = o.id;
+                    found = true;
+                }
+            }
+        }
+    }
+
+    function _findMatchingBuyOrder(address asset, uint256 tokenId, uint256 matchingSellId) internal view returns (uint256 id, uint256 price, bool found) {
+        Order storage sell = _orders[matchingSellId];
+        uint256 bestRequiredPrice;
+
+        for (uint256 k = 0; k < activeOrderIds.length; k++) {
+            Order storage o = _orders[activeOrderIds[k]];
+            if (o.active && o.side == Side.Buy && o.asset == asset && o.tokenId == tokenId && _matchedInCycle[o.id] != settlementCycle) {
+                uint256 requiredPrice = sellOrderTerms[matchingSellId][o.paymentToken];
+                if (requiredPrice == 0) continue;
+
+                if (o.price >= requiredPrice) {
+                    if (sell.counterparty != address(0) && sell.counterparty != o.maker) continue;
+                    if (o.counterparty != address(0) && o.counterparty != sell.maker) continue;
+
+                    if (!found || _isBetterBid(o, requiredPrice, _orders[id], bestRequiredPrice)) {
+                        id = o.id;
+                        price = o.price;
+                        bestRequiredPrice = requiredPrice;
+                        found = true;
+                    }
+                }
+            }
+        }
+    }
+
+    function _isBetterBid(Order storage a, uint256 aRequired, Order storage b, uint256 bRequired) internal view returns (bool) {
+        uint256 aScore = a.price * bRequired;
+        uint256 bScore = b.price * aRequired;
+        if (aScore != bScore) return aScore > bScore;
+        return a.sequence < b.sequence;
+    }
+
+    function _executeCashCollection() internal returns (bool success) {
+        success = true;
+        for (uint256 u = 0; u < _involvedUsers.length; u++) {
+            address user = _involvedUsers[u];
+            for (uint256 t = 0; t < _involvedTokens.length; t++) {
+                address token = _involvedTokens[t];
+                int256 net = _netBalances[user][token];
+
+                if (net < 0) {
+                    uint256 amount = uint256(-net);
+                    try IERC20(token).transferFrom(user, address(this), amount) {
+                        _collected[user][token] = amount;
+                    } catch {
+                        return false;
+                    }
+                }
+            }
+        }
+    }
+
+    function _distributeCash() internal {
+        for (uint256 u = 0; u < _involvedUsers.length; u++) {
+            address user = _involvedUsers[u];
+            for (uint256 t = 0; t < _involvedTokens.length; t++) {
+                address token = _involvedTokens[t];
+                int256 net = _netBalances[user][token];
+                if (net > 0) {
+                    IERC20(token).transfer(user, uint256(net));
+                }
+                delete _netBalances[user][token];
+                delete _collected[user][token];
+            }
+        }
+    }
+
+    function _refundCollectedFunds() internal {
+        for (uint256 u = 0; u < _involvedUsers.length; u++) {
+            address user = _involvedUsers[u];
+            for (uint256 t = 0; t < _involvedTokens.length; t++) {
+                address token = _involvedTokens[t];
+                uint256 amount = _collected[user][token];
+                if (amount > 0) {
+                    IERC20(token).transfer(user, amount);
+                }
+                delete _collected[user][token];
+                delete _netBalances[user][token];
+            }
+        }
+    }
+
+    function _finalizeOrdersAndAssets() internal {
+        for (uint256 c = 0; c < _cycleChains.length; c++) {
+            Chain storage chain = _cycleChains[c];
+            Order storage lockedSell = _orders[_cycleTrades[chain.firstTrade].sellOrderId];
+
+            uint256 settled = 0;
+            while (settled < chain.tradeCount && !_cycleTrades[chain.firstTrade + settled].unwound) {
+                Trade storage trade = _cycleTrades[chain.firstTrade + settled];
+                _orders[trade.sellOrderId].active = false;
+                _orders[trade.buyOrderId].active = false;
+                settled++;
+            }
+
+            if (settled == 0) {
+                _recordFailedCycle(lockedSell);
+                continue;
+            }
+
+            address finalOwner = _orders[_cycleTrades[chain.firstTrade + settled - 1].buyOrderId].maker;
+            lockedSell.isLocked = false;
+            IERC721(chain.asset).safeTransferFrom(address(this), finalOwner, chain.tokenId);
+        }
+
+        _compactActiveOrders();
+    }
+
+    function _handleSettlementFailure() internal {
+        for (uint256 i = 0; i < activeOrderIds.length; i++) {
+            Order storage order = _orders[activeOrderIds[i]];
+            if (order.active && order.isLocked) {
+                _recordFailedCycle(order);
+            }
+        }
+    }
+
+    function _recordFailedCycle(Order storage order) internal {
+        order.failedSettlementCycles++;
+        if (order.failedSettlementCycles >= MAX_FAILED_CYCLES) {
+            _returnLockedAsset(order);
+            order.active = false;
+        }
+    }
+
+    function _retireExpiredOrders() internal {
+        for (uint256 i = 0; i < activeOrderIds.length; i++) {
+            Order storage order = _orders[activeOrderIds[i]];
+            if (order.active && _isExpired(order)) {
+                if (order.isLocked) {
+                    _returnLockedAsset(order);
+                }
+                order.active = false;
+                emit OrderExpired(order.id, order.maker);
+            }
+        }
+    }
+
+    function _isExpired(Order storage order) internal view returns (bool) {
+        if (order.expiresAt != 0 && block.timestamp >= order.expiresAt) return true;
+        if (order.expiryCycle != 0 && settlementCycle > order.expiryCycle) return true;
+        return false;
+    }
+
+    function _returnLockedAsset(Order storage order) internal {
+        IERC721(order.asset).safeTransferFrom(address(this), order.maker, order.tokenId);
+        order.isLocked = false;
+        emit AssetUnlocked(order.id, order.asset, order.tokenId);
+    }
+
+    function _updateNetBalance(address user, address token, int256 amount) internal {
+        if (amount == 0) return;
+
+        if (_netBalances[user][token] == 0) {
+            _addToSet(_involvedUsers, user);
+            _addToSet(_involvedTokens, token);
+        }
+        _netBalances[user][token] += amount;
+    }
+
+    function _addToSet(address[] storage set, address value) internal {
+        for (uint256 i = 0; i < set.length; i++) {
+            if (set[i] == value) return;
+        }
+        set.push(value);
+    }
+
+    function _compactActiveOrders() internal {
+        for (int256 i = int256(activeOrderIds.length) - 1; i >= 0; i--) {
+            if (!_orders[activeOrderIds[uint256(i)]].active) {
+                activeOrderIds[uint256(i)] = activeOrderIds[activeOrderIds.length - 1];
+                activeOrderIds.pop();
+            }
+        }
+    }
+}
@@ -2,9 +2,23 @@
 pragma solidity ^0.8.28;
 
 import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/introspection/ERC165Checker.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "./clearing/IAssetCustodian.sol";
+import "./clearing/IMaturingAsset.sol";
+
+/**
+ * @title Bond
+ * @dev Bonds with coupon schedules. The payment agent pays each coupon, in the payment token, to the holder of
+ *      record: the owner of the bond at the coupon's record date (`recordPeriod` before the coupon date). Holders
+ *      are recorded when the bond is transferred, so the holder of record stays known once the bond has moved on.
+ *      A bond held by a custodian (such as the ClearingHouse) is recorded for its beneficial owner. At maturity
+ *      the payment agent redeems the bond, paying its face value to the holder and burning it.
+ */
+contract Bond is ERC721, Ownable, IMaturingAsset {
+    using SafeERC20 for IERC20;
 
-contract Bond is ERC721, Ownable {
     uint256 private _nextTokenId;
 
     struct BondTerms {
@@ -14,6 +28,28 @@ contract Bond is ERC721, Ownable {
     }
 
     mapping(uint256 => BondTerms) public bondTerms;
+    mapping(uint256 => uint256) public issueDates;
+
+    // Coupons: paid in order from the payment agent's balance of the payment token
+    address public paymentAgent;
+    IERC20 public paymentToken;
+    uint256 public recordPeriod;
+    mapping(uint256 => uint256[]) internal _couponDates;
+    mapping(uint256 => uint256) public couponsPaid;
+    // Holder of record of each coupon whose record date passed before the bond was last transferred
+    mapping(uint256 => mapping(uint256 => address)) internal _couponHolders;
+    mapping(uint256 => uint256) internal _recordedCoupons;
+
+    event PaymentAgentSet(address indexed agent, address indexed token);
+    event RecordPeriodSet(uint256 period);
+    event CouponScheduleSet(uint256 indexed tokenId, uint256[] dates);
+    event CouponPaid(uint256 indexed tokenId, uint256 indexed index, address indexed holder, uint256 amount);
+    event BondRedeemed(uint256 indexed tokenId, address indexed holder, uint256 faceValue);
+
+    modifier onlyPaymentAgent() {
+        require(msg.sender == paymentAgent, "Not payment agent");
+        _;
+    }
 
     constructor() ERC721("Corporate Bond", "BOND") Ownable(msg.sender) {}
 
@@ -21,6 +57,7 @@ contract Bond is ERC721, Ownable {
         uint256 tokenId = _nextTokenId++;
         _safeMint(to, tokenId);
         bondTerms[tokenId] = BondTerms(faceValue, interestRateBps, maturityDate);
+        issueDates[tokenId] = block.timestamp;
         return tokenId;
     }
 
@@ -28,5 +65,144 @@ contract Bond is ERC721, Ownable {
         _requireOwned(tokenId);
         return bondTerms[tokenId];
     }
-}
 
+    // --- Administration ---
+
+    /**
+     * @notice Set the agent paying coupons and redemptions, and the ERC20 token they are paid in. The agent
+     *         approves this contract to pull the payments.
+     */
+    function setPaymentAgent(address agent, IERC20 token) external onlyOwner {
+        paymentAgent = agent;
+        paymentToken = token;
+        emit PaymentAgentSet(agent, address(token));
+    }
+
+    /**
+     * @notice Set how long before each coupon date its holder of record is determined.
+     */
+    function setRecordPeriod(uint256 period) external onlyOwner {
+        recordPeriod = period;
+        emit RecordPeriodSet(period);
+    }
+
+    /**
+     * @notice Set the coupon dates of a bond. Each coupon accrues interest from the previous coupon date (or the
+     *         issue date) to its own date.
+     * @param dates Future coupon dates in increasing order, the last at or before maturity.
+     */
+    function setCouponSchedule(uint256 tokenId, uint256[] calldata dates) external onlyOwner {
+        _requireOwned(tokenId);
+        require(_couponDates[tokenId].length == 0, "Schedule already set");
+        require(dates.length > 0 && dates[0] > block.timestamp, "Invalid coupon dates");
+        for (uint256 i = 1; i < dates.length; i++) {
+            require(dates[i] > dates[i - 1], "Invalid coupon dates");
+        }
+        require(dates[dates.length - 1] <= bondTerms[tokenId].maturityDate, "Coupon after maturity");
+
+        _couponDates[tokenId] = dates;
+        emit CouponScheduleSet(tokenId, dates);
+    }
+
+    // --- Payments ---
+
+    /**
+     * @notice Pay the next coupon of a bond to its holder of record, once the coupon date is reached.
+     */
+    function payCoupon(uint256 tokenId) external onlyPaymentAgent {
+        uint256 index = couponsPaid[tokenId];
+        require(index < _couponDates[tokenId].length, "No coupon due");
+        require(block.timestamp >= _couponDates[tokenId][index], "Coupon not due");
+
+        address holder = holderOfRecord(tokenId, index);
+        uint256 amount = couponAmount(tokenId, index);
+        couponsPaid[tokenId] = index + 1;
+        paymentToken.safeTransferFrom(msg.sender, holder, amount);
+        emit CouponPaid(tokenId, index, holder, amount);
+    }
+
+    /**
+     * @notice Redeem a matured bond: pays its face value to the holder and burns it. Every coupon must have been
+     *         paid, and a bond held by a custodian must first be returned to its owner.
+     */
+    function redeem(uint256 tokenId) external onlyPaymentAgent {
+        require(isMatured(tokenId), "Not matured");
+        require(couponsPaid[tokenId] == _couponDates[tokenId].length, "Coupons outstanding");
+        address holder = _requireOwned(tokenId);
+        require(!_isCustodian(holder), "Bond in custody");
+
+        uint256 faceValue = bondTerms[tokenId].faceValue;
+        _burn(tokenId);
+        paymentToken.safeTransferFrom(msg.sender, holder, faceValue);
+        emit BondRedeemed(tokenId, holder, faceValue);
+    }
+
+    // --- Views ---
+
+    function isMatured(uint256 tokenId) public view override returns (bool) {
+        uint256 maturityDate = bondTerms[tokenId].maturityDate;
+        return maturityDate != 0 && block.timestamp >= maturityDate;
+    }
+
+    function couponDates(uint256 tokenId) external view returns (uint256[] memory) {
+        return _couponDates[tokenId];
+    }
+
+    /**
+     * @notice Interest accrued over the coupon's period: faceValue * rate * period / 365 days.
+     */
+    function couponAmount(uint256 tokenId, uint256 index) public view returns (uint256) {
+        uint256[] storage dates = _couponDates[tokenId];
+        uint256 start = index == 0 ? issueDates[tokenId] : dates[index - 1];
+        BondTerms storage terms = bondTerms[tokenId];
+        return terms.faceValue * terms.interestRateBps * (dates[index] - start) / (10000 * 365 days);
+    }
+
+    function recordDate(uint256 tokenId, uint256 index) public view returns (uint256) {
+        uint256 date = _couponDates[tokenId][index];
+        return date > recordPeriod ? date - recordPeriod : 0;
+    }
+
+    /**
+     * @notice The account entitled to a coupon whose record date has passed.
+     */
+    function holderOfRecord(uint256 tokenId, uint256 index) public view returns (address) {
+        require(block.timestamp >= recordDate(tokenId, index), "Record date not reached");
+        if (index < _recordedCoupons[tokenId]) return _couponHolders[tokenId][index];
+        return _beneficialHolder(_ownerOf(tokenId), tokenId);
+    }
+
+    function supportsInterface(bytes4 interfaceId) public view override returns (bool) {
+        return interfaceId == type(IMaturingAsset).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    // --- Internal ---
+
+    /**
+     * @dev Records the holder of every coupon whose record date has passed before the bond changes hands.
+     */
+    function _update(address to, uint256 tokenId, address auth) internal override returns (address) {
+        uint256[] storage dates = _couponDates[tokenId];
+        uint256 recorded = _recordedCoupons[tokenId];
+        if (recorded < dates.length && block.timestamp >= recordDate(tokenId, recorded)) {
+            address holder = _beneficialHolder(_ownerOf(tokenId), tokenId);
+            while (recorded < dates.length && block.timestamp >= recordDate(tokenId, recorded)) {
+                _couponHolders[tokenId][recorded++] = holder;
+            }
+            _recordedCoupons[tokenId] = recorded;
+        }
+        return super._update(to, tokenId, auth);
+    }
+
+    function _beneficialHolder(address holder, uint256 tokenId) internal view returns (address) {
+        if (_isCustodian(holder)) {
+            address beneficialOwner = IAssetCustodian(holder).beneficialOwner(address(this), tokenId);
+            if (beneficialOwner != address(0)) return beneficialOwner;
+        }
+        return holder;
+    }
+
+    function _isCustodian(address account) internal view returns (bool) {
+        return ERC165Checker.supportsInterface(account, type(IAssetCustodian).interfaceId);
+    }
+}
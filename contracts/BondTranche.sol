@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+contract BondTranche is ERC1155, Ownable {
+    uint256 private _nextTrancheId;
+
+    struct TrancheTerms {
+        uint256 faceValue;       // Per unit
+        uint256 interestRateBps; // Basis points (e.g., 500 = 5%)
+        uint256 maturityDate;
+    }
+
+    mapping(uint256 => TrancheTerms) public trancheTerms;
+
+    constructor() ERC1155("") Ownable(msg.sender) {}
+
+    function issue(address to, uint256 units, uint256 faceValue, uint256 interestRateBps, uint256 maturityDate) public onlyOwner returns (uint256) {
+        uint256 trancheId = _nextTrancheId++;
+        trancheTerms[trancheId] = TrancheTerms(faceValue, interestRateBps, maturityDate);
+        _mint(to, trancheId, units, "");
+        return trancheId;
+    }
+
+    function getTrancheTerms(uint256 trancheId) public view returns (TrancheTerms memory) {
+        return trancheTerms[trancheId];
+    }
+}
@@ -1,118 +1,605 @@
 // SPDX-License-Identifier: UNLICENSED
 pragma solidity ^0.8.28;
 
+import "@openzeppelin/contracts/utils/Address.sol";
 import "./clearing/ClearingHouseSettlement.sol";
 
 /**
  * @title ClearingHouse
- * @dev Handles atomic matching, netting, and settlement of ERC721 assets against ERC20 payments.
+ * @dev Handles atomic matching, netting, and settlement of ERC721, ERC1155 and ERC20 assets against ERC20 payments.
  *      Implements a "Deferred Lock" settlement model where assets are locked only upon a successful match,
  *      and released if the net cash obligations are successfully collected.
  */
-contract ClearingHouse is ClearingHouseSettlement {
+contract ClearingHouse is ClearingHouseSettlement, IERC721Receiver, IERC1155Receiver, IAssetCustodian {
+    using EnumerableSet for EnumerableSet.UintSet;
+    using EnumerableSet for EnumerableSet.AddressSet;
+    using SafeERC20 for IERC20;
     
-    // NOTE: Constructor is now inherited from ClearingHouseStorage implicitly,
-    // but we can add explicit one if needed.
-    // However, ClearingHouseStorage sets Ownable(msg.sender) and lastSettlementTime.
-    // We should call super constructor if we had arguments, but here it's default or no-arg.
-    // Actually, inheritance calls base constructors. ClearingHouseStorage sets initial state.
-    // We just need to make sure we don't double init.
-    
-    // In Solidity 0.8+, inheritance constructors are called automatically if no args needed.
-    // But ClearingHouseStorage inherits Ownable(msg.sender).
-    // Let's rely on standard inheritance behavior.
-
-    /**
-     * @notice Submit a Buy order.
-     * @dev Buy orders must specify payment token and price.
-     * @param asset The ERC721 contract address.
-     * @param tokenId The ID of the token.
-     * @param paymentToken The ERC20 token used for payment.
-     * @param price The price in paymentToken units.
-     * @param counterparty Optional specific counterparty address (0 for any).
-     */
-    function submitBuyOrder(address asset, uint256 tokenId, address paymentToken, uint256 price, address counterparty) external nonReentrant {
-        uint256 orderId = nextOrderId++;
-        
-        orders[orderId] = Order({
-            id: orderId,
-            maker: msg.sender,
-            asset: asset,
-            tokenId: tokenId,
-            paymentToken: paymentToken,
-            price: price,
-            side: Side.Buy,
-            counterparty: counterparty,
-            active: true,
-            failedSettlementCycles: 0,
-            isLocked: false // Initially false
-        });
-        
-        activeOrderIds.push(orderId);
-        emit OrderPlaced(orderId, msg.sender, asset, tokenId, Side.Buy, price, counterparty);
-    }
-
-    /**
-     * @notice Submit a Sell order that accepts multiple payment tokens.
-     */
-    function submitMulticurrencySellOrder(address asset, uint256 tokenId, address[] calldata paymentTokens, uint256[] calldata prices, address counterparty) external nonReentrant {
-        require(paymentTokens.length == prices.length, "Length mismatch");
-        require(paymentTokens.length > 0, "No terms provided");
-
-        uint256 orderId = nextOrderId++;
-        
-        orders[orderId] = Order({
-            id: orderId,
-            maker: msg.sender,
-            asset: asset,
-            tokenId: tokenId,
-            paymentToken: address(0), // No single primary token
-            price: 0, 
-            side: Side.Sell,
-            counterparty: counterparty,
-            active: true,
-            failedSettlementCycles: 0,
-            isLocked: false
-        });
-
-        for(uint i=0; i<paymentTokens.length; i++) {
-             sellOrderTerms[orderId][paymentTokens[i]] = prices[i];
+    // Run the settlement cycle logic, the owner administration, the order book listings, order entry and the
+    // settlement preview against this contract's storage (see SettlementEngine, ClearingHouseAdmin,
+    // ClearingHouseViews, ClearingHouseOrders and ClearingHousePreview)
+    address public immutable settlementEngine;
+    address public immutable adminModule;
+    address public immutable viewsModule;
+    address public immutable ordersModule;
+    address public immutable previewModule;
+
+    /// @notice Largest book, in active orders, that performSettlement() settles within the per-transaction gas cap
+    ///         (EIP-7825, 2^24). Larger books are settled with startSettlement() and advanceSettlement().
+    uint256 public constant MAX_SINGLE_CALL_ORDERS = 40;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor state-variable-immutable
+    constructor(address engine, address admin, address views, address orderEntry, address preview) {
+        settlementEngine = engine;
+        adminModule = admin;
+        viewsModule = views;
+        ordersModule = orderEntry;
+        previewModule = preview;
+        _disableInitializers();
+    }
+
+    /**
+     * @notice Initializes a clearing house deployed behind a proxy.
+     * @param initialOwner The owner of the clearing house.
+     */
+    function initialize(address initialOwner) external initializer {
+        __ClearingHouseStorage_init(initialOwner);
+    }
+
+    // --- Order Entry ---
+    // These run in the ClearingHouseOrders module, which documents them.
+
+    function submitBuyOrder(address, uint256, address, uint256, address) external nonReentrant { _runIn(ordersModule); }
+    function submitBuyOrder(address, uint256, address, uint256, address, uint256, uint256) external nonReentrant { _runIn(ordersModule); }
+    function submitMulticurrencyBuyOrder(address, uint256, address[] calldata, uint256[] calldata, address) external nonReentrant { _runIn(ordersModule); }
+    function submitMulticurrencyBuyOrder(address, uint256, address[] calldata, uint256[] calldata, address, uint256, uint256) external nonReentrant { _runIn(ordersModule); }
+    function submitMulticurrencySellOrder(address, uint256, address[] calldata, uint256[] calldata, address) external nonReentrant { _runIn(ordersModule); }
+    function submitMulticurrencySellOrder(address, uint256, address[] calldata, uint256[] calldata, address, uint256, uint256) external nonReentrant { _runIn(ordersModule); }
+    function submitOrder(OrderRequest calldata) external nonReentrant { _runIn(ordersModule); }
+    function submitSignedOrders(SignedOrder[] calldata) external nonReentrant { _runIn(ordersModule); }
+    function cancelOrderNonce(uint256) external { _runIn(ordersModule); }
+    function invalidateOrderNonces(uint256) external { _runIn(ordersModule); }
+    function amendBuyOrder(uint256, uint256, address) external nonReentrant { _runIn(ordersModule); }
+    function amendMulticurrencyBuyOrder(uint256, address[] calldata, uint256[] calldata, address) external nonReentrant { _runIn(ordersModule); }
+    function amendSellOrder(uint256, address[] calldata, uint256[] calldata, address) external nonReentrant { _runIn(ordersModule); }
+
+    /**
+     * @notice Cancel an active order.
+     * @dev If the order is a Sell order whose asset is already locked, the asset is returned to the maker.
+     * @param orderId The ID of the order to cancel.
+     */
+    function cancelOrder(uint256 orderId) external nonReentrant {
+        Order storage order = _getMakerActiveOrder(orderId);
+
+        if (order.isLocked) {
+            _returnLockedAsset(order);
         }
+        _deactivateOrder(order);
+
+        emit OrderCancelled(orderId, msg.sender);
+    }
+
+    /**
+     * @notice Triggers the settlement process. Can be called by anyone once the settlement interval has passed.
+     *         The caller who starts a cycle that settles trades earns the keeper reward, if one is set.
+     * @dev Runs a whole cycle in one transaction, for books of up to MAX_SINGLE_CALL_ORDERS active orders. Larger
+     *      books must use startSettlement() and advanceSettlement().
+     */
+    function performSettlement() external nonReentrant whenSettlementAllowed {
+        require(_layout()._activeOrders.length() <= MAX_SINGLE_CALL_ORDERS, "Book too large for one call");
+        _runIn(settlementEngine);
+    }
+
+    /**
+     * @notice Opens a settlement cycle. Can be called by anyone once the settlement interval has passed.
+     * @dev Orders submitted while the cycle is open are held for the next cycle.
+     */
+    function startSettlement() external nonReentrant whenSettlementAllowed {
+        _runIn(settlementEngine);
+    }
+
+    /**
+     * @notice Advances the open settlement cycle by up to `maxSteps` steps. Can be called by anyone.
+     * @dev A step processes one asset (matching), one participant (collection, distribution) or one chain
+     *      (finalization). The cycle closes, emitting SettlementCompleted, after its last step.
+     * @param maxSteps Maximum number of steps to perform in this transaction.
+     * @return closed True if the cycle was closed.
+     */
+    function advanceSettlement(uint256 maxSteps) external nonReentrant whenSettlementAllowed returns (bool closed) {
+        maxSteps; // Forwarded with the calldata
+        return abi.decode(_runIn(settlementEngine), (bool));
+    }
 
-        activeOrderIds.push(orderId);
-        emit OrderPlaced(orderId, msg.sender, asset, tokenId, Side.Sell, 0, counterparty); 
+    /**
+     * @notice Previews the next settlement cycle as if it started now: the trades that would match, every
+     *         participant's net amount per token, and the obligations their cash account, balance and allowance
+     *         cannot currently cover (and whether the guarantee fund would cover them), so that participants can
+     *         top up before the cycle. Anyone can call it at any time outside a cycle, before the interval has
+     *         passed and while settlement is paused. Not a view, but it never changes state: only call it with
+     *         eth_call.
+     * @dev The preview module simulates the cycle without moving any asset and reverts with the preview, which
+     *      rolls the simulation back, so no reentrancy guard is needed.
+     */
+    function previewSettlement() external returns (SettlementPreview memory) {
+        (, bytes memory result) = previewModule.delegatecall(msg.data);
+        bytes4 previewed = SettlementPreviewed.selector;
+        assembly {
+            // Any other revert is a genuine error. The preview follows the selector, offset and length words.
+            if or(lt(mload(result), 0x44), iszero(eq(shr(224, mload(add(result, 0x20))), shr(224, previewed)))) {
+                revert(add(result, 0x20), mload(result))
+            }
+            return(add(result, 0x64), mload(add(result, 0x44)))
+        }
     }
 
     /**
-     * @notice Triggers the settlement process. Can be called by anyone after SETTLEMENT_INTERVAL.
+     * @dev Delegatecalls the module function with the same signature as the current call.
      */
-    function performSettlement() external nonReentrant {
-        require(block.timestamp >= lastSettlementTime + SETTLEMENT_INTERVAL, "Too early to settle");
-        lastSettlementTime = block.timestamp;
+    function _runIn(address module) internal returns (bytes memory) {
+        return Address.functionDelegateCall(module, msg.data);
+    }
 
-        delete _involvedUsers;
-        delete _involvedTokens;
-        
-        // 1. Identify unique assets in active orders
-        (address[] memory assets, uint256[] memory tokenIds, uint256 uniqueCount) = _identifyUniqueAssets();
+    /**
+     * @dev Read-only variant of _runIn() for the views module: the delegatecall runs inside a staticcall to
+     *      delegateView(), so it cannot change state. Ends the call with the module's return data, or its revert.
+     */
+    function _returnView() internal view {
+        (bool success, bytes memory result) = address(this).staticcall(abi.encodeCall(this.delegateView, (msg.data)));
+        assembly {
+            switch success
+            case 0 { revert(add(result, 0x20), mload(result)) }
+            default { return(add(result, 0x20), mload(result)) }
+        }
+    }
 
-        // 2. Calculate Obligations (Net Balances) AND Lock assets for matched trades
-        for (uint256 i = 0; i < uniqueCount; i++) {
-            _calculateAssetChainObligations(assets[i], tokenIds[i]);
+    /**
+     * @dev Only callable by the clearing house itself (see _returnView()). Returns the module's return data as is.
+     */
+    function delegateView(bytes calldata data) external {
+        require(msg.sender == address(this), "Delegatecall only");
+        bytes memory result = Address.functionDelegateCall(viewsModule, data);
+        assembly {
+            return(add(result, 0x20), mload(result))
         }
+    }
+
+    // --- Cross-Currency Netting ---
+
+    /**
+     * @notice Opt in or out of settling net in the base currency.
+     */
+    function setCrossCurrencyNetting(bool enabled) external {
+        Layout storage $ = _layout();
+        $.crossCurrencyNetting[msg.sender] = enabled;
+        emit CrossCurrencyNettingSet(msg.sender, enabled);
+    }
+
+    // --- Cash Accounts ---
+
+    /**
+     * @notice Pre-fund your cash account. Settlement debits it before pulling from your wallet.
+     */
+    function depositCash(address token, uint256 amount) external nonReentrant {
+        IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+        _creditCash(msg.sender, token, amount);
+        emit CashDeposited(msg.sender, token, amount);
+    }
 
-        // 3. Execution Phase
-        bool globalSuccess = _executeCashCollection();
-        
-        if (globalSuccess) {
-            _distributeCash();
-            _finalizeOrdersAndAssets(assets, tokenIds, uniqueCount);
-        } else {
-            _refundCollectedFunds();
-            _handleSettlementFailure(); // Keeps assets locked for next cycle if count < MAX
-            emit SettlementFailed(0, "Global Payment Failure");
+    /**
+     * @notice Withdraw from your cash account. Amounts committed to the open cycle cannot be withdrawn.
+     */
+    function withdrawCash(address token, uint256 amount) external nonReentrant {
+        Layout storage $ = _layout();
+        require(availableCash(msg.sender, token) >= amount, "Insufficient available cash");
+        if (address($.guaranteeFund) != address(0)) {
+            require($.guaranteeFund.claims(msg.sender, token) == 0, "Outstanding guarantee claim");
         }
+        $.cashBalances[msg.sender][token] -= amount;
+        IERC20(token).safeTransfer(msg.sender, amount);
+        emit CashWithdrawn(msg.sender, token, amount);
+    }
+
+    /**
+     * @notice Choose whether settlement proceeds are credited to your cash account instead of transferred.
+     */
+    function setSettleToCashAccount(bool enabled) external {
+        Layout storage $ = _layout();
+        $.settleToCashAccount[msg.sender] = enabled;
+        emit SettleToCashAccountSet(msg.sender, enabled);
+    }
+
+    /**
+     * @notice Cash account balance not committed to the open cycle, i.e. beyond the user's not yet collected
+     *         obligation in that token.
+     */
+    function availableCash(address user, address token) public view returns (uint256) {
+        Layout storage $ = _layout();
+        uint256 balance = $.cashBalances[user][token];
+        if ($.settlementPhase == SettlementPhase.Idle) return balance;
+
+        int256 net = $._netBalances[user][token];
+        uint256 owed = net < 0 ? uint256(-net) : 0;
+        uint256 collected = $._collected[user][token];
+        uint256 committed = owed > collected ? owed - collected : 0;
+        return balance > committed ? balance - committed : 0;
+    }
+
+    // --- Emergency Controls ---
+
+    /**
+     * @notice Cancels the active orders (returning locked assets to their makers), refunds every cash account, and
+     *         finally returns the conversion reserves and accrued fees, in batches of up to `maxSteps` orders or
+     *         cash account holders. Can be called by anyone once wind-down has started.
+     *         Transfers that fail are left to be claimed (see ClearingHouseAdmin.windDown()).
+     * @return done True once nothing is left to return.
+     */
+    function windDown(uint256 maxSteps) external nonReentrant returns (bool done) {
+        maxSteps; // Forwarded with the calldata
+        return abi.decode(_runIn(adminModule), (bool));
+    }
+
+    // --- Guarantee Fund ---
+
+    /**
+     * @notice Seize a participant's available cash account balance towards the guarantee fund's claim against them.
+     *         Can be called by anyone.
+     */
+    function recoverGuaranteeClaim(address user, address token) external nonReentrant {
+        Layout storage $ = _layout();
+        require(address($.guaranteeFund) != address(0), "No guarantee fund");
+        uint256 seized = Math.min($.guaranteeFund.claims(user, token), availableCash(user, token));
+        require(seized > 0, "Nothing to recover");
+
+        $.cashBalances[user][token] -= seized;
+        IERC20(token).safeTransfer(address($.guaranteeFund), seized);
+        $.guaranteeFund.recover(user, token, seized);
+    }
+
+    // --- Participants ---
+
+    /**
+     * @notice Cancel up to `maxOrders` open orders of a participant the registry no longer allows to trade,
+     *         returning locked assets. Orders committed to the open cycle are left to settle (and count towards
+     *         `maxOrders`). Can be called by anyone (the registry calls it on suspension and offboarding).
+     * @return done True once every order of the participant has been visited.
+     */
+    function cancelOrdersOf(address maker, uint256 maxOrders) external nonReentrant returns (bool done) {
+        Layout storage $ = _layout();
+        require(address($.participantRegistry) != address(0) && !$.participantRegistry.canTrade(maker), "Participant may trade");
+
+        EnumerableSet.UintSet storage orderIds = $._makerOrders[maker];
+        // Backwards, as cancelling moves the last order into the freed position
+        uint256 i = orderIds.length();
+        for (uint256 visited = 0; i > 0 && visited < maxOrders; visited++) {
+            Order storage order = $._orders[orderIds.at(--i)];
+            if ($.settlementPhase != SettlementPhase.Idle && $._orderMatches[order.id].cycle == $.settlementCycle) continue;
+
+            if (order.isLocked) {
+                _returnLockedAsset(order);
+            }
+            _deactivateOrder(order);
+            emit OrderCancelled(order.id, maker);
+        }
+        return i == 0;
+    }
+
+    modifier whenSettlementAllowed() {
+        require(!_layout().settlementPaused && !_layout().windingDown, "Settlement paused");
+        require(address(_layout().participantRegistry) == address(0) || _layout().participantRegistry.canSettle(msg.sender), "Not a settlement operator");
+        _;
+    }
+
+    // --- Ownership ---
+    // Same interface as Ownable, with the owner kept in the namespaced storage (see ClearingHouseStorage).
+
+    function owner() external view returns (address) {
+        return _layout().owner;
+    }
+
+    function transferOwnership(address newOwner) external onlyOwner {
+        if (newOwner == address(0)) revert OwnableInvalidOwner(address(0));
+        _transferOwnership(newOwner);
+    }
+
+    function renounceOwnership() external onlyOwner {
+        _transferOwnership(address(0));
+    }
+
+    // --- Administration ---
+    // These run in the ClearingHouseAdmin module, which documents them and applies their access control.
+
+    function setDefaultIsolation(bool) external { _runIn(adminModule); }
+    function proposeParameterChange(Parameter, uint256) external { _runIn(adminModule); }
+    function executeParameterChange(Parameter) external { _runIn(adminModule); }
+    function cancelParameterChange(Parameter) external { _runIn(adminModule); }
+    function proposeConfigChange(bytes calldata) external { _runIn(adminModule); }
+    function executeConfigChange(bytes calldata) external { _runIn(adminModule); }
+    function cancelConfigChange(bytes calldata) external { _runIn(adminModule); }
+    function setPriceOracle(IPriceOracle, address) external { _runIn(adminModule); }
+    function setHaircut(address, uint256) external { _runIn(adminModule); }
+    function depositConversionReserve(address, uint256) external { _runIn(adminModule); }
+    function withdrawConversionReserve(address, uint256) external { _runIn(adminModule); }
+    function setOrderEntryPaused(bool) external { _runIn(adminModule); }
+    function setSettlementPaused(bool) external { _runIn(adminModule); }
+    function startWindDown() external { _runIn(adminModule); }
+    function claimUnreturnedBalance(address, address) external { _runIn(adminModule); }
+    function claimLockedAsset(uint256, address) external { _runIn(adminModule); }
+    function claimUndeliveredAsset(uint256, address) external { _runIn(adminModule); }
+    function setFeeRates(uint256, uint256) external { _runIn(adminModule); }
+    function setAssetFeeRates(address, uint256, uint256, bool) external { _runIn(adminModule); }
+    function setMinimumFee(address, uint256) external { _runIn(adminModule); }
+    function setFeeRecipient(address) external { _runIn(adminModule); }
+    function withdrawFees(address, uint256) external { _runIn(adminModule); }
+    function setGuaranteeFund(IGuaranteeFund) external { _runIn(adminModule); }
+    function setParticipantRegistry(IParticipantRegistry) external { _runIn(adminModule); }
+    function setAssetRegistry(IAssetRegistry) external { _runIn(adminModule); }
+    function setKeeperReward(address, uint256, uint256, bool, uint256) external { _runIn(adminModule); }
+    function depositKeeperRewards(address, uint256) external { _runIn(adminModule); }
+    function withdrawKeeperRewards(address, uint256) external { _runIn(adminModule); }
+
+    // --- Views ---
+
+    // These run in the ClearingHouseViews module, which documents them.
+
+    function activeOrders(OrderFilter calldata, uint256, uint256) external view returns (Order[] memory, uint256) {
+        _returnView();
+    }
+
+    function orderTerms(uint256) external view returns (address[] memory, uint256[] memory) {
+        _returnView();
+    }
+
+    function lockedAssets(uint256, uint256) external view returns (LockedAsset[] memory, uint256) {
+        _returnView();
+    }
+
+    function nextOrderId() external view returns (uint256) {
+        return _layout().nextOrderId;
+    }
+
+    function sellOrderTerms(uint256 orderId, address token) external view returns (uint256) {
+        return _layout().sellOrderTerms[orderId][token];
+    }
+
+    function buyOrderTerms(uint256 orderId, address token) external view returns (uint256) {
+        return _layout().buyOrderTerms[orderId][token];
+    }
+
+    function lastSettlementTime() external view returns (uint256) {
+        return _layout().lastSettlementTime;
+    }
+
+    function settlementCycle() external view returns (uint256) {
+        return _layout().settlementCycle;
+    }
+
+    function defaultIsolationEnabled() external view returns (bool) {
+        return _layout().defaultIsolationEnabled;
+    }
+
+    function priceOracle() external view returns (IPriceOracle) {
+        return _layout().priceOracle;
+    }
+
+    function baseToken() external view returns (address) {
+        return _layout().baseToken;
+    }
+
+    function haircutBps(address token) external view returns (uint256) {
+        return _layout().haircutBps[token];
+    }
+
+    function crossCurrencyNetting(address user) external view returns (bool) {
+        return _layout().crossCurrencyNetting[user];
+    }
+
+    function conversionReserves(address token) external view returns (uint256) {
+        return _layout().conversionReserves[token];
+    }
+
+    function cashBalances(address user, address token) external view returns (uint256) {
+        return _layout().cashBalances[user][token];
+    }
+
+    function settleToCashAccount(address user) external view returns (bool) {
+        return _layout().settleToCashAccount[user];
+    }
+
+    function orderEntryPaused() external view returns (bool) {
+        return _layout().orderEntryPaused;
+    }
+
+    function settlementPaused() external view returns (bool) {
+        return _layout().settlementPaused;
+    }
+
+    function windingDown() external view returns (bool) {
+        return _layout().windingDown;
+    }
+
+    function unreturnedBalances(address recipient, address token) external view returns (uint256) {
+        return _layout().unreturnedBalances[recipient][token];
+    }
+
+    function undeliveredQuantities(uint256 orderId) external view returns (uint256) {
+        return _layout().undeliveredQuantities[orderId];
+    }
+
+    function feeRates() external view returns (uint256 makerBps, uint256 takerBps) {
+        FeeRates storage rates = _layout().feeRates;
+        return (rates.makerBps, rates.takerBps);
+    }
+
+    function assetFeeRates(address asset) external view returns (uint256 makerBps, uint256 takerBps) {
+        FeeRates storage rates = _layout().assetFeeRates[asset];
+        return (rates.makerBps, rates.takerBps);
+    }
+
+    function hasAssetFeeRates(address asset) external view returns (bool) {
+        return _layout().hasAssetFeeRates[asset];
+    }
+
+    function minimumFees(address token) external view returns (uint256) {
+        return _layout().minimumFees[token];
+    }
+
+    function feeRecipient() external view returns (address) {
+        return _layout().feeRecipient;
+    }
+
+    function accruedFees(address token) external view returns (uint256) {
+        return _layout().accruedFees[token];
+    }
+
+    function guaranteeFund() external view returns (IGuaranteeFund) {
+        return _layout().guaranteeFund;
+    }
+
+    function participantRegistry() external view returns (IParticipantRegistry) {
+        return _layout().participantRegistry;
+    }
+
+    function assetRegistry() external view returns (IAssetRegistry) {
+        return _layout().assetRegistry;
+    }
+
+    /**
+     * @notice Returns the maker of the Sell order whose ERC721 token is held in custody, who remains its owner
+     *         until the trade settles, or of the Buy order it is held for after a failed delivery (0 if the token
+     *         is not held for an order). Bonds pay coupons with a record date during custody to them.
+     */
+    function beneficialOwner(address asset, uint256 tokenId) external view override returns (address) {
+        return _layout()._beneficialOwners[_assetKey(asset, tokenId)];
+    }
+
+    function settlementPhase() external view returns (SettlementPhase) {
+        return _layout().settlementPhase;
+    }
+
+    function settlementCursor() external view returns (uint256) {
+        return _layout().settlementCursor;
+    }
+
+    function parameters(Parameter parameter) external view returns (uint256) {
+        return _layout()._parameters[parameter];
+    }
+
+    function parameterProposals(Parameter parameter) external view returns (uint256 value, uint256 executableAt) {
+        ParameterProposal storage proposal = _layout()._parameterProposals[parameter];
+        return (proposal.value, proposal.executableAt);
+    }
+
+    /**
+     * @notice Time from which the proposed setter call with hash `id` can be executed (0 if not proposed).
+     */
+    function configChangeProposals(bytes32 id) external view returns (uint256) {
+        return _layout()._configChangeProposals[id];
+    }
+
+    // Settlement parameters under their names from before they became changeable
+    function SETTLEMENT_INTERVAL() external view returns (uint256) {
+        return _layout()._parameters[Parameter.SettlementInterval];
+    }
+
+    function MAX_FAILED_CYCLES() external view returns (uint256) {
+        return _layout()._parameters[Parameter.MaxFailedCycles];
+    }
+
+    function keeperReward() external view returns (address token, uint256 settledAmount, uint256 failedAmount, bool fromFees, uint256 minVolume) {
+        KeeperReward storage reward = _layout().keeperReward;
+        return (reward.token, reward.settledAmount, reward.failedAmount, reward.fromFees, _layout().keeperRewardMinVolume);
+    }
+
+    function keeperRewardPool(address token) external view returns (uint256) {
+        return _layout().keeperRewardPool[token];
+    }
+
+    /**
+     * @notice Returns the summary of a settlement cycle (cycles are numbered from 1; status None if not yet opened).
+     */
+    function cycleSummary(uint256 cycle) external view returns (CycleSummary memory) {
+        return _layout()._cycleSummaries[cycle];
+    }
+
+    /**
+     * @notice Returns the gross (matched trades) and net (owed after netting) volume of a token in a cycle.
+     */
+    function cycleVolume(uint256 cycle, address token) external view returns (uint256 gross, uint256 net) {
+        TokenVolume storage volume = _layout()._cycleVolumes[cycle][token];
+        return (volume.gross, volume.net);
+    }
+
+    /**
+     * @notice Returns true if `maker` can no longer submit an order signed with `nonce` (used, cancelled or below
+     *         their minimum nonce).
+     */
+    function isOrderNonceUsed(address maker, uint256 nonce) external view returns (bool) {
+        Layout storage $ = _layout();
+        return nonce < $._minOrderNonces[maker] || $._usedOrderNonces[maker][nonce];
+    }
+
+    /**
+     * @notice Returns why settlement deactivated a Sell order whose asset it could not take into custody
+     *         (None if it did not).
+     */
+    function lockFailure(uint256 orderId) external view returns (DeliveryFailure) {
+        return _layout()._lockFailures[orderId];
+    }
+
+    /**
+     * @notice Returns the full order record.
+     */
+    function orders(uint256 orderId) external view returns (Order memory) {
+        return _layout()._orders[orderId];
+    }
+
+    /**
+     * @notice Returns the active order ID at `index` (order is not meaningful and changes as orders close).
+     */
+    function activeOrderIds(uint256 index) external view returns (uint256) {
+        return _layout()._activeOrders.at(index);
+    }
+
+    function activeOrderCount() external view returns (uint256) {
+        return _layout()._activeOrders.length();
+    }
+
+    /**
+     * @notice Net obligation of `user` in `token` in the open cycle (+ receiving, - paying), fees included.
+     */
+    function netBalanceOf(address user, address token) external view returns (int256) {
+        return _layout()._netBalances[user][token];
+    }
+
+    /**
+     * @notice Fees charged in `token` on the trades of the open cycle.
+     */
+    function cycleFees(address token) external view returns (uint256) {
+        return _layout()._cycleFees[token];
+    }
+
+    /**
+     * @dev Required to receive ERC721 tokens via safeTransferFrom.
+     */
+    function onERC721Received(address, address, uint256, bytes calldata) external pure override returns (bytes4) {
+        return IERC721Receiver.onERC721Received.selector;
+    }
+
+    /**
+     * @dev Required to receive ERC1155 tokens via safeTransferFrom.
+     */
+    function onERC1155Received(address, address, uint256, uint256, bytes calldata) external pure override returns (bytes4) {
+        return IERC1155Receiver.onERC1155Received.selector;
+    }
+
+    function onERC1155BatchReceived(address, address, uint256[] calldata, uint256[] calldata, bytes calldata) external pure override returns (bytes4) {
+        return IERC1155Receiver.onERC1155BatchReceived.selector;
+    }
 
-        emit SettlementCompleted(block.timestamp);
+    function supportsInterface(bytes4 interfaceId) external pure override returns (bool) {
+        return interfaceId == type(IERC1155Receiver).interfaceId
+            || interfaceId == type(IERC721Receiver).interfaceId
+            || interfaceId == type(IAssetCustodian).interfaceId
+            || interfaceId == type(IERC165).interfaceId;
     }
 }
@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import "./ClearingHouse.sol";
+
+/**
+ * @title MockClearingHouseV2
+ * @dev A later ClearingHouse implementation, for upgrade tests.
+ */
+contract MockClearingHouseV2 is ClearingHouse {
+    constructor(address engine, address admin, address views, address orderEntry, address preview)
+        ClearingHouse(engine, admin, views, orderEntry, preview) {}
+
+    function version() external pure returns (uint256) {
+        return 2;
+    }
+}
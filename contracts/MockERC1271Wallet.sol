@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/interfaces/IERC1271.sol";
+import "@openzeppelin/contracts/utils/Address.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+
+/**
+ * @title MockERC1271Wallet
+ * @dev Contract wallet that accepts its owner's signatures and makes calls for them, for tests of signed orders.
+ *      It does not implement IERC721Receiver, so it cannot receive ERC721 tokens through safeTransferFrom.
+ */
+contract MockERC1271Wallet is IERC1271, Ownable {
+    constructor() Ownable(msg.sender) {}
+
+    function isValidSignature(bytes32 hash, bytes calldata signature) external view override returns (bytes4) {
+        (address signer, ECDSA.RecoverError error,) = ECDSA.tryRecover(hash, signature);
+        return error == ECDSA.RecoverError.NoError && signer == owner() ? IERC1271.isValidSignature.selector : bytes4(0xffffffff);
+    }
+
+    function execute(address target, bytes calldata data) external onlyOwner returns (bytes memory) {
+        return Address.functionCall(target, data);
+    }
+}
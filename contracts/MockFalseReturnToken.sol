@@ -0,0 +1,31 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @title MockFalseReturnToken
+ * @dev ERC20 whose transfers return false instead of reverting while the owner has them failing, for tests.
+ */
+contract MockFalseReturnToken is ERC20, Ownable {
+    bool public failing;
+
+    constructor() ERC20("False Return Token", "FRT") Ownable(msg.sender) {
+        _mint(msg.sender, 1000000 * 10 ** decimals());
+    }
+
+    function setFailing(bool enabled) external onlyOwner {
+        failing = enabled;
+    }
+
+    function transfer(address to, uint256 value) public override returns (bool) {
+        if (failing) return false;
+        return super.transfer(to, value);
+    }
+
+    function transferFrom(address from, address to, uint256 value) public override returns (bool) {
+        if (failing) return false;
+        return super.transferFrom(from, to, value);
+    }
+}
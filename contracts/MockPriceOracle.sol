@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "./clearing/IPriceOracle.sol";
+
+/**
+ * @title MockPriceOracle
+ * @dev Owner-set rates, for tests and demos.
+ */
+contract MockPriceOracle is IPriceOracle, Ownable {
+    mapping(address => uint256) public rates;
+
+    event RateSet(address indexed token, uint256 rate);
+
+    constructor() Ownable(msg.sender) {}
+
+    function setRate(address token, uint256 rate) external onlyOwner {
+        rates[token] = rate;
+        emit RateSet(token, rate);
+    }
+
+    function getRate(address token) external view override returns (uint256) {
+        return rates[token];
+    }
+}
@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @title MockRevertingToken
+ * @dev ERC20 whose transfers revert when they send to an account the owner has blocked (as a token with a
+ *      blocklist would), for tests.
+ */
+contract MockRevertingToken is ERC20, Ownable {
+    mapping(address => bool) public blocked;
+
+    constructor() ERC20("Reverting Token", "RVT") Ownable(msg.sender) {
+        _mint(msg.sender, 1000000 * 10 ** decimals());
+    }
+
+    function setBlocked(address account, bool enabled) external onlyOwner {
+        blocked[account] = enabled;
+    }
+
+    function _update(address from, address to, uint256 value) internal override {
+        require(!blocked[to], "Recipient blocked");
+        super._update(from, to, value);
+    }
+}
@@ -33,3 +33,14 @@ contract TokenE is ERC20 {
     }
 }
 
+
+// Stablecoin-style token with 6 decimals
+contract TokenUSD is ERC20 {
+    constructor() ERC20("Token USD", "TUSD") {
+        _mint(msg.sender, 1000000 * 10 ** decimals());
+    }
+
+    function decimals() public pure override returns (uint8) {
+        return 6;
+    }
+}
@@ -0,0 +1,117 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "./IAssetRegistry.sol";
+
+/**
+ * @title AssetRegistry
+ * @dev Owner-managed listing of the asset contracts and payment tokens the ClearingHouse clears. Assets are listed
+ *      with their asset class and lot size; payment tokens with their decimals and symbol (read from the token)
+ *      and their tick size and minimum price, so that clients can format and validate amounts.
+ */
+contract AssetRegistry is IAssetRegistry, Ownable {
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    enum AssetClass { None, Bond, Stock, Deed }
+
+    struct Asset {
+        AssetClass assetClass;
+        uint256 lotSize;        // Order quantities must be a multiple of it (1 for ERC721 assets)
+    }
+
+    struct PaymentToken {
+        uint8 decimals;
+        string symbol;
+        uint256 tickSize;       // Prices must be a multiple of it, in token units
+        uint256 minPrice;
+    }
+
+    mapping(address => Asset) internal _assets;
+    mapping(address => PaymentToken) internal _paymentTokens;
+    EnumerableSet.AddressSet internal _listedAssets;
+    EnumerableSet.AddressSet internal _listedPaymentTokens;
+
+    event AssetListed(address indexed asset, AssetClass assetClass, uint256 lotSize);
+    event AssetDelisted(address indexed asset);
+    event PaymentTokenListed(address indexed token, uint8 decimals, string symbol, uint256 tickSize, uint256 minPrice);
+    event PaymentTokenDelisted(address indexed token);
+
+    constructor() Ownable(msg.sender) {}
+
+    /**
+     * @notice List an asset contract, or update its listing.
+     * @param asset The ERC721, ERC1155 or ERC20 asset contract.
+     * @param assetClass The kind of security it represents.
+     * @param lotSize The multiple order quantities must be of.
+     */
+    function listAsset(address asset, AssetClass assetClass, uint256 lotSize) external onlyOwner {
+        require(assetClass != AssetClass.None, "Invalid asset class");
+        require(lotSize > 0, "Invalid lot size");
+        _listedAssets.add(asset);
+        _assets[asset] = Asset(assetClass, lotSize);
+        emit AssetListed(asset, assetClass, lotSize);
+    }
+
+    /**
+     * @notice Remove an asset. Open orders for it are unaffected; new orders are rejected.
+     */
+    function delistAsset(address asset) external onlyOwner {
+        require(_listedAssets.remove(asset), "Not listed");
+        delete _assets[asset];
+        emit AssetDelisted(asset);
+    }
+
+    /**
+     * @notice List a payment token, or update its listing. Its decimals and symbol are read from the token.
+     * @param token The ERC20 payment token.
+     * @param tickSize The multiple prices must be of, in token units.
+     * @param minPrice The lowest price accepted, in token units.
+     */
+    function listPaymentToken(address token, uint256 tickSize, uint256 minPrice) external onlyOwner {
+        require(tickSize > 0, "Invalid tick size");
+        uint8 decimals = IERC20Metadata(token).decimals();
+        string memory symbol = IERC20Metadata(token).symbol();
+        _listedPaymentTokens.add(token);
+        _paymentTokens[token] = PaymentToken(decimals, symbol, tickSize, minPrice);
+        emit PaymentTokenListed(token, decimals, symbol, tickSize, minPrice);
+    }
+
+    /**
+     * @notice Remove a payment token. Open orders paying in it are unaffected; new prices in it are rejected.
+     */
+    function delistPaymentToken(address token) external onlyOwner {
+        require(_listedPaymentTokens.remove(token), "Not listed");
+        delete _paymentTokens[token];
+        emit PaymentTokenDelisted(token);
+    }
+
+    // --- Views ---
+
+    function assetListing(address asset) external view returns (Asset memory) {
+        return _assets[asset];
+    }
+
+    function paymentTokenListing(address token) external view returns (PaymentToken memory) {
+        return _paymentTokens[token];
+    }
+
+    function listedAssets() external view returns (address[] memory) {
+        return _listedAssets.values();
+    }
+
+    function listedPaymentTokens() external view returns (address[] memory) {
+        return _listedPaymentTokens.values();
+    }
+
+    function assetRules(address asset) external view override returns (bool listed, uint256 lotSize) {
+        return (_listedAssets.contains(asset), _assets[asset].lotSize);
+    }
+
+    function priceRules(address token) external view override returns (bool listed, uint256 tickSize, uint256 minPrice) {
+        PaymentToken storage listing = _paymentTokens[token];
+        return (_listedPaymentTokens.contains(token), listing.tickSize, listing.minPrice);
+    }
+}
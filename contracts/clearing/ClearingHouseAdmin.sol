@@ -0,0 +1,466 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/utils/Address.sol";
+import "./ClearingHouseMatching.sol";
+import "./DelegateModule.sol";
+
+/**
+ * @title ClearingHouseAdmin
+ * @dev Owner administration of the ClearingHouse: risk and fee configuration, emergency controls (including the
+ *      wind-down) and settlement parameters. Like the SettlementEngine, it runs through a delegatecall from the ClearingHouse, which declares
+ *      the same functions and forwards them here; access control and the reentrancy guard are applied here.
+ */
+contract ClearingHouseAdmin is ClearingHouseMatching, DelegateModule {
+    using EnumerableSet for EnumerableSet.UintSet;
+    using EnumerableSet for EnumerableSet.AddressSet;
+    using SafeERC20 for IERC20;
+
+    /**
+     * @notice Enable or disable default isolation.
+     * @dev When enabled, a participant who fails to pay only unwinds the trades (and later chain links) that depend
+     *      on them; the rest of the cycle settles. When disabled, any payment failure fails the whole cycle.
+     */
+    function setDefaultIsolation(bool enabled) external onlyDelegateCall onlyOwner whenSettlementIdle {
+        Layout storage $ = _layout();
+        $.defaultIsolationEnabled = enabled;
+        emit DefaultIsolationSet(enabled);
+    }
+
+    // --- Settlement Parameters ---
+
+    /**
+     * @notice Propose a new value for a settlement parameter, replacing any pending proposal for it. The change can
+     *         be executed once the parameter delay has passed.
+     */
+    function proposeParameterChange(Parameter parameter, uint256 value) external onlyDelegateCall onlyOwner {
+        (uint256 min, uint256 max) = _parameterBounds(parameter);
+        require(value >= min && value <= max, "Parameter out of bounds");
+
+        Layout storage $ = _layout();
+        uint256 executableAt = block.timestamp + $._parameters[Parameter.ParameterDelay];
+        $._parameterProposals[parameter] = ParameterProposal(value, executableAt);
+        emit ParameterChangeProposed(parameter, value, executableAt);
+    }
+
+    /**
+     * @notice Apply a proposed parameter change whose delay has passed.
+     */
+    function executeParameterChange(Parameter parameter) external onlyDelegateCall onlyOwner whenSettlementIdle {
+        Layout storage $ = _layout();
+        ParameterProposal memory proposal = $._parameterProposals[parameter];
+        require(proposal.executableAt != 0, "No pending proposal");
+        require(block.timestamp >= proposal.executableAt, "Parameter change not ready");
+
+        delete $._parameterProposals[parameter];
+        uint256 oldValue = $._parameters[parameter];
+        $._parameters[parameter] = proposal.value;
+        emit ParameterChanged(parameter, oldValue, proposal.value);
+    }
+
+    function cancelParameterChange(Parameter parameter) external onlyDelegateCall onlyOwner {
+        Layout storage $ = _layout();
+        require($._parameterProposals[parameter].executableAt != 0, "No pending proposal");
+        delete $._parameterProposals[parameter];
+        emit ParameterChangeCancelled(parameter);
+    }
+
+    function _parameterBounds(Parameter parameter) internal pure returns (uint256 min, uint256 max) {
+        if (parameter == Parameter.SettlementInterval) return (1 minutes, 7 days);
+        if (parameter == Parameter.MaxFailedCycles) return (1, 10);
+        if (parameter == Parameter.MaxChainTrades) return (1, 200);
+        return (1 hours, 30 days);
+    }
+
+    // --- Timelocked Configuration ---
+
+    /**
+     * @notice Propose a call to one of the risk and fee setters (setHaircut, setFeeRates, setAssetFeeRates,
+     *         setMinimumFee, setKeeperReward), ABI-encoded with its arguments. It can be executed once the parameter
+     *         delay has passed, so participants get notice before the terms they trade on change.
+     */
+    function proposeConfigChange(bytes calldata change) external onlyDelegateCall onlyOwner {
+        require(change.length >= 4 && _isTimelocked(bytes4(change[:4])), "Not a timelocked setter");
+
+        Layout storage $ = _layout();
+        bytes32 id = keccak256(change);
+        uint256 executableAt = block.timestamp + $._parameters[Parameter.ParameterDelay];
+        $._configChangeProposals[id] = executableAt;
+        emit ConfigChangeProposed(id, change, executableAt);
+    }
+
+    /**
+     * @notice Make a proposed setter call whose delay has passed.
+     */
+    function executeConfigChange(bytes calldata change) external onlyDelegateCall onlyOwner {
+        Layout storage $ = _layout();
+        bytes32 id = keccak256(change);
+        uint256 executableAt = $._configChangeProposals[id];
+        require(executableAt != 0, "No pending proposal");
+        require(block.timestamp >= executableAt, "Config change not ready");
+
+        delete $._configChangeProposals[id];
+        Address.functionCall(address(this), change);
+        emit ConfigChangeExecuted(id);
+    }
+
+    function cancelConfigChange(bytes calldata change) external onlyDelegateCall onlyOwner {
+        Layout storage $ = _layout();
+        bytes32 id = keccak256(change);
+        require($._configChangeProposals[id] != 0, "No pending proposal");
+        delete $._configChangeProposals[id];
+        emit ConfigChangeCancelled(id);
+    }
+
+    function _isTimelocked(bytes4 selector) internal pure returns (bool) {
+        return selector == this.setHaircut.selector
+            || selector == this.setFeeRates.selector
+            || selector == this.setAssetFeeRates.selector
+            || selector == this.setMinimumFee.selector
+            || selector == this.setKeeperReward.selector;
+    }
+
+    /**
+     * @dev The setters proposed through proposeConfigChange() only run when executeConfigChange() calls them.
+     */
+    modifier onlyTimelocked() {
+        require(msg.sender == address(this), "Timelocked: propose the change");
+        _;
+    }
+
+    // --- Cross-Currency Netting ---
+
+    /**
+     * @notice Set the oracle and base currency used for cross-currency netting.
+     * @param oracle The price oracle (0 to disable cross-currency netting).
+     * @param base The token in which opted-in participants settle.
+     */
+    function setPriceOracle(IPriceOracle oracle, address base) external onlyDelegateCall onlyOwner whenSettlementIdle {
+        Layout storage $ = _layout();
+        $.priceOracle = oracle;
+        $.baseToken = base;
+        emit PriceOracleSet(address(oracle), base);
+    }
+
+    /**
+     * @notice Set the haircut applied when converting balances in `token` to the base currency.
+     * @param bps Haircut in basis points; receivables are valued this much lower, payables this much higher.
+     */
+    function setHaircut(address token, uint256 bps) external onlyDelegateCall onlyTimelocked whenSettlementIdle {
+        Layout storage $ = _layout();
+        require(bps < 10000, "Haircut too high");
+        $.haircutBps[token] = bps;
+        emit HaircutSet(token, bps);
+    }
+
+    /**
+     * @notice Fund the reserves from which the clearing house takes the other side of conversions.
+     */
+    function depositConversionReserve(address token, uint256 amount) external onlyDelegateCall onlyOwner nonReentrant {
+        Layout storage $ = _layout();
+        IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+        $.conversionReserves[token] += amount;
+        $._paymentTokens.add(token);
+        emit ConversionReserveDeposited(token, amount);
+    }
+
+    /**
+     * @notice Withdraw conversion reserves, including the haircuts earned on conversions.
+     */
+    function withdrawConversionReserve(address token, uint256 amount) external onlyDelegateCall onlyOwner nonReentrant whenSettlementIdle {
+        Layout storage $ = _layout();
+        require($.conversionReserves[token] >= amount, "Insufficient reserve");
+        $.conversionReserves[token] -= amount;
+        IERC20(token).safeTransfer(msg.sender, amount);
+        emit ConversionReserveWithdrawn(token, amount);
+    }
+
+    // --- Emergency Controls ---
+
+    /**
+     * @notice Stop or resume order entry (submissions and amendments). Cancellations remain possible.
+     */
+    function setOrderEntryPaused(bool paused) external onlyDelegateCall onlyOwner {
+        Layout storage $ = _layout();
+        $.orderEntryPaused = paused;
+        emit OrderEntryPausedSet(paused);
+    }
+
+    /**
+     * @notice Stop or resume settlement. Pausing during a cycle halts it where it is until settlement resumes.
+     */
+    function setSettlementPaused(bool paused) external onlyDelegateCall onlyOwner {
+        Layout storage $ = _layout();
+        $.settlementPaused = paused;
+        emit SettlementPausedSet(paused);
+    }
+
+    /**
+     * @notice Permanently stop order entry and settlement and start returning everything held by the clearing
+     *         house with windDown(). Any open cycle must be completed first.
+     */
+    function startWindDown() external onlyDelegateCall onlyOwner whenSettlementIdle {
+        Layout storage $ = _layout();
+        require(!$.windingDown, "Already winding down");
+        $.windingDown = true;
+        emit WindDownStarted();
+    }
+
+    /**
+     * @notice Performs up to `maxSteps` wind-down steps. Each step cancels one active order (returning its locked
+     *         asset) or, once no order is left, refunds one cash account holder. The last step returns the
+     *         conversion reserves and the keeper reward pool to the owner and the accrued fees to the fee recipient
+     *         (the owner if none is set). Anyone can call it; the ClearingHouse applies the reentrancy guard.
+     * @dev A transfer that fails does not halt the wind-down: the asset stays locked on its cancelled order and a
+     *      token balance is recorded in unreturnedBalances, for their owners to claim.
+     * @return done True once nothing is left to return.
+     */
+    function windDown(uint256 maxSteps) external onlyDelegateCall returns (bool done) {
+        Layout storage $ = _layout();
+        require($.windingDown, "Not winding down");
+
+        for (uint256 step = 0; step < maxSteps; step++) {
+            uint256 orderCount = $._activeOrders.length();
+            if (orderCount > 0) {
+                Order storage order = $._orders[$._activeOrders.at(orderCount - 1)];
+                if (order.isLocked) {
+                    _tryReturnLockedAsset(order);
+                }
+                _deactivateOrder(order);
+                emit OrderCancelled(order.id, order.maker);
+            } else if ($._windDownCursor < $._cashAccountHolders.length()) {
+                _refundCashAccount($._cashAccountHolders.at($._windDownCursor++));
+            } else {
+                if ($._windDownCursor != type(uint256).max) {
+                    $._windDownCursor = type(uint256).max;
+                    _returnHouseBalances();
+                    emit WindDownCompleted();
+                }
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * @notice Claim a token balance the wind-down or a settlement payout could not transfer to the caller.
+     * @param to Where to send it, in case the caller cannot receive the token.
+     */
+    function claimUnreturnedBalance(address token, address to) external onlyDelegateCall nonReentrant {
+        Layout storage $ = _layout();
+        uint256 amount = $.unreturnedBalances[msg.sender][token];
+        require(amount > 0, "Nothing to claim");
+        $.unreturnedBalances[msg.sender][token] = 0;
+        IERC20(token).safeTransfer(to, amount);
+        emit UnreturnedBalanceClaimed(msg.sender, token, to, amount);
+    }
+
+    /**
+     * @notice Claim the asset of a Sell order that was closed (by the wind-down or settlement) but could not be
+     *         returned.
+     * @param to Where to send it, in case the maker cannot receive the asset.
+     */
+    function claimLockedAsset(uint256 orderId, address to) external onlyDelegateCall nonReentrant {
+        Order storage order = _layout()._orders[orderId];
+        require(order.maker == msg.sender, "Not order maker");
+        require(!order.active && order.isLocked, "Nothing to claim");
+        _sendAsset(order.assetType, order.asset, order.tokenId, to, order.quantity);
+        order.isLocked = false;
+        emit AssetUnlocked(order.id, order.asset, order.tokenId);
+    }
+
+    /**
+     * @notice Claim what a Buy order bought but settlement could not deliver to its maker.
+     * @param to Where to send it, in case the maker cannot receive the asset.
+     */
+    function claimUndeliveredAsset(uint256 orderId, address to) external onlyDelegateCall nonReentrant {
+        Layout storage $ = _layout();
+        Order storage order = $._orders[orderId];
+        require(order.maker == msg.sender, "Not order maker");
+        uint256 quantity = $.undeliveredQuantities[orderId];
+        require(quantity > 0, "Nothing to claim");
+        $.undeliveredQuantities[orderId] = 0;
+        _sendAsset(order.assetType, order.asset, order.tokenId, to, quantity);
+        emit UndeliveredAssetClaimed(orderId, order.asset, order.tokenId, to, quantity);
+    }
+
+    /**
+     * @dev Transfers `amount` of `token` to `recipient`, or records it as theirs to claim if the transfer fails.
+     *      Returns false in that case.
+     */
+    function _trySendBalance(address token, address recipient, uint256 amount) internal returns (bool) {
+        if (IERC20(token).trySafeTransfer(recipient, amount)) return true;
+        _layout().unreturnedBalances[recipient][token] += amount;
+        emit WindDownTransferFailed(recipient, token, amount);
+        return false;
+    }
+
+    function _refundCashAccount(address user) internal {
+        Layout storage $ = _layout();
+        for (uint256 t = 0; t < $._paymentTokens.length(); t++) {
+            address token = $._paymentTokens.at(t);
+            uint256 balance = $.cashBalances[user][token];
+            if (balance == 0) continue;
+
+            $.cashBalances[user][token] = 0;
+            if (_trySendBalance(token, user, balance)) {
+                emit CashWithdrawn(user, token, balance);
+            }
+        }
+    }
+
+    function _returnHouseBalances() internal {
+        Layout storage $ = _layout();
+        address recipient = $.feeRecipient == address(0) ? $.owner : $.feeRecipient;
+        for (uint256 t = 0; t < $._paymentTokens.length(); t++) {
+            address token = $._paymentTokens.at(t);
+
+            uint256 reserve = $.conversionReserves[token];
+            if (reserve > 0) {
+                $.conversionReserves[token] = 0;
+                if (_trySendBalance(token, $.owner, reserve)) {
+                    emit ConversionReserveWithdrawn(token, reserve);
+                }
+            }
+
+            uint256 pool = $.keeperRewardPool[token];
+            if (pool > 0) {
+                $.keeperRewardPool[token] = 0;
+                if (_trySendBalance(token, $.owner, pool)) {
+                    emit KeeperRewardPoolWithdrawn(token, pool);
+                }
+            }
+
+            uint256 fees = $.accruedFees[token];
+            if (fees > 0) {
+                $.accruedFees[token] = 0;
+                if (_trySendBalance(token, recipient, fees)) {
+                    emit FeesWithdrawn(recipient, token, fees);
+                }
+            }
+        }
+    }
+
+    // --- Fees ---
+
+    /**
+     * @notice Set the default maker and taker fee rates.
+     */
+    function setFeeRates(uint256 makerBps, uint256 takerBps) external onlyDelegateCall onlyTimelocked whenSettlementIdle {
+        Layout storage $ = _layout();
+        require(makerBps <= MAX_FEE_BPS && takerBps <= MAX_FEE_BPS, "Fee too high");
+        $.feeRates = FeeRates(makerBps, takerBps);
+        emit FeeRatesSet(makerBps, takerBps);
+    }
+
+    /**
+     * @notice Override the fee rates for the trades of one asset contract.
+     * @param enabled False to remove the override.
+     */
+    function setAssetFeeRates(address asset, uint256 makerBps, uint256 takerBps, bool enabled) external onlyDelegateCall onlyTimelocked whenSettlementIdle {
+        Layout storage $ = _layout();
+        require(makerBps <= MAX_FEE_BPS && takerBps <= MAX_FEE_BPS, "Fee too high");
+        $.assetFeeRates[asset] = FeeRates(makerBps, takerBps);
+        $.hasAssetFeeRates[asset] = enabled;
+        emit AssetFeeRatesSet(asset, makerBps, takerBps, enabled);
+    }
+
+    /**
+     * @notice Set the minimum fee charged per side of a trade paid in `token` (for sides with a non-zero rate),
+     *         up to the value of the trade.
+     */
+    function setMinimumFee(address token, uint256 amount) external onlyDelegateCall onlyTimelocked whenSettlementIdle {
+        Layout storage $ = _layout();
+        $.minimumFees[token] = amount;
+        emit MinimumFeeSet(token, amount);
+    }
+
+    function setFeeRecipient(address recipient) external onlyDelegateCall onlyOwner {
+        Layout storage $ = _layout();
+        $.feeRecipient = recipient;
+        emit FeeRecipientSet(recipient);
+    }
+
+    /**
+     * @notice Withdraw accrued fees. Only the fee recipient can call this.
+     */
+    function withdrawFees(address token, uint256 amount) external onlyDelegateCall nonReentrant {
+        Layout storage $ = _layout();
+        require(msg.sender == $.feeRecipient, "Not fee recipient");
+        require($.accruedFees[token] >= amount, "Insufficient fees");
+        $.accruedFees[token] -= amount;
+        IERC20(token).safeTransfer(msg.sender, amount);
+        emit FeesWithdrawn(msg.sender, token, amount);
+    }
+
+    // --- Guarantee Fund ---
+
+    /**
+     * @notice Set the guarantee fund drawn on when a participant fails to pay.
+     * @param fund The fund (0 to disable).
+     */
+    function setGuaranteeFund(IGuaranteeFund fund) external onlyDelegateCall onlyOwner whenSettlementIdle {
+        Layout storage $ = _layout();
+        $.guaranteeFund = fund;
+        emit GuaranteeFundSet(address(fund));
+    }
+
+    // --- Participants ---
+
+    /**
+     * @notice Set the registry of participants allowed to trade and settle.
+     * @param registry The registry (0 to let anyone trade and settle).
+     */
+    function setParticipantRegistry(IParticipantRegistry registry) external onlyDelegateCall onlyOwner {
+        Layout storage $ = _layout();
+        $.participantRegistry = registry;
+        emit ParticipantRegistrySet(address(registry));
+    }
+
+    // --- Assets ---
+
+    /**
+     * @notice Set the registry of assets and payment tokens orders may be placed in.
+     * @param registry The registry (0 to accept any asset and payment token).
+     */
+    function setAssetRegistry(IAssetRegistry registry) external onlyDelegateCall onlyOwner {
+        Layout storage $ = _layout();
+        $.assetRegistry = registry;
+        emit AssetRegistrySet(address(registry));
+    }
+
+    // --- Keeper Rewards ---
+
+    /**
+     * @notice Set the reward paid to the account that starts a cycle with at least one trade.
+     * @param token The reward token (0 to disable rewards).
+     * @param settledAmount Reward for a cycle that settled.
+     * @param failedAmount Reward for a cycle that failed (0 to reward only settled cycles).
+     * @param fromFees True to pay from the accrued fees in `token`, false to pay from the keeper reward pool.
+     * @param minVolume Value of trades paid in `token` a cycle must settle to be rewarded, so that a token trade
+     *        between colluding accounts cannot farm the reward. A failed cycle settles nothing, so it is only
+     *        rewarded while this is 0.
+     */
+    function setKeeperReward(address token, uint256 settledAmount, uint256 failedAmount, bool fromFees, uint256 minVolume) external onlyDelegateCall onlyTimelocked whenSettlementIdle {
+        Layout storage $ = _layout();
+        $.keeperReward = KeeperReward(token, settledAmount, failedAmount, fromFees);
+        $.keeperRewardMinVolume = minVolume;
+        emit KeeperRewardSet(token, settledAmount, failedAmount, fromFees, minVolume);
+    }
+
+    function depositKeeperRewards(address token, uint256 amount) external onlyDelegateCall onlyOwner nonReentrant {
+        Layout storage $ = _layout();
+        IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+        $.keeperRewardPool[token] += amount;
+        $._paymentTokens.add(token);
+        emit KeeperRewardPoolDeposited(token, amount);
+    }
+
+    function withdrawKeeperRewards(address token, uint256 amount) external onlyDelegateCall onlyOwner nonReentrant {
+        Layout storage $ = _layout();
+        require($.keeperRewardPool[token] >= amount, "Insufficient reward pool");
+        $.keeperRewardPool[token] -= amount;
+        IERC20(token).safeTransfer(msg.sender, amount);
+        emit KeeperRewardPoolWithdrawn(token, amount);
+    }
+}
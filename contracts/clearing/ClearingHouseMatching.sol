@@ -1,118 +1,545 @@
 // SPDX-License-Identifier: UNLICENSED
 pragma solidity ^0.8.28;
 
+import "@openzeppelin/contracts/utils/introspection/ERC165Checker.sol";
+import "@openzeppelin/contracts/utils/math/SafeCast.sol";
 import "./ClearingHouseStorage.sol";
 
+import "hardhat/console.sol";
 abstract contract ClearingHouseMatching is ClearingHouseStorage {
-    
-    function _identifyUniqueAssets() internal view returns (address[] memory, uint256[] memory, uint256) {
-        address[] memory assets = new address[](activeOrderIds.length);
-        uint256[] memory tokenIds = new uint256[](activeOrderIds.length);
-        uint256 uniqueCount = 0;
-
-        for (uint256 i = 0; i < activeOrderIds.length; i++) {
-            Order storage order = orders[activeOrderIds[i]];
-            if (!order.active) continue;
-
-            bool found = false;
-            for (uint256 j = 0; j < uniqueCount; j++) {
-                if (assets[j] == order.asset && tokenIds[j] == order.tokenId) {
-                    found = true;
-                    break;
-                }
+    using EnumerableSet for EnumerableSet.UintSet;
+    using EnumerableSet for EnumerableSet.Bytes32Set;
+    using SafeERC20 for IERC20;
+
+    // A Buy order's offer to a specific Sell order, in the currency chosen for the match
+    struct Bid {
+        uint256 orderId;
+        uint256 sequence;
+        address token;
+        uint256 price;
+        uint256 requiredPrice;  // The seller's ask in `token` (0 if the orders share no acceptable currency)
+    }
+
+    // An order's place in a matching queue: by rank, then highest price, then earliest sequence
+    struct QueueEntry {
+        uint256 rank;
+        uint256 price;
+        uint256 sequence;
+        uint256 orderId;
+    }
+
+    // The orders of one asset that take part in the current cycle, loaded once when the asset is matched and
+    // queued so that each lookup only visits the front of a queue instead of the whole book
+    struct Book {
+        QueueEntry[] sells;     // Chain head candidates: locked first (ERC721) or lowest ask first (fungible), then by sequence
+        uint256 nextSell;       // Candidates before this one can no longer start a chain in this cycle
+        QueueEntry[] resales;   // Non-locked Sell orders ranked by maker, for continuing chains
+        address[] tokens;       // Payment tokens bid in
+        QueueEntry[] bids;      // Bids ranked by token (index in `tokens`), then highest price and earliest sequence
+        uint256[] tokenBids;    // Per token: index of its first bid in `bids` (one extra entry: bids.length)
+        uint256[] nextBid;      // Per token: bids before this one are filled
+    }
+
+    // --- Order Book Maintenance ---
+
+    function _assetKey(address asset, uint256 tokenId) internal pure returns (bytes32) {
+        return keccak256(abi.encode(asset, tokenId));
+    }
+
+    function _addToBook(Order storage order) internal {
+        Layout storage $ = _layout();
+        bytes32 key = _assetKey(order.asset, order.tokenId);
+        if ($._openAssets.add(key)) {
+            $._assetIds[key] = AssetId(order.asset, order.tokenId, order.assetType);
+        } else {
+            require($._assetIds[key].assetType == order.assetType, "Asset type mismatch");
+        }
+
+        if (order.side == Side.Buy) {
+            $._buyOrders[key].add(order.id);
+        } else {
+            $._sellOrders[key].add(order.id);
+        }
+        $._activeOrders.add(order.id);
+        $._makerOrders[order.maker].add(order.id);
+    }
+
+    /**
+     * @dev Marks an order inactive and removes it from every index. Assets left without orders stop being open,
+     *      except while a cycle is matching: removing one would move an asset the cycle already matched into the
+     *      part of the set it has yet to visit. The matching step closes those when it reaches them, in this cycle
+     *      or the next.
+     */
+    function _deactivateOrder(Order storage order) internal {
+        Layout storage $ = _layout();
+        order.active = false;
+
+        bytes32 key = _assetKey(order.asset, order.tokenId);
+        if (order.side == Side.Buy) {
+            $._buyOrders[key].remove(order.id);
+        } else {
+            $._sellOrders[key].remove(order.id);
+        }
+        $._activeOrders.remove(order.id);
+        $._makerOrders[order.maker].remove(order.id);
+
+        if (_isEmptyAsset(key) && $.settlementPhase != SettlementPhase.Matching) {
+            $._openAssets.remove(key);
+        }
+    }
+
+    function _isEmptyAsset(bytes32 key) internal view returns (bool) {
+        Layout storage $ = _layout();
+        return $._buyOrders[key].length() == 0 && $._sellOrders[key].length() == 0;
+    }
+
+    /**
+     * @dev The caller's active order, provided it is not committed to the open cycle.
+     */
+    function _getMakerActiveOrder(uint256 orderId) internal view returns (Order storage order) {
+        Layout storage $ = _layout();
+        order = $._orders[orderId];
+        require(order.maker == msg.sender, "Not order maker");
+        require(order.active, "Order not active");
+        // Orders matched in the open cycle are committed until it closes
+        require($.settlementPhase == SettlementPhase.Idle || $._orderMatches[orderId].cycle != $.settlementCycle, "Order in settlement");
+    }
+
+    // --- Matching ---
+
+    /**
+     * @dev Orders submitted after the current cycle was opened are held for the next cycle.
+     */
+    function _inCurrentCycle(uint256 orderId) internal view returns (bool) {
+        return orderId < _layout()._cycleOrderCutoff;
+    }
+
+    /**
+     * @dev Quantity of an order not yet matched in the current cycle.
+     */
+    function _available(Order storage order) internal view returns (uint256) {
+        Layout storage $ = _layout();
+        OrderMatch storage matched = $._orderMatches[order.id];
+        if (matched.cycle != $.settlementCycle) return order.quantity;
+        return order.quantity - matched.quantity;
+    }
+
+    function _recordMatch(uint256 orderId, uint256 quantity) internal {
+        Layout storage $ = _layout();
+        OrderMatch storage matched = $._orderMatches[orderId];
+        if (matched.cycle != $.settlementCycle) {
+            $._orderMatches[orderId] = OrderMatch(uint64($.settlementCycle), SafeCast.toUint192(quantity));
+        } else {
+            matched.quantity += SafeCast.toUint192(quantity);
+        }
+    }
+
+    /**
+     * @dev Loads the orders of an asset submitted before the current cycle opened into a book: Sell orders queued
+     *      as chain heads and indexed by maker, and one bid per Buy order and payment token it pays in.
+     */
+    function _loadBook(bytes32 key) internal view returns (Book memory book) {
+        Layout storage $ = _layout();
+        EnumerableSet.UintSet storage buys = $._buyOrders[key];
+        uint256 bidCount = 0;
+        for (uint256 k = 0; k < buys.length(); k++) {
+            uint256 id = buys.at(k);
+            if (_inCurrentCycle(id)) bidCount += $._orders[id].paymentToken != address(0) ? 1 : $._buyOrderTokens[id].length;
+        }
+        book.bids = new QueueEntry[](bidCount);
+        book.tokens = new address[](bidCount);
+        bidCount = 0;
+        uint256 tokenCount = 0;
+        for (uint256 k = 0; k < buys.length(); k++) {
+            uint256 id = buys.at(k);
+            if (!_inCurrentCycle(id)) continue;
+            if ($._orders[id].paymentToken != address(0)) {
+                (book.bids[bidCount++], tokenCount) = _queueBid(book.tokens, tokenCount, id, $._orders[id].paymentToken, $._orders[id].price);
+                continue;
             }
-            if (!found) {
-                assets[uniqueCount] = order.asset;
-                tokenIds[uniqueCount] = order.tokenId;
-                uniqueCount++;
+            address[] storage tokens = $._buyOrderTokens[id];
+            for (uint256 i = 0; i < tokens.length; i++) {
+                (book.bids[bidCount++], tokenCount) = _queueBid(book.tokens, tokenCount, id, tokens[i], $.buyOrderTerms[id][tokens[i]]);
             }
         }
-        return (assets, tokenIds, uniqueCount);
+        _sortQueue(book.bids);
+
+        address[] memory bookTokens = book.tokens;
+        assembly {
+            mstore(bookTokens, tokenCount)
+        }
+        book.tokenBids = new uint256[](tokenCount + 1);
+        book.nextBid = new uint256[](tokenCount);
+        for (uint256 i = 0; i < bidCount; i++) {
+            if (i == 0 || book.bids[i].rank != book.bids[i - 1].rank) book.nextBid[book.bids[i].rank] = i;
+        }
+        for (uint256 t = 0; t < tokenCount; t++) book.tokenBids[t] = book.nextBid[t];
+        book.tokenBids[tokenCount] = bidCount;
+
+        _queueSells(book, key);
     }
 
-    function _findLockedOwner(address asset, uint256 tokenId) internal view returns (address) {
-        for (uint256 k = 0; k < activeOrderIds.length; k++) {
-            Order storage o = orders[activeOrderIds[k]];
-            if (o.active && o.side == Side.Sell && o.asset == asset && o.tokenId == tokenId && o.isLocked) {
-                return o.maker;
+    /**
+     * @dev Queues the Sell orders of the book as chain head candidates and indexes them by maker. ERC721 candidates
+     *      are queued locked first, then by time. Fungible lots compete on price: by ascending ask in the first
+     *      token bid for the asset (lots that do not accept it last), then by time. The bids must be loaded first.
+     */
+    function _queueSells(Book memory book, bytes32 key) internal view {
+        Layout storage $ = _layout();
+        EnumerableSet.UintSet storage sells = $._sellOrders[key];
+        bool fungible = $._assetIds[key].assetType != AssetType.ERC721;
+        book.sells = new QueueEntry[](sells.length());
+        book.resales = new QueueEntry[](sells.length());
+        uint256 sellCount = 0;
+        uint256 resaleCount = 0;
+        for (uint256 k = 0; k < sells.length(); k++) {
+            uint256 id = sells.at(k);
+            if (!_inCurrentCycle(id)) continue;
+            Order storage o = $._orders[id];
+            if (!fungible) {
+                book.sells[sellCount++] = QueueEntry(o.isLocked ? 0 : 1, 0, o.sequence, id);
+            } else {
+                // Queues rank the highest price first, so the ask is inverted
+                uint256 ask = book.tokens.length > 0 ? $.sellOrderTerms[id][book.tokens[0]] : 0;
+                book.sells[sellCount++] = QueueEntry(ask == 0 ? 1 : 0, type(uint256).max - ask, o.sequence, id);
             }
+            if (!o.isLocked) book.resales[resaleCount++] = QueueEntry(uint160(o.maker), 0, o.sequence, id);
         }
-        return address(0);
+        _truncate(book.sells, sellCount);
+        _truncate(book.resales, resaleCount);
+        console.log("presort", gasleft());
+        _sortQueue(book.sells);
+        console.log("postsort", gasleft());
+        _sortQueue(book.resales);
+    }
+
+    /**
+     * @dev The bid of a Buy order in `token`, ranked by the token's index in `tokens` (the first `tokenCount`
+     *      entries, to which the token is added if it is new). Returns the entry and the new token count.
+     */
+    function _queueBid(address[] memory tokens, uint256 tokenCount, uint256 orderId, address token, uint256 price) internal view returns (QueueEntry memory entry, uint256) {
+        uint256 t = 0;
+        while (t < tokenCount && tokens[t] != token) t++;
+        if (t == tokenCount) tokens[tokenCount++] = token;
+        return (QueueEntry(t, price, _layout()._orders[orderId].sequence, orderId), tokenCount);
     }
 
-    function _findMatchableSeller(address asset, uint256 tokenId) internal view returns (address seller, bool matchExists) {
-        // Find FIRST valid non-locked seller
-        uint256 sellId = type(uint256).max;
-        bool foundSell = false;
-        
-        for (uint256 k = 0; k < activeOrderIds.length; k++) {
-            Order storage o = orders[activeOrderIds[k]];
-            if (o.active && o.side == Side.Sell && o.asset == asset && o.tokenId == tokenId && !o.isLocked) {
-                sellId = o.id;
-                foundSell = true;
-                break; // Stop at first valid seller
+    /**
+     * @dev Finds the Sell order that starts the next chain: the first candidate in queue order (see _queueSells())
+     *      that has a matching buyer and, if locked, unmatched quantity, or otherwise is not yet matched this
+     *      cycle. A locked order already holds its remaining quantity in custody, so it only ever starts
+     *      chains and is never used as a later link. A candidate passed over cannot start a chain later in the
+     *      cycle either (buyers only fill up), so the queue is only walked once per asset.
+     */
+    function _nextChainHead(Book memory book) internal view returns (uint256 sellId, bool found) {
+        Layout storage $ = _layout();
+        for (; book.nextSell < book.sells.length; book.nextSell++) {
+            uint256 id = book.sells[book.nextSell].orderId;
+            // Checked first, as most of a deep book rests away from the market
+            (, bool foundBuy) = _bestBid(book, id);
+            if (!foundBuy) continue;
+
+            Order storage o = $._orders[id];
+            if (!o.active) continue; // Its asset could not be locked
+
+            if (o.isLocked) {
+                if (_available(o) == 0) continue;
+            } else {
+                if ($._orderMatches[id].cycle == $.settlementCycle) continue;
             }
+            return (id, true);
         }
-        
-        if (!foundSell) return (address(0), false);
-        
-        // Check if there is ANY matching buyer for this seller
-        (,, bool foundBuy) = _findMatchingBuyOrder(asset, tokenId, sellId);
-        return (orders[sellId].maker, foundBuy);
-    }
-
-    function _lockSeller(address maker, address asset, uint256 tokenId) internal returns (address) {
-        for (uint256 k = 0; k < activeOrderIds.length; k++) {
-            Order storage o = orders[activeOrderIds[k]];
-            if (o.active && o.side == Side.Sell && o.asset == asset && o.tokenId == tokenId && !o.isLocked && o.maker == maker) {
-                // Try lock
-                try IERC721(asset).safeTransferFrom(maker, address(this), tokenId) {
-                    o.isLocked = true;
-                    emit AssetLocked(o.id, asset, tokenId);
-                    return maker;
-                } catch {
-                    o.active = false;
-                    return address(0);
+    }
+
+    /**
+     * @dev Takes a matched Sell order's remaining quantity into custody. If that fails, the order is deactivated and
+     *      the reason recorded.
+     */
+    function _lockSeller(uint256 sellId) internal returns (bool) {
+        Layout storage $ = _layout();
+        Order storage o = $._orders[sellId];
+        // Try lock
+        if (_tryPullAsset(o)) {
+            o.isLocked = true;
+            if (o.assetType == AssetType.ERC721) $._beneficialOwners[_assetKey(o.asset, o.tokenId)] = o.maker;
+            emit AssetLocked(o.id, o.asset, o.tokenId);
+            return true;
+        }
+
+        DeliveryFailure reason = _deliveryFailure(o);
+        if (reason == DeliveryFailure.None) reason = DeliveryFailure.TransferFailed;
+        $._lockFailures[o.id] = reason;
+        emit AssetLockFailed($.settlementCycle, o.id, o.maker, reason);
+        _deactivateOrder(o);
+        return false;
+    }
+
+    /**
+     * @dev True if the asset reports (through ERC165 and IMaturingAsset) that the token has matured.
+     */
+    function _isMatured(address asset, uint256 tokenId) internal view returns (bool) {
+        return ERC165Checker.supportsInterface(asset, type(IMaturingAsset).interfaceId) && IMaturingAsset(asset).isMatured(tokenId);
+    }
+
+    /**
+     * @dev Whether the maker of a Sell order holds its remaining quantity and has approved the clearing house to
+     *      take it (None if so). An asset whose queries revert counts as not owned.
+     */
+    function _deliveryFailure(Order storage o) internal view returns (DeliveryFailure) {
+        if (o.assetType == AssetType.ERC721) {
+            try IERC721(o.asset).ownerOf(o.tokenId) returns (address owner) {
+                if (owner != o.maker) return DeliveryFailure.NotOwned;
+            } catch {
+                return DeliveryFailure.NotOwned;
+            }
+            bool approved = IERC721(o.asset).isApprovedForAll(o.maker, address(this))
+                || IERC721(o.asset).getApproved(o.tokenId) == address(this);
+            return approved ? DeliveryFailure.None : DeliveryFailure.NotApproved;
+        }
+        if (o.assetType == AssetType.ERC1155) {
+            try IERC1155(o.asset).balanceOf(o.maker, o.tokenId) returns (uint256 balance) {
+                if (balance < o.quantity) return DeliveryFailure.NotOwned;
+            } catch {
+                return DeliveryFailure.NotOwned;
+            }
+            return IERC1155(o.asset).isApprovedForAll(o.maker, address(this)) ? DeliveryFailure.None : DeliveryFailure.NotApproved;
+        }
+        try IERC20(o.asset).balanceOf(o.maker) returns (uint256 balance) {
+            if (balance < o.quantity) return DeliveryFailure.NotOwned;
+        } catch {
+            return DeliveryFailure.NotOwned;
+        }
+        return IERC20(o.asset).allowance(o.maker, address(this)) >= o.quantity ? DeliveryFailure.None : DeliveryFailure.NotApproved;
+    }
+
+    /**
+     * @dev Moves the remaining quantity of a Sell order from its maker into custody. Returns false if the transfer fails.
+     */
+    function _tryPullAsset(Order storage o) internal returns (bool) {
+        // A preview only checks that the transfer would go through
+        if (_layout()._previewing) return _deliveryFailure(o) == DeliveryFailure.None;
+        if (o.assetType == AssetType.ERC721) {
+            try IERC721(o.asset).safeTransferFrom(o.maker, address(this), o.tokenId) {
+                return true;
+            } catch {
+                return false;
+            }
+        }
+        if (o.assetType == AssetType.ERC1155) {
+            try IERC1155(o.asset).safeTransferFrom(o.maker, address(this), o.tokenId, o.quantity, "") {
+                return true;
+            } catch {
+                return false;
+            }
+        }
+        return IERC20(o.asset).trySafeTransferFrom(o.maker, address(this), o.quantity);
+    }
+
+    /**
+     * @dev Sends `quantity` units of an asset out of custody. An ERC721 token keeps its beneficial owner until it
+     *      has left, so that the asset can attribute the transfer to them.
+     */
+    function _sendAsset(AssetType assetType, address asset, uint256 tokenId, address to, uint256 quantity) internal {
+        if (_layout()._previewing) return;
+        if (assetType == AssetType.ERC721) {
+            IERC721(asset).safeTransferFrom(address(this), to, tokenId);
+            delete _layout()._beneficialOwners[_assetKey(asset, tokenId)];
+        } else if (assetType == AssetType.ERC1155) {
+            IERC1155(asset).safeTransferFrom(address(this), to, tokenId, quantity, "");
+        } else {
+            IERC20(asset).safeTransfer(to, quantity);
+        }
+    }
+
+    /**
+     * @dev Same as _sendAsset(), but returns false instead of reverting if the transfer fails.
+     */
+    function _trySendAsset(AssetType assetType, address asset, uint256 tokenId, address to, uint256 quantity) internal returns (bool) {
+        if (_layout()._previewing) return true;
+        if (assetType == AssetType.ERC721) {
+            try IERC721(asset).safeTransferFrom(address(this), to, tokenId) {
+                delete _layout()._beneficialOwners[_assetKey(asset, tokenId)];
+                return true;
+            } catch {
+                return false;
+            }
+        }
+        if (assetType == AssetType.ERC1155) {
+            try IERC1155(asset).safeTransferFrom(address(this), to, tokenId, quantity, "") {
+                return true;
+            } catch {
+                return false;
+            }
+        }
+        return IERC20(asset).trySafeTransfer(to, quantity);
+    }
+
+    /**
+     * @dev Sends a locked asset (the remaining quantity) back from custody to the maker of the sell order that locked it.
+     */
+    function _returnLockedAsset(Order storage order) internal {
+        _sendAsset(order.assetType, order.asset, order.tokenId, order.maker, order.quantity);
+        order.isLocked = false;
+        emit AssetUnlocked(order.id, order.asset, order.tokenId);
+    }
+
+    /**
+     * @dev Same as _returnLockedAsset(), but if the transfer fails the asset stays locked on the order, for its
+     *      maker to claim once the order is closed (see ClearingHouseAdmin.claimLockedAsset()).
+     */
+    function _tryReturnLockedAsset(Order storage order) internal {
+        if (_trySendAsset(order.assetType, order.asset, order.tokenId, order.maker, order.quantity)) {
+            order.isLocked = false;
+            emit AssetUnlocked(order.id, order.asset, order.tokenId);
+        } else {
+            emit AssetReturnFailed(order.id, order.asset, order.tokenId);
+        }
+    }
+
+    /**
+     * @dev Finds the Sell order continuing a chain through `maker`, who resells what they are buying:
+     *      their earliest non-locked Sell order for this asset with unmatched quantity.
+     */
+    function _nextResale(Book memory book, address maker) internal view returns (uint256 id, bool found) {
+        Layout storage $ = _layout();
+        QueueEntry[] memory resales = book.resales;
+        uint256 rank = uint160(maker);
+
+        // The maker's orders follow the first entry ranked at or above theirs
+        uint256 low = 0;
+        uint256 high = resales.length;
+        while (low < high) {
+            uint256 mid = (low + high) / 2;
+            if (resales[mid].rank < rank) low = mid + 1;
+            else high = mid;
+        }
+
+        for (uint256 k = low; k < resales.length && resales[k].rank == rank; k++) {
+            Order storage o = $._orders[resales[k].orderId];
+            if (o.active && !o.isLocked && _available(o) > 0) return (o.id, true);
+        }
+    }
+
+    /**
+     * @dev Returns the best Buy order for a Sell order under price-time priority: the highest bid relative to the
+     *      seller's ask in the bid's token, ties broken by the earliest sequence. Each token's queue is ranked by
+     *      price, so only its front is visited: filled bids are dropped from it, and the first bid that can trade
+     *      with the seller is the best in that token.
+     */
+    function _bestBid(Book memory book, uint256 sellId) internal view returns (Bid memory best, bool found) {
+        Layout storage $ = _layout();
+        Order storage sell = $._orders[sellId];
+        for (uint256 t = 0; t < book.tokens.length; t++) {
+            uint256 ask = $.sellOrderTerms[sellId][book.tokens[t]];
+            if (ask == 0) continue;
+
+            uint256 end = book.tokenBids[t + 1];
+            while (book.nextBid[t] < end && _available($._orders[book.bids[book.nextBid[t]].orderId]) == 0) book.nextBid[t]++;
+
+            for (uint256 i = book.nextBid[t]; i < end && book.bids[i].price >= ask; i++) {
+                Order storage o = $._orders[book.bids[i].orderId];
+                if (_available(o) == 0) continue;
+                if (sell.counterparty != address(0) && sell.counterparty != o.maker) continue;
+                if (o.counterparty != address(0) && o.counterparty != sell.maker) continue;
+
+                // A multicurrency Buy order pays in the first of its tokens the seller accepts, not necessarily this one
+                Bid memory bid = _selectCurrency(o, sellId);
+                if (bid.token != book.tokens[t]) continue;
+
+                if (!found || _isBetterBid(bid, best)) {
+                    best = bid;
+                    found = true;
                 }
+                break;
             }
         }
-        return address(0);
     }
 
-    function _findSellOrder(address asset, uint256 tokenId, address maker) internal view returns (uint256 id, bool found) {
-        found = false;
-        
-        for (uint256 k = 0; k < activeOrderIds.length; k++) {
-            Order storage o = orders[activeOrderIds[k]];
-            if (o.active && o.side == Side.Sell && o.asset == asset && o.tokenId == tokenId && o.maker == maker) {
-                return (o.id, true); // Return first valid sell
+    /**
+     * @dev Picks the currency a Buy order pays a Sell order in. A single-currency Buy order pays in its own token.
+     *      A multicurrency Buy order pays in the first token of its list (the buyer's order of preference) that the
+     *      seller accepts at or below the buyer's maximum price. Returns requiredPrice 0 if there is none.
+     */
+    function _selectCurrency(Order storage buy, uint256 sellId) internal view returns (Bid memory bid) {
+        Layout storage $ = _layout();
+        bid.orderId = buy.id;
+        bid.sequence = buy.sequence;
+
+        if (buy.paymentToken != address(0)) {
+            uint256 requiredPrice = $.sellOrderTerms[sellId][buy.paymentToken];
+            if (requiredPrice != 0 && buy.price >= requiredPrice) {
+                (bid.token, bid.price, bid.requiredPrice) = (buy.paymentToken, buy.price, requiredPrice);
+            }
+            return bid;
+        }
+
+        address[] storage tokens = $._buyOrderTokens[buy.id];
+        for (uint256 i = 0; i < tokens.length; i++) {
+            uint256 requiredPrice = $.sellOrderTerms[sellId][tokens[i]];
+            uint256 price = $.buyOrderTerms[buy.id][tokens[i]];
+            if (requiredPrice != 0 && price >= requiredPrice) {
+                (bid.token, bid.price, bid.requiredPrice) = (tokens[i], price, requiredPrice);
+                return bid;
             }
         }
     }
 
-    function _findMatchingBuyOrder(address asset, uint256 tokenId, uint256 matchingSellId) internal view returns (uint256 id, uint256 price, bool found) {
-        found = false;
+    /**
+     * @dev Bids in different tokens are compared by their price relative to the ask in that token
+     *      (a.price / a.requiredPrice vs b.price / b.requiredPrice, cross-multiplied).
+     */
+    function _isBetterBid(Bid memory a, Bid memory b) internal pure returns (bool) {
+        uint256 aScore = a.price * b.requiredPrice;
+        uint256 bScore = b.price * a.requiredPrice;
+        if (aScore != bScore) return aScore > bScore;
+        return a.sequence < b.sequence;
+    }
 
-        for (uint256 k = 0; k < activeOrderIds.length; k++) {
-            Order storage o = orders[activeOrderIds[k]];
-            if (o.active && o.side == Side.Buy && o.asset == asset && o.tokenId == tokenId) {
-                // Check if this Buy order's token is accepted by the Seller
-                uint256 requiredPrice = sellOrderTerms[matchingSellId][o.paymentToken];
-                
-                // If requiredPrice is 0, it means this token is not accepted by the seller
-                if (requiredPrice == 0) continue;
+    // --- Matching Queues ---
 
-                if (o.price >= requiredPrice) {
-                    Order storage sell = orders[matchingSellId];
-                    Order storage buy = o;
-                    
-                    if (sell.counterparty != address(0) && sell.counterparty != buy.maker) continue;
-                    if (buy.counterparty != address(0) && buy.counterparty != sell.maker) continue;
+    /**
+     * @dev Sorts a queue in place (quicksort): by rank, then highest price, then earliest sequence.
+     */
+    function _sortQueue(QueueEntry[] memory queue) internal pure {
+        if (queue.length > 1) _sortQueue(queue, 0, queue.length - 1);
+    }
 
-                    return (o.id, o.price, true); // Return first valid buy
+    function _sortQueue(QueueEntry[] memory queue, uint256 low, uint256 high) private pure {
+        // The indices stay within [low, high]: each scan stops at the pivot or at an entry swapped past it
+        unchecked {
+            while (low < high) {
+                QueueEntry memory pivot = queue[(low + high) / 2];
+                uint256 i = low;
+                uint256 j = high;
+                while (true) {
+                    while (_precedes(queue[i], pivot)) i++;
+                    while (_precedes(pivot, queue[j])) j--;
+                    if (i >= j) break;
+                    (queue[i], queue[j]) = (queue[j], queue[i]);
+                    i++;
+                    j--;
+                }
+                // Recurse into the smaller part only, so that the depth stays logarithmic
+                if (j - low < high - j) {
+                    _sortQueue(queue, low, j);
+                    low = j + 1;
+                } else {
+                    _sortQueue(queue, j + 1, high);
+                    high = j;
                 }
             }
         }
     }
-}
 
+    function _precedes(QueueEntry memory a, QueueEntry memory b) private pure returns (bool) {
+        if (a.rank != b.rank) return a.rank < b.rank;
+        if (a.price != b.price) return a.price > b.price;
+        return a.sequence < b.sequence;
+    }
+
+    function _truncate(QueueEntry[] memory queue, uint256 length) private pure {
+        assembly {
+            mstore(queue, length)
+        }
+    }
+}
@@ -0,0 +1,491 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import "@openzeppelin/contracts/utils/introspection/ERC165Checker.sol";
+import "./ClearingHouseSettlement.sol";
+import "./DelegateModule.sol";
+
+/**
+ * @title ClearingHouseOrders
+ * @dev Order entry for the ClearingHouse: orders submitted by their maker, orders signed by their maker and
+ *      submitted by a relayer, and amendments. The ClearingHouse delegatecalls into it and applies the reentrancy
+ *      guard.
+ *
+ *      Signed orders are EIP-712 typed data under the domain {name: "ClearingHouse", version: "1", chainId,
+ *      verifyingContract: the ClearingHouse proxy}, so a signature is only valid on one chain and one clearing
+ *      house. Each carries a nonce chosen by the maker; a nonce can be used once, and the maker can cancel single
+ *      nonces or every nonce below a minimum. Contract wallets sign through ERC-1271; one that cannot receive an
+ *      asset it bought claims it with ClearingHouseAdmin.claimUndeliveredAsset().
+ */
+contract ClearingHouseOrders is ClearingHouseSettlement, EIP712, DelegateModule {
+    using EnumerableSet for EnumerableSet.UintSet;
+
+    bytes32 private constant ORDER_REQUEST_TYPEHASH = keccak256(
+        "OrderRequest(uint8 side,address asset,uint8 assetType,uint256 tokenId,uint256 quantity,address[] paymentTokens,uint256[] prices,address counterparty,uint256 expiresAt,uint256 goodForCycles)"
+    );
+    bytes32 private constant SIGNED_ORDER_TYPEHASH = keccak256(
+        "SignedOrder(address maker,OrderRequest request,uint256 nonce,uint256 deadline)OrderRequest(uint8 side,address asset,uint8 assetType,uint256 tokenId,uint256 quantity,address[] paymentTokens,uint256[] prices,address counterparty,uint256 expiresAt,uint256 goodForCycles)"
+    );
+
+    constructor() EIP712("ClearingHouse", "1") {}
+
+    // --- Submission ---
+
+    /**
+     * @notice Submit a Buy order.
+     * @dev Buy orders must specify payment token and price.
+     * @param asset The ERC721 contract address.
+     * @param tokenId The ID of the token.
+     * @param paymentToken The ERC20 token used for payment.
+     * @param price The price in paymentToken units.
+     * @param counterparty Optional specific counterparty address (0 for any).
+     */
+    function submitBuyOrder(address asset, uint256 tokenId, address paymentToken, uint256 price, address counterparty) external onlyDelegateCall {
+        _submitBuyOrder(asset, tokenId, paymentToken, price, counterparty, 0, 0);
+    }
+
+    /**
+     * @notice Submit a Buy order that expires.
+     * @param expiresAt Timestamp after which the order is retired (0 for none).
+     * @param goodForCycles Number of settlement cycles the order takes part in (0 for unlimited).
+     */
+    function submitBuyOrder(address asset, uint256 tokenId, address paymentToken, uint256 price, address counterparty, uint256 expiresAt, uint256 goodForCycles) external onlyDelegateCall {
+        _submitBuyOrder(asset, tokenId, paymentToken, price, counterparty, expiresAt, goodForCycles);
+    }
+
+    /**
+     * @notice Submit a Buy order that can pay in any of several tokens.
+     * @dev When the seller accepts more than one of them, the first token in the list wins, so tokens
+     *      should be listed in order of preference.
+     * @param paymentTokens The ERC20 tokens the buyer is willing to pay in.
+     * @param prices The maximum price for each token.
+     */
+    function submitMulticurrencyBuyOrder(address asset, uint256 tokenId, address[] calldata paymentTokens, uint256[] calldata prices, address counterparty) external onlyDelegateCall {
+        _submitMulticurrencyBuyOrder(asset, tokenId, paymentTokens, prices, counterparty, 0, 0);
+    }
+
+    /**
+     * @notice Submit a Buy order that can pay in any of several tokens and expires.
+     * @param expiresAt Timestamp after which the order is retired (0 for none).
+     * @param goodForCycles Number of settlement cycles the order takes part in (0 for unlimited).
+     */
+    function submitMulticurrencyBuyOrder(address asset, uint256 tokenId, address[] calldata paymentTokens, uint256[] calldata prices, address counterparty, uint256 expiresAt, uint256 goodForCycles) external onlyDelegateCall {
+        _submitMulticurrencyBuyOrder(asset, tokenId, paymentTokens, prices, counterparty, expiresAt, goodForCycles);
+    }
+
+    /**
+     * @notice Submit an order for any supported asset type and quantity.
+     * @dev A Buy order listing a single payment token is a single-currency order; with several tokens it is a
+     *      multicurrency order (first listed token preferred). ERC721 orders have quantity 1; ERC20 orders use
+     *      tokenId 0. Orders can be partially filled; prices are per unit.
+     * @param req The order parameters.
+     */
+    function submitOrder(OrderRequest calldata req) external onlyDelegateCall {
+        _submitOrder(req, msg.sender);
+    }
+
+    /**
+     * @notice Submit a Sell order that accepts multiple payment tokens.
+     */
+    function submitMulticurrencySellOrder(address asset, uint256 tokenId, address[] calldata paymentTokens, uint256[] calldata prices, address counterparty) external onlyDelegateCall {
+        _submitSellOrder(asset, tokenId, paymentTokens, prices, counterparty, 0, 0);
+    }
+
+    /**
+     * @notice Submit a Sell order that accepts multiple payment tokens and expires.
+     * @param expiresAt Timestamp after which the order is retired (0 for none).
+     * @param goodForCycles Number of settlement cycles the order takes part in (0 for unlimited).
+     */
+    function submitMulticurrencySellOrder(address asset, uint256 tokenId, address[] calldata paymentTokens, uint256[] calldata prices, address counterparty, uint256 expiresAt, uint256 goodForCycles) external onlyDelegateCall {
+        _submitSellOrder(asset, tokenId, paymentTokens, prices, counterparty, expiresAt, goodForCycles);
+    }
+
+    // --- Amendment ---
+
+    /**
+     * @notice Amend the price and counterparty of an active Buy order.
+     * @param orderId The ID of the Buy order.
+     * @param price The new price in the order's paymentToken units.
+     * @param counterparty The new counterparty (0 for any).
+     */
+    function amendBuyOrder(uint256 orderId, uint256 price, address counterparty) external onlyDelegateCall {
+        Layout storage $ = _layout();
+        _requireOrderEntryOpen();
+        Order storage order = _getMakerActiveOrder(orderId);
+        require(order.side == Side.Buy, "Not a buy order");
+        require(order.paymentToken != address(0), "Multicurrency order");
+        _requireValidPrice(order.paymentToken, price);
+
+        order.price = price;
+        _requireGuaranteeCover(order.maker, order.paymentToken);
+        order.counterparty = counterparty;
+        order.sequence = $._nextSequence++; // Amended orders lose time priority
+        _validateOrder(orderId);
+
+        emit OrderAmended(orderId, msg.sender, price, counterparty);
+    }
+
+    /**
+     * @notice Replace the payment tokens, maximum prices and counterparty of an active multicurrency Buy order.
+     * @param orderId The ID of the Buy order.
+     * @param paymentTokens The new list of tokens, in order of preference.
+     * @param prices The maximum price for each token.
+     * @param counterparty The new counterparty (0 for any).
+     */
+    function amendMulticurrencyBuyOrder(uint256 orderId, address[] calldata paymentTokens, uint256[] calldata prices, address counterparty) external onlyDelegateCall {
+        Layout storage $ = _layout();
+        require(paymentTokens.length == prices.length, "Length mismatch");
+        require(paymentTokens.length > 0, "No terms provided");
+
+        _requireOrderEntryOpen();
+        Order storage order = _getMakerActiveOrder(orderId);
+        require(order.side == Side.Buy, "Not a buy order");
+        require(order.paymentToken == address(0), "Not a multicurrency order");
+
+        _clearTerms($.buyOrderTerms[orderId], $._buyOrderTokens[orderId]);
+        _setBuyTerms(orderId, paymentTokens, prices);
+        order.counterparty = counterparty;
+        order.sequence = $._nextSequence++; // Amended orders lose time priority
+        _validateOrder(orderId);
+
+        emit OrderAmended(orderId, msg.sender, 0, counterparty);
+    }
+
+    /**
+     * @notice Replace the accepted payment terms and counterparty of an active Sell order.
+     * @dev A locked asset was pulled for a match under the old terms, so it is returned to the maker
+     *      and will be locked again on the next match under the new terms.
+     * @param orderId The ID of the Sell order.
+     * @param paymentTokens The new list of accepted ERC20 tokens.
+     * @param prices The price for each accepted token.
+     * @param counterparty The new counterparty (0 for any).
+     */
+    function amendSellOrder(uint256 orderId, address[] calldata paymentTokens, uint256[] calldata prices, address counterparty) external onlyDelegateCall {
+        Layout storage $ = _layout();
+        require(paymentTokens.length == prices.length, "Length mismatch");
+        require(paymentTokens.length > 0, "No terms provided");
+
+        _requireOrderEntryOpen();
+        Order storage order = _getMakerActiveOrder(orderId);
+        require(order.side == Side.Sell, "Not a sell order");
+
+        if (order.isLocked) {
+            _returnLockedAsset(order);
+            order.failedSettlementCycles = 0;
+        }
+
+        _clearTerms($.sellOrderTerms[orderId], $._sellOrderTokens[orderId]);
+        _setTerms($.sellOrderTerms[orderId], $._sellOrderTokens[orderId], paymentTokens, prices);
+        order.counterparty = counterparty;
+        order.sequence = $._nextSequence++; // Amended orders lose time priority
+        _validateOrder(orderId);
+
+        emit OrderAmended(orderId, msg.sender, 0, counterparty);
+    }
+
+    // --- Signed Orders ---
+
+    /**
+     * @notice Submit orders signed by their makers. Anyone can relay them; the whole batch reverts if one of them
+     *         has expired, reuses a nonce or is not signed by its maker.
+     */
+    function submitSignedOrders(SignedOrder[] calldata orders) external onlyDelegateCall {
+        for (uint256 i = 0; i < orders.length; i++) {
+            _submitSignedOrder(orders[i]);
+        }
+    }
+
+    /**
+     * @notice Cancel a nonce, so that an order signed with it can no longer be submitted. Orders already submitted
+     *         are cancelled with cancelOrder().
+     */
+    function cancelOrderNonce(uint256 nonce) external onlyDelegateCall {
+        _layout()._usedOrderNonces[msg.sender][nonce] = true;
+        emit OrderNonceCancelled(msg.sender, nonce);
+    }
+
+    /**
+     * @notice Cancel every nonce below `minNonce`.
+     */
+    function invalidateOrderNonces(uint256 minNonce) external onlyDelegateCall {
+        Layout storage $ = _layout();
+        require(minNonce > $._minOrderNonces[msg.sender], "Nonce too low");
+        $._minOrderNonces[msg.sender] = minNonce;
+        emit OrderNoncesInvalidated(msg.sender, minNonce);
+    }
+
+    function _submitSignedOrder(SignedOrder calldata signed) internal {
+        Layout storage $ = _layout();
+        require(block.timestamp <= signed.deadline, "Signature expired");
+        require(signed.nonce >= $._minOrderNonces[signed.maker], "Nonce invalidated");
+        require(!$._usedOrderNonces[signed.maker][signed.nonce], "Nonce already used");
+        require(
+            SignatureChecker.isValidSignatureNow(signed.maker, _hashTypedDataV4(_hashSignedOrder(signed)), signed.signature),
+            "Invalid signature"
+        );
+
+        $._usedOrderNonces[signed.maker][signed.nonce] = true;
+        uint256 orderId = _submitOrder(signed.request, signed.maker);
+        emit SignedOrderSubmitted(orderId, signed.maker, signed.nonce, msg.sender);
+    }
+
+    function _hashSignedOrder(SignedOrder calldata signed) internal pure returns (bytes32) {
+        return keccak256(abi.encode(SIGNED_ORDER_TYPEHASH, signed.maker, _hashOrderRequest(signed.request), signed.nonce, signed.deadline));
+    }
+
+    function _hashOrderRequest(OrderRequest calldata req) internal pure returns (bytes32) {
+        // Encoded in two parts to stay within the stack limit
+        return keccak256(bytes.concat(
+            abi.encode(ORDER_REQUEST_TYPEHASH, req.side, req.asset, req.assetType, req.tokenId, req.quantity),
+            abi.encode(
+                keccak256(abi.encodePacked(req.paymentTokens)),
+                keccak256(abi.encodePacked(req.prices)),
+                req.counterparty,
+                req.expiresAt,
+                req.goodForCycles
+            )
+        ));
+    }
+
+    // --- Order Creation ---
+
+    function _submitBuyOrder(address asset, uint256 tokenId, address paymentToken, uint256 price, address counterparty, uint256 expiresAt, uint256 goodForCycles) internal {
+        uint256 orderId = _createOrder(msg.sender, _erc721Request(Side.Buy, asset, tokenId, counterparty, expiresAt, goodForCycles), paymentToken, price);
+
+        address[] memory paymentTokens = new address[](1);
+        uint256[] memory prices = new uint256[](1);
+        paymentTokens[0] = paymentToken;
+        prices[0] = price;
+        _validateOrder(orderId);
+        _emitOrderPlaced(orderId, paymentTokens, prices);
+    }
+
+    function _submitMulticurrencyBuyOrder(address asset, uint256 tokenId, address[] calldata paymentTokens, uint256[] calldata prices, address counterparty, uint256 expiresAt, uint256 goodForCycles) internal {
+        require(paymentTokens.length == prices.length, "Length mismatch");
+        require(paymentTokens.length > 0, "No terms provided");
+
+        // No single token or price: the currency is chosen per match
+        uint256 orderId = _createOrder(msg.sender, _erc721Request(Side.Buy, asset, tokenId, counterparty, expiresAt, goodForCycles), address(0), 0);
+        _setBuyTerms(orderId, paymentTokens, prices);
+        _validateOrder(orderId);
+        _emitOrderPlaced(orderId, paymentTokens, prices);
+    }
+
+    function _submitSellOrder(address asset, uint256 tokenId, address[] calldata paymentTokens, uint256[] calldata prices, address counterparty, uint256 expiresAt, uint256 goodForCycles) internal {
+        Layout storage $ = _layout();
+        require(paymentTokens.length == prices.length, "Length mismatch");
+        require(paymentTokens.length > 0, "No terms provided");
+
+        // No single primary token or price for Sell orders
+        uint256 orderId = _createOrder(msg.sender, _erc721Request(Side.Sell, asset, tokenId, counterparty, expiresAt, goodForCycles), address(0), 0);
+        _setTerms($.sellOrderTerms[orderId], $._sellOrderTokens[orderId], paymentTokens, prices);
+        _validateOrder(orderId);
+        _emitOrderPlaced(orderId, paymentTokens, prices);
+    }
+
+    function _submitOrder(OrderRequest calldata req, address maker) internal returns (uint256 orderId) {
+        Layout storage $ = _layout();
+        require(req.paymentTokens.length == req.prices.length, "Length mismatch");
+        require(req.paymentTokens.length > 0, "No terms provided");
+
+        if (req.side == Side.Buy && req.paymentTokens.length == 1) {
+            orderId = _createOrder(maker, req, req.paymentTokens[0], req.prices[0]);
+        } else if (req.side == Side.Buy) {
+            orderId = _createOrder(maker, req, address(0), 0);
+            _setBuyTerms(orderId, req.paymentTokens, req.prices);
+        } else {
+            orderId = _createOrder(maker, req, address(0), 0);
+            _setTerms($.sellOrderTerms[orderId], $._sellOrderTokens[orderId], req.paymentTokens, req.prices);
+        }
+        _validateOrder(orderId);
+        _emitOrderPlaced(orderId, req.paymentTokens, req.prices);
+    }
+
+    /**
+     * @dev Request for one ERC721 token, as placed by the single-asset submit functions (payment terms are set separately).
+     */
+    function _erc721Request(Side side, address asset, uint256 tokenId, address counterparty, uint256 expiresAt, uint256 goodForCycles) internal pure returns (OrderRequest memory req) {
+        req.side = side;
+        req.asset = asset;
+        req.assetType = AssetType.ERC721;
+        req.tokenId = tokenId;
+        req.quantity = 1;
+        req.counterparty = counterparty;
+        req.expiresAt = expiresAt;
+        req.goodForCycles = goodForCycles;
+    }
+
+    function _createOrder(address maker, OrderRequest memory req, address paymentToken, uint256 price) internal returns (uint256 orderId) {
+        Layout storage $ = _layout();
+        _requireOrderEntryOpen();
+        require(req.expiresAt == 0 || req.expiresAt > block.timestamp, "Expiry in the past");
+        require(req.quantity > 0 && (req.assetType != AssetType.ERC721 || req.quantity == 1), "Invalid quantity");
+        require(req.assetType != AssetType.ERC20 || req.tokenId == 0, "Invalid token ID");
+        _requireValidAsset(req.asset, req.assetType);
+        _requireListedAsset(req.asset, req.quantity);
+        if (_isMatured(req.asset, req.tokenId)) revert AssetMatured(req.asset, req.tokenId);
+        if (paymentToken != address(0)) _requireValidPrice(paymentToken, price);
+        if (address($.participantRegistry) != address(0)) {
+            require($.participantRegistry.canTrade(maker), "Not authorized to trade");
+        }
+        if (address($.guaranteeFund) != address(0)) {
+            require($.guaranteeFund.outstandingClaims(maker) == 0, "Outstanding guarantee claim");
+        }
+        if (req.side == Side.Buy && paymentToken != address(0)) _requireGuaranteeCover(maker, paymentToken);
+
+        orderId = $.nextOrderId++;
+
+        Order storage order = $._orders[orderId];
+        order.id = orderId;
+        order.maker = maker;
+        order.asset = req.asset;
+        order.assetType = req.assetType;
+        order.tokenId = req.tokenId;
+        order.quantity = req.quantity;
+        order.paymentToken = paymentToken;
+        order.price = price;
+        order.side = req.side;
+        order.counterparty = req.counterparty;
+        order.active = true;
+        order.expiresAt = req.expiresAt;
+        order.expiryCycle = _expiryCycle(req.goodForCycles);
+        order.sequence = $._nextSequence++;
+
+        _addToBook(order);
+    }
+
+    /**
+     * @dev Emitted once the order's payment terms are set: the accepted tokens and prices of a Sell order, the
+     *      tokens in order of preference and maximum prices of a Buy order.
+     */
+    function _emitOrderPlaced(uint256 orderId, address[] memory paymentTokens, uint256[] memory prices) internal {
+        Order storage order = _layout()._orders[orderId];
+        emit OrderPlaced(orderId, order.maker, order.asset, order.tokenId, order.side, paymentTokens, prices, order.counterparty);
+    }
+
+    /**
+     * @dev ERC721 and ERC1155 assets must declare their interface through ERC165; ERC20 assets (which have no
+     *      interface id) must at least be contracts.
+     */
+    function _requireValidAsset(address asset, AssetType assetType) internal view {
+        bool valid;
+        if (assetType == AssetType.ERC721) {
+            valid = ERC165Checker.supportsInterface(asset, type(IERC721).interfaceId);
+        } else if (assetType == AssetType.ERC1155) {
+            valid = ERC165Checker.supportsInterface(asset, type(IERC1155).interfaceId);
+        } else {
+            valid = asset.code.length > 0;
+        }
+        if (!valid) revert InvalidAsset(asset, assetType);
+    }
+
+    /**
+     * @dev With an asset registry set, the asset must be listed and the quantity a multiple of its lot size.
+     */
+    function _requireListedAsset(address asset, uint256 quantity) internal view {
+        Layout storage $ = _layout();
+        if (address($.assetRegistry) == address(0)) return;
+        (bool listed, uint256 lotSize) = $.assetRegistry.assetRules(asset);
+        if (!listed) revert AssetNotListed(asset);
+        if (quantity % lotSize != 0) revert InvalidLotSize(asset, quantity);
+    }
+
+    /**
+     * @dev Prices must be non-zero. With an asset registry set, the token must be listed and the price a multiple
+     *      of its tick size, at or above its minimum.
+     */
+    function _requireValidPrice(address token, uint256 price) internal view {
+        if (price == 0) revert ZeroPrice();
+        Layout storage $ = _layout();
+        if (address($.assetRegistry) == address(0)) return;
+        (bool listed, uint256 tickSize, uint256 minPrice) = $.assetRegistry.priceRules(token);
+        if (!listed) revert PaymentTokenNotListed(token);
+        if (price % tickSize != 0 || price < minPrice) revert InvalidPrice(token, price);
+    }
+
+    /**
+     * @dev Checks an order against the maker's other orders for the same asset once its terms are set. A maker may
+     *      have one Sell order per ERC721 token (fungible assets can be offered in several lots), and none of their
+     *      orders may match another of theirs. A Sell order must
+     *      be deliverable (asset held and approved), unless the maker is buying the asset: the chain then delivers
+     *      it from the seller they buy from.
+     */
+    function _validateOrder(uint256 orderId) internal view {
+        Layout storage $ = _layout();
+        Order storage order = $._orders[orderId];
+        bool reselling = false;
+
+        EnumerableSet.UintSet storage makerOrders = $._makerOrders[order.maker];
+        for (uint256 i = 0; i < makerOrders.length(); i++) {
+            Order storage other = $._orders[makerOrders.at(i)];
+            if (other.id == orderId || other.asset != order.asset || other.tokenId != order.tokenId) continue;
+
+            if (other.side == order.side) {
+                if (order.side == Side.Sell && order.assetType == AssetType.ERC721) revert DuplicateSellOrder(other.id);
+                continue;
+            }
+            reselling = true;
+            (Order storage buy, Order storage sell) = order.side == Side.Buy ? (order, other) : (other, order);
+            // A counterparty restriction naming someone else keeps the two orders apart
+            if (!_admits(buy, order.maker) || !_admits(sell, order.maker)) continue;
+            if (_selectCurrency(buy, sell.id).requiredPrice != 0) revert SelfTrade(other.id);
+        }
+
+        if (order.side == Side.Sell && !reselling) {
+            DeliveryFailure failure = _deliveryFailure(order);
+            if (failure == DeliveryFailure.NotOwned) revert AssetNotOwned(order.maker, order.asset, order.tokenId);
+            if (failure == DeliveryFailure.NotApproved) revert AssetNotApproved(order.maker, order.asset, order.tokenId);
+        }
+    }
+
+    function _admits(Order storage o, address maker) internal view returns (bool) {
+        return o.counterparty == address(0) || o.counterparty == maker;
+    }
+
+    function _expiryCycle(uint256 goodForCycles) internal view returns (uint256) {
+        return goodForCycles == 0 ? 0 : _layout().settlementCycle + goodForCycles;
+    }
+
+    function _requireOrderEntryOpen() internal view {
+        Layout storage $ = _layout();
+        require(!$.orderEntryPaused && !$.windingDown, "Order entry paused");
+    }
+
+    /**
+     * @dev Buy orders paid in `token` require the maker to hold the fund's minimum contribution in it.
+     */
+    function _requireGuaranteeCover(address maker, address token) internal view {
+        Layout storage $ = _layout();
+        require(
+            address($.guaranteeFund) == address(0) || $.guaranteeFund.meetsRequirement(maker, token),
+            "Insufficient guarantee contribution"
+        );
+    }
+
+    function _setTerms(mapping(address => uint256) storage terms, address[] storage tokens, address[] calldata paymentTokens, uint256[] calldata prices) internal {
+        for(uint i=0; i<paymentTokens.length; i++) {
+             _requireValidPrice(paymentTokens[i], prices[i]);
+             if (terms[paymentTokens[i]] == 0) {
+                 tokens.push(paymentTokens[i]);
+             }
+             terms[paymentTokens[i]] = prices[i];
+        }
+    }
+
+    function _setBuyTerms(uint256 orderId, address[] calldata paymentTokens, uint256[] calldata prices) internal {
+        Layout storage $ = _layout();
+        for (uint256 i = 0; i < paymentTokens.length; i++) {
+            _requireGuaranteeCover($._orders[orderId].maker, paymentTokens[i]);
+        }
+        _setTerms($.buyOrderTerms[orderId], $._buyOrderTokens[orderId], paymentTokens, prices);
+    }
+
+    function _clearTerms(mapping(address => uint256) storage terms, address[] storage tokens) internal {
+        for(uint i=0; i<tokens.length; i++) {
+             delete terms[tokens[i]];
+        }
+        while (tokens.length > 0) tokens.pop();
+    }
+}
@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import "./ClearingHouseSettlement.sol";
+import "./DelegateModule.sol";
+
+/**
+ * @title ClearingHousePreview
+ * @dev Simulates the next settlement cycle for ClearingHouse.previewSettlement(). It runs the same matching and
+ *      conversion steps as the SettlementEngine, through a delegatecall, and is kept apart from it so that both
+ *      stay within the contract size limit.
+ */
+contract ClearingHousePreview is ClearingHouseSettlement, DelegateModule {
+    /**
+     * @dev Always reverts: with SettlementPreviewed(abi-encoded SettlementPreview) once the preview is complete, so
+     *      that the simulated cycle is rolled back. The cycle opens without waiting for the settlement interval.
+     */
+    function previewSettlement() external onlyDelegateCall {
+        revert SettlementPreviewed(abi.encode(_previewCycle()));
+    }
+}
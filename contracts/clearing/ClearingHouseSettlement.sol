@@ -1,196 +1,781 @@
 // SPDX-License-Identifier: UNLICENSED
 pragma solidity ^0.8.28;
 
+import "@openzeppelin/contracts/utils/math/Math.sol";
 import "./ClearingHouseMatching.sol";
 
 abstract contract ClearingHouseSettlement is ClearingHouseMatching {
+    using EnumerableSet for EnumerableSet.UintSet;
+    using EnumerableSet for EnumerableSet.Bytes32Set;
+    using EnumerableSet for EnumerableSet.AddressSet;
+    using SafeERC20 for IERC20;
 
     /**
-     * @dev Simulates the matching chain for a specific asset to calculate net obligations.
-     *      Attempts to lock the asset if a match is found.
+     * @dev Simulates the matching chains for a specific asset to calculate net obligations.
+     *      Locks a seller's remaining quantity when it starts its first chain.
      */
-    function _calculateAssetChainObligations(address currentAsset, uint256 currentTokenId) internal {
+    function _calculateAssetChainObligations(bytes32 key) internal {
         // Strategy:
-        // 1. If Locked Owner exists, start there.
+        // 1. Start each chain at a Locked Sell order if one can still be matched.
         // 2. If Not, Search for Match first, then Lock.
-        
-        address currentOwner = _findLockedOwner(currentAsset, currentTokenId);
-        
-        if (currentOwner == address(0)) {
-            // Find best seller + matching buyer BEFORE locking
-            (address seller, bool matchExists) = _findMatchableSeller(currentAsset, currentTokenId);
-            
-            if (matchExists) {
-                // Try to lock
-                currentOwner = _lockSeller(seller, currentAsset, currentTokenId);
+        // Repeat while sellers with a matching buyer remain (fungible assets), up to MaxChainTrades trades per asset
+        // and cycle.
+        Layout storage $ = _layout();
+        uint256 maxTrades = $._parameters[Parameter.MaxChainTrades];
+        Book memory book = _loadBook(key);
+
+        uint256 trades = 0;
+        bool exhausted = false;
+        while (trades < maxTrades) {
+            (uint256 sellId, bool foundSell) = _nextChainHead(book);
+            if (!foundSell) {
+                exhausted = true;
+                break;
             }
+
+            // Try to lock (a failed lock deactivates the order)
+            if (!$._orders[sellId].isLocked && !_lockSeller(sellId)) continue;
+
+            trades += _buildChain(book, sellId, maxTrades - trades);
+
+            // A non-fungible token can only be delivered by one chain
+            if ($._assetIds[key].assetType == AssetType.ERC721) break;
         }
 
-        if (currentOwner == address(0)) return; // No valid locked seller
+        if (exhausted) _releaseUnmatchedLocks(key);
+    }
+
+    /**
+     * @dev Records the trades of one chain starting at `headId`, each link limited by the quantity the previous
+     *      link delivers and by what both orders have left. Returns the number of trades recorded.
+     */
+    function _buildChain(Book memory book, uint256 headId, uint256 maxTrades) internal returns (uint256 count) {
+        Layout storage $ = _layout();
+        uint256 firstTrade = $._cycleTrades.length;
+        uint256 sellId = headId;
+        uint256 quantity = _available($._orders[headId]);
+        bool foundSell = true;
 
-        bool chainActive = true;
-        uint256 iterations = 0;
-        
-        while (chainActive && iterations < 50) {
-            chainActive = false;
-            iterations++;
-            
-            // Simplified: Find FIRST matching Sell Order (no longer "Best")
-            (uint256 sellId, bool foundSell) = _findSellOrder(currentAsset, currentTokenId, currentOwner);
-
-            if (foundSell) {
-                // Simplified: Find FIRST matching Buy Order
-                (uint256 buyId, uint256 buyPrice, bool foundBuy) = _findMatchingBuyOrder(currentAsset, currentTokenId, sellId);
-
-                if (foundBuy) {
-                    // Match Found - Record Obligation
-                    Order storage sellOrder = orders[sellId];
-                    Order storage buyOrder = orders[buyId];
-                    
-                    uint256 execPrice = buyPrice; // Use Buy Price (or could be Sell Price, simplified to Buy)
-                    address payToken = buyOrder.paymentToken;
-
-                    _updateNetBalance(buyOrder.maker, payToken, -int256(execPrice));
-                    _updateNetBalance(sellOrder.maker, payToken, int256(execPrice));
-
-                    currentOwner = buyOrder.maker;
-                    chainActive = true; 
-                }
+        while (foundSell && count < maxTrades) {
+            // Best Buy order under price-time priority
+            (Bid memory bid, bool foundBuy) = _bestBid(book, sellId);
+            if (!foundBuy) break;
+
+            // Match Found - Record Obligation
+            quantity = _recordTrade(bid.orderId, sellId, bid.token, bid.price, quantity);
+            count++;
+
+            // Continue the chain with the buyer's own Sell order for this asset, if any
+            (sellId, foundSell) = _nextResale(book, $._orders[bid.orderId].maker);
+        }
+
+        $._cycleChains.push(Chain(uint128(firstTrade), uint128(count)));
+    }
+
+    /**
+     * @dev Records a trade for as much of `maxQuantity` as both orders have left and returns the traded quantity.
+     *      The trade executes at the Buy price (or could be the Sell price, simplified to Buy).
+     */
+    function _recordTrade(uint256 buyId, uint256 sellId, address payToken, uint256 buyPrice, uint256 maxQuantity) internal returns (uint256 quantity) {
+        Layout storage $ = _layout();
+        Order storage sellOrder = $._orders[sellId];
+        Order storage buyOrder = $._orders[buyId];
+        quantity = Math.min(maxQuantity, Math.min(_available(sellOrder), _available(buyOrder)));
+
+        (uint256 buyerFee, uint256 sellerFee) = _tradeFees(buyOrder, sellOrder, payToken, buyPrice * quantity);
+        int256 amount = int256(buyPrice * quantity);
+
+        _updateNetBalance(buyOrder.maker, payToken, -amount - int256(buyerFee));
+        _updateNetBalance(sellOrder.maker, payToken, amount - int256(sellerFee));
+        $._cycleFees[payToken] += buyerFee + sellerFee;
+        $._cycleVolumes[$.settlementCycle][payToken].gross += uint256(amount);
+
+        $._cycleTrades.push(Trade(uint48(buyId), uint48(sellId), payToken, buyPrice, quantity, buyerFee, sellerFee, false));
+        _recordMatch(buyId, quantity);
+        _recordMatch(sellId, quantity);
+        emit TradeMatched($.settlementCycle, buyId, sellId, payToken, buyPrice, quantity);
+    }
+
+    /**
+     * @dev Fees of a trade worth `value`. The order that was in the book first (lower sequence) is the maker. Each
+     *      side charged a non-zero rate pays at least the token's minimum fee, but never more than the trade is
+     *      worth: a sale then cannot leave its seller owing, which default isolation relies on (a defaulter's
+     *      purchases are unwound, their sales are not).
+     */
+    function _tradeFees(Order storage buyOrder, Order storage sellOrder, address token, uint256 value) internal view returns (uint256 buyerFee, uint256 sellerFee) {
+        Layout storage $ = _layout();
+        FeeRates memory rates = $.hasAssetFeeRates[buyOrder.asset] ? $.assetFeeRates[buyOrder.asset] : $.feeRates;
+        bool buyerIsMaker = buyOrder.sequence < sellOrder.sequence;
+        buyerFee = _fee(value, token, buyerIsMaker ? rates.makerBps : rates.takerBps);
+        sellerFee = _fee(value, token, buyerIsMaker ? rates.takerBps : rates.makerBps);
+    }
+
+    function _fee(uint256 value, address token, uint256 bps) internal view returns (uint256 fee) {
+        Layout storage $ = _layout();
+        if (bps == 0) return 0;
+        fee = value * bps / 10000;
+        if (fee < $.minimumFees[token]) fee = Math.min($.minimumFees[token], value);
+    }
+
+    /**
+     * @dev Returns the custody of locked Sell orders that found no match this cycle: the buyers they were locked
+     *      for are gone, so the assets are released instead of being held without a match. One that cannot be
+     *      returned stays locked on its order.
+     */
+    function _releaseUnmatchedLocks(bytes32 key) internal {
+        Layout storage $ = _layout();
+        EnumerableSet.UintSet storage sells = $._sellOrders[key];
+        for (uint256 k = 0; k < sells.length(); k++) {
+            Order storage o = $._orders[sells.at(k)];
+            if (o.isLocked && $._orderMatches[o.id].cycle != $.settlementCycle) {
+                _tryReturnLockedAsset(o);
+                o.failedSettlementCycles = 0;
             }
         }
     }
 
-    function _executeCashCollection() internal returns (bool success) {
-        success = true;
-        for (uint256 u = 0; u < _involvedUsers.length; u++) {
-            address user = _involvedUsers[u];
-            for (uint256 t = 0; t < _involvedTokens.length; t++) {
-                address token = _involvedTokens[t];
-                int256 net = _netBalances[user][token];
+    // --- Cycle State Machine ---
 
-                if (net < 0) {
-                    uint256 amount = uint256(-net);
-                    try IERC20(token).transferFrom(user, address(this), amount) {
-                        _collected[user][token] = amount;
-                    } catch {
-                        success = false;
-                        return false;
-                    }
-                }
+    /**
+     * @dev Opens a new cycle once the settlement interval has passed since the last one.
+     */
+    function _openCycle() internal {
+        Layout storage $ = _layout();
+        require(block.timestamp >= $.lastSettlementTime + $._parameters[Parameter.SettlementInterval], "Too early to settle");
+        _beginCycle();
+    }
+
+    /**
+     * @dev Resets the per-cycle state and starts matching, unless a cycle is in progress. Assets are processed from
+     *      the end of the open-asset set towards its start. Only assets already processed leave the set while
+     *      matching (see _deactivateOrder()), so one removed can only be replaced by one that was already processed
+     *      or that only holds orders submitted during the cycle.
+     */
+    function _beginCycle() internal {
+        Layout storage $ = _layout();
+        require($.settlementPhase == SettlementPhase.Idle, "Settlement in progress");
+        $.lastSettlementTime = block.timestamp;
+        $.settlementCycle++;
+
+        delete $._involvedUsers;
+        delete $._involvedTokens;
+        delete $._cycleTrades;
+        delete $._cycleChains;
+        $._cycleFailed = false;
+        $._collectionDirty = false;
+        $._cycleOrderCutoff = $.nextOrderId;
+        $._cycleKeeper = msg.sender;
+        $._cycleRewardVolume = 0;
+
+        $.settlementPhase = SettlementPhase.Matching;
+        $.settlementCursor = $._openAssets.length();
+
+        CycleSummary storage summary = $._cycleSummaries[$.settlementCycle];
+        summary.status = CycleStatus.Open;
+        summary.startedAt = block.timestamp;
+
+        emit SettlementStarted($.settlementCycle);
+    }
+
+    /**
+     * @dev Performs up to `maxSteps` units of work (one asset, user or chain each, or one phase transition).
+     * @return closed True if the cycle was closed.
+     */
+    function _advanceCycle(uint256 maxSteps) internal returns (bool closed) {
+        Layout storage $ = _layout();
+        require($.settlementPhase != SettlementPhase.Idle, "No settlement in progress");
+
+        for (uint256 step = 0; step < maxSteps && $.settlementPhase != SettlementPhase.Idle; step++) {
+            SettlementPhase phase = $.settlementPhase;
+            if (phase == SettlementPhase.Matching) {
+                _matchNextAsset();
+            } else if (phase == SettlementPhase.Converting) {
+                _convertNextUser();
+            } else if (phase == SettlementPhase.Collecting) {
+                _collectNextUser();
+            } else if (phase == SettlementPhase.Distributing) {
+                _distributeNextUser();
+            } else {
+                _finalizeNextChain();
             }
         }
+
+        return $.settlementPhase == SettlementPhase.Idle;
     }
 
-    function _distributeCash() internal {
-        for (uint256 u = 0; u < _involvedUsers.length; u++) {
-            address user = _involvedUsers[u];
-            for (uint256 t = 0; t < _involvedTokens.length; t++) {
-                address token = _involvedTokens[t];
-                int256 net = _netBalances[user][token];
-                if (net > 0) {
-                    IERC20(token).transfer(user, uint256(net));
-                }
-                delete _netBalances[user][token];
-                delete _collected[user][token];
+    function _enterPhase(SettlementPhase phase) internal {
+        Layout storage $ = _layout();
+        $.settlementPhase = phase;
+        $.settlementCursor = 0;
+    }
+
+    /**
+     * @dev Matching step: retires the expired orders of the next asset (all of them if it has matured), then calculates its chain obligations
+     *      (locking the asset on a match). An asset whose orders all closed while it waited is closed instead.
+     */
+    function _matchNextAsset() internal {
+        Layout storage $ = _layout();
+        uint256 cursor = $.settlementCursor;
+        if (cursor == 0) {
+            _enterPhase(SettlementPhase.Converting);
+            return;
+        }
+
+        cursor--;
+        $.settlementCursor = cursor;
+
+        bytes32 key = $._openAssets.at(cursor);
+        if (_isEmptyAsset(key)) {
+            // Its orders closed while it waited to be matched
+            $._openAssets.remove(key);
+            return;
+        }
+
+        _retireExpiredOrders(key);
+        _calculateAssetChainObligations(key);
+    }
+
+    // --- Cross-Currency Netting ---
+
+    /**
+     * @dev Conversion step for one user. If the user opted into cross-currency netting, each non-base balance is
+     *      swapped with the clearing house for its base-currency value: receivables are credited at the oracle rate
+     *      less the token's haircut, payables are debited at the rate plus the haircut. The clearing house becomes a
+     *      participant (address(this)) whose legs are settled against its conversion reserves. A token is left
+     *      unconverted if the oracle has no rate for it or the reserves cannot cover the clearing house's side.
+     *      Skipped under default isolation, since unwinding a defaulter's trades would invalidate conversions.
+     *      The step then publishes the user's net obligations as they go into collection.
+     */
+    function _convertNextUser() internal {
+        Layout storage $ = _layout();
+        if ($.settlementCursor >= $._involvedUsers.length) {
+            _enterPhase(SettlementPhase.Collecting);
+            return;
+        }
+
+        address user = $._involvedUsers[$.settlementCursor++];
+        if ($.crossCurrencyNetting[user] && address($.priceOracle) != address(0) && !$.defaultIsolationEnabled) {
+            _convertBalances(user);
+        }
+
+        for (uint256 t = 0; t < $._involvedTokens.length; t++) {
+            address token = $._involvedTokens[t];
+            int256 net = $._netBalances[user][token];
+            if (net != 0) emit NetObligation($.settlementCycle, user, token, net);
+        }
+    }
+
+    function _convertBalances(address user) internal {
+        Layout storage $ = _layout();
+        for (uint256 t = 0; t < $._involvedTokens.length; t++) {
+            address token = $._involvedTokens[t];
+            int256 net = $._netBalances[user][token];
+            if (token == $.baseToken || net == 0) continue;
+
+            int256 baseAmount = _baseValue(token, net);
+            if (baseAmount == 0) continue;
+
+            // The clearing house pays out the base credit, or the token the user no longer pays
+            bool covered = net > 0 ? _reserveCovers($.baseToken, uint256(baseAmount)) : _reserveCovers(token, uint256(-net));
+            if (!covered) continue;
+
+            _updateNetBalance(user, token, -net);
+            _updateNetBalance(address(this), token, net);
+            _updateNetBalance(user, $.baseToken, baseAmount);
+            _updateNetBalance(address(this), $.baseToken, -baseAmount);
+
+            emit ObligationConverted($.settlementCycle, user, token, net, baseAmount);
+        }
+    }
+
+    /**
+     * @dev Base-currency value of a balance, after the haircut (rounded against the user). 0 if there is no rate.
+     */
+    function _baseValue(address token, int256 amount) internal view returns (int256) {
+        Layout storage $ = _layout();
+        uint256 rate;
+        try $.priceOracle.getRate(token) returns (uint256 r) {
+            rate = r;
+        } catch {
+            return 0;
+        }
+
+        if (amount > 0) {
+            return int256(Math.mulDiv(uint256(amount), rate * (10000 - $.haircutBps[token]), 1e18 * 10000));
+        }
+        return -int256(Math.mulDiv(uint256(-amount), rate * (10000 + $.haircutBps[token]), 1e18 * 10000, Math.Rounding.Ceil));
+    }
+
+    function _reserveCovers(address token, uint256 amount) internal view returns (bool) {
+        Layout storage $ = _layout();
+        return int256($.conversionReserves[token]) + $._netBalances[address(this)][token] >= int256(amount);
+    }
+
+    /**
+     * @dev Collection step for one user. Without default isolation the first failed transfer fails the cycle and
+     *      skips the remaining users. With default isolation a failed transfer marks the user as a defaulter and
+     *      unwinds the trades that depend on them; since that changes other users' balances, collection makes
+     *      another pass over all users until a pass completes without a new default.
+     */
+    function _collectNextUser() internal {
+        Layout storage $ = _layout();
+        if ($.settlementCursor >= $._involvedUsers.length) {
+            if ($._collectionDirty) {
+                $._collectionDirty = false;
+                $.settlementCursor = 0;
+            } else {
+                _enterPhase(SettlementPhase.Distributing);
             }
+            return;
+        }
+
+        address user = $._involvedUsers[$.settlementCursor++];
+        if ($.defaultIsolationEnabled) {
+            _collectWithDefaultIsolation(user);
+        } else if (!_collectFrom(user)) {
+            $._cycleFailed = true;
+            $.settlementCursor = $._involvedUsers.length;
         }
     }
 
-    function _refundCollectedFunds() internal {
-        for (uint256 u = 0; u < _involvedUsers.length; u++) {
-            address user = _involvedUsers[u];
-            for (uint256 t = 0; t < _involvedTokens.length; t++) {
-                address token = _involvedTokens[t];
-                uint256 amount = _collected[user][token];
-                if (amount > 0) {
-                    IERC20(token).transfer(user, amount);
+    function _collectFrom(address user) internal returns (bool success) {
+        Layout storage $ = _layout();
+        for (uint256 t = 0; t < $._involvedTokens.length; t++) {
+            address token = $._involvedTokens[t];
+            int256 net = $._netBalances[user][token];
+
+            if (net < 0) {
+                uint256 amount = uint256(-net);
+                if (user == address(this)) {
+                    // The clearing house's side of conversions (covered when converting)
+                    $.conversionReserves[token] -= amount;
+                    $._collected[user][token] = amount;
+                    continue;
                 }
-                delete _collected[user][token];
-                delete _netBalances[user][token];
-            }
-        }
-    }
-
-    function _finalizeOrdersAndAssets(address[] memory assets, uint256[] memory tokenIds, uint256 uniqueCount) internal {
-         for (uint256 i = 0; i < uniqueCount; i++) {
-             address currentAsset = assets[i];
-             uint256 currentTokenId = tokenIds[i];
-             
-             address currentOwner = _findLockedOwner(currentAsset, currentTokenId);
-             if (currentOwner == address(0)) continue; // Should not happen if settlement logic was consistent
-             address originalSeller = currentOwner;
-
-             // Re-match to close orders
-             bool chainActive = true;
-             uint256 iterations = 0;
-             while (chainActive && iterations < 50) {
-                 chainActive = false;
-                 iterations++;
-                 
-                 (uint256 sellId, bool foundSell) = _findSellOrder(currentAsset, currentTokenId, currentOwner);
-                
-                if (foundSell) {
-                    (uint256 buyId, , bool foundBuy) = _findMatchingBuyOrder(currentAsset, currentTokenId, sellId);
-
-                    if (foundBuy) {
-                        orders[sellId].active = false;
-                        orders[buyId].active = false;
-                        currentOwner = orders[buyId].maker;
-                        chainActive = true;
-                    }
+                if (!_collectCash(user, token, amount)) {
+                    $._cycleSummaries[$.settlementCycle].defaultCount++;
+                    emit PaymentDefault($.settlementCycle, user, token, amount);
+                    return false;
                 }
-             }
-             
-             // Transfer Asset from Contract to Final Owner
-             if (currentOwner != originalSeller) {
-                 IERC721(currentAsset).safeTransferFrom(address(this), currentOwner, currentTokenId);
-             }
-         }
-         
-         _compactActiveOrders();
-    }
-
-    function _handleSettlementFailure() internal {
-        for (uint256 i = 0; i < activeOrderIds.length; i++) {
-            Order storage order = orders[activeOrderIds[i]];
-            if (order.active && order.isLocked) {
-                order.failedSettlementCycles++;
-                
-                if (order.failedSettlementCycles >= MAX_FAILED_CYCLES) {
-                    // Unlock and Return
-                    IERC721(order.asset).safeTransferFrom(address(this), order.maker, order.tokenId);
-                    order.isLocked = false;
-                    order.active = false;
-                    emit AssetUnlocked(order.id, order.asset, order.tokenId);
+                $._collected[user][token] = amount;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * @dev Default-isolation variant of collection. Only the part of a negative balance not yet collected is pulled,
+     *      so a user visited again in a later pass is not charged twice.
+     */
+    function _collectWithDefaultIsolation(address user) internal {
+        Layout storage $ = _layout();
+        if ($._isDefaulter[user]) return;
+
+        for (uint256 t = 0; t < $._involvedTokens.length; t++) {
+            address token = $._involvedTokens[t];
+            int256 net = $._netBalances[user][token];
+            if (net >= 0) continue;
+
+            uint256 owed = uint256(-net);
+            uint256 collected = $._collected[user][token];
+            if (owed <= collected) continue;
+
+            if (_collectCash(user, token, owed - collected)) {
+                $._collected[user][token] = owed;
+            } else {
+                $._isDefaulter[user] = true;
+                $._cycleSummaries[$.settlementCycle].defaultCount++;
+                emit PaymentDefault($.settlementCycle, user, token, owed - collected);
+                _unwindTradesOf(user);
+                $._collectionDirty = true;
+                return;
+            }
+        }
+    }
+
+    /**
+     * @dev Collects `amount` from the user's cash account first and pulls only the remainder from their wallet. If
+     *      the pull fails, the guarantee fund covers the remainder; nothing is debited if it cannot.
+     */
+    function _collectCash(address user, address token, uint256 amount) internal returns (bool success) {
+        Layout storage $ = _layout();
+        uint256 fromAccount = Math.min($.cashBalances[user][token], amount);
+        uint256 remainder = amount - fromAccount;
+        if (remainder > 0 && !IERC20(token).trySafeTransferFrom(user, address(this), remainder)) {
+            if (address($.guaranteeFund) == address(0) || !$.guaranteeFund.draw(user, token, remainder)) return false;
+            $._coveredByGuarantee[user][token] += remainder;
+        }
+        $.cashBalances[user][token] -= fromAccount;
+        $._collectedFromAccount[user][token] += fromAccount;
+        emit CashCollected($.settlementCycle, user, token, amount);
+        return true;
+    }
+
+    /**
+     * @dev Unwinds every trade in which the defaulter is the buyer, together with the later links of the same chain
+     *      (the defaulter never receives the asset, so they cannot deliver it onwards).
+     */
+    function _unwindTradesOf(address defaulter) internal {
+        Layout storage $ = _layout();
+        for (uint256 c = 0; c < $._cycleChains.length; c++) {
+            Chain storage chain = $._cycleChains[c];
+            bool unwinding = false;
+
+            for (uint256 i = chain.firstTrade; i < chain.firstTrade + chain.tradeCount; i++) {
+                Trade storage trade = $._cycleTrades[i];
+                if (trade.unwound) break; // The rest of the chain is already unwound
+
+                if (!unwinding && $._orders[trade.buyOrderId].maker == defaulter) unwinding = true;
+                if (unwinding) {
+                    trade.unwound = true;
+                    $._cycleSummaries[$.settlementCycle].unwoundTradeCount++;
+                    int256 amount = int256(trade.price * trade.quantity);
+                    _updateNetBalance($._orders[trade.buyOrderId].maker, trade.paymentToken, amount + int256(trade.buyerFee));
+                    _updateNetBalance($._orders[trade.sellOrderId].maker, trade.paymentToken, -amount + int256(trade.sellerFee));
+                    $._cycleFees[trade.paymentToken] -= trade.buyerFee + trade.sellerFee;
                 }
             }
         }
     }
 
-    function _updateNetBalance(address user, address token, int256 amount) internal {
-        if (amount == 0) return;
+    /**
+     * @dev Distribution step for one user. In a failed cycle everything collected is refunded; otherwise the user
+     *      receives their positive balances plus anything collected beyond their final obligations (after unwinds).
+     *      Refunds go back to the guarantee fund and the cash account up to the amounts drawn from them.
+     */
+    function _distributeNextUser() internal {
+        Layout storage $ = _layout();
+        if ($.settlementCursor >= $._involvedUsers.length) {
+            _accrueCycleFees();
+            _enterPhase(SettlementPhase.Finalizing);
+            return;
+        }
+
+        address user = $._involvedUsers[$.settlementCursor++];
+        delete $._isDefaulter[user];
+
+        for (uint256 t = 0; t < $._involvedTokens.length; t++) {
+            address token = $._involvedTokens[t];
+            int256 net = $._netBalances[user][token];
+            uint256 payout = $._collected[user][token];
+            if (net < 0) $._cycleVolumes[$.settlementCycle][token].net += uint256(-net);
+
+            if (!$._cycleFailed) {
+                if (net > 0) payout += uint256(net);
+                else payout -= uint256(-net);
+            }
+
+            if (user == address(this)) {
+                $.conversionReserves[token] += payout;
+            } else {
+                uint256 refund = $._collected[user][token];
+                if (!$._cycleFailed && net < 0) refund -= uint256(-net);
+                _payOut(user, token, payout, refund);
+            }
+            delete $._netBalances[user][token];
+            delete $._collected[user][token];
+            delete $._collectedFromAccount[user][token];
+            delete $._coveredByGuarantee[user][token];
+        }
+    }
+
+    /**
+     * @dev Pays `payout` (of which `refund` is a refund of collected cash) to the user. The refund returns to the
+     *      guarantee fund, then the cash account, up to the amounts taken from them. The rest is transferred, or
+     *      credited to the cash account if the user opted in, after seizing what is needed to recover an
+     *      outstanding guarantee fund claim (from the payout first, then the cash account). A transfer to the user
+     *      that fails is left in unreturnedBalances for them to claim, so that no recipient can hold up the cycle.
+     */
+    function _payOut(address user, address token, uint256 payout, uint256 refund) internal {
+        Layout storage $ = _layout();
+        uint256 toFund = Math.min(refund, $._coveredByGuarantee[user][token]);
+        uint256 toAccount = Math.min(refund - toFund, $._collectedFromAccount[user][token]);
+        if ($.settleToCashAccount[user]) toAccount = payout - toFund;
+        uint256 toWallet = payout - toFund - toAccount;
+        _creditCash(user, token, toAccount);
+        if (payout > 0) emit CashDistributed($.settlementCycle, user, token, payout);
+
+        if (address($.guaranteeFund) != address(0)) {
+            uint256 claim = $.guaranteeFund.claims(user, token);
+            if (claim > toFund) {
+                uint256 seized = Math.min(claim - toFund, toWallet);
+                toWallet -= seized;
+                toFund += seized;
+                seized = Math.min(claim - toFund, $.cashBalances[user][token]);
+                $.cashBalances[user][token] -= seized;
+                toFund += seized;
+            }
+            if (toFund > 0) {
+                IERC20(token).safeTransfer(address($.guaranteeFund), toFund);
+                $.guaranteeFund.recover(user, token, toFund);
+            }
+        }
+        if (toWallet > 0 && !IERC20(token).trySafeTransfer(user, toWallet)) {
+            $.unreturnedBalances[user][token] += toWallet;
+            emit PayoutFailed($.settlementCycle, user, token, toWallet);
+        }
+    }
+
+    /**
+     * @dev Once everyone has been paid, the fees of a successful cycle stay with the clearing house for the fee
+     *      recipient; in a failed cycle they were refunded with everything else.
+     */
+    function _accrueCycleFees() internal {
+        Layout storage $ = _layout();
+        for (uint256 t = 0; t < $._involvedTokens.length; t++) {
+            address token = $._involvedTokens[t];
+            if (!$._cycleFailed) $.accruedFees[token] += $._cycleFees[token];
+            delete $._cycleFees[token];
+        }
+    }
+
+    /**
+     * @dev Finalization step for one chain. Fills the orders of every settled trade and delivers the asset along the
+     *      settled links: each buyer keeps what they do not pass on to the next settled link. A chain whose first
+     *      link was unwound, or any chain of a failed cycle, keeps its asset locked and counts a failed cycle. The
+     *      cycle closes after the last chain. An asset a buyer cannot receive stays in custody for them to claim
+     *      (see ClearingHouseAdmin.claimUndeliveredAsset()).
+     */
+    function _finalizeNextChain() internal {
+        Layout storage $ = _layout();
+        if ($.settlementCursor >= $._cycleChains.length) {
+            _closeCycle();
+            return;
+        }
+
+        Chain storage chain = $._cycleChains[$.settlementCursor++];
+        // The chain's first Sell order, which delivers the asset from custody
+        Order storage head = $._orders[$._cycleTrades[chain.firstTrade].sellOrderId];
+
+        uint256 settled = 0;
+        while (!$._cycleFailed && settled < chain.tradeCount && !$._cycleTrades[chain.firstTrade + settled].unwound) {
+            settled++;
+        }
+
+        if (settled == 0) {
+            // Keeps the asset locked for the next cycle unless it reached MaxFailedCycles
+            _recordFailedCycle(head);
+            return;
+        }
+
+        for (uint256 i = 0; i < settled; i++) {
+            Trade storage trade = $._cycleTrades[chain.firstTrade + i];
+            Order storage buyOrder = $._orders[trade.buyOrderId];
+            uint256 passedOn = i + 1 < settled ? $._cycleTrades[chain.firstTrade + i + 1].quantity : 0;
+
+            _fillOrder($._orders[trade.sellOrderId], trade.quantity);
+            _fillOrder(buyOrder, trade.quantity);
+            if (trade.paymentToken == $.keeperReward.token) $._cycleRewardVolume += trade.price * trade.quantity;
+
+            // Transfer Asset from Contract to Final Owner
+            if (trade.quantity > passedOn) {
+                _deliverAsset(head, buyOrder, trade.quantity - passedOn);
+            }
+        }
+    }
+
+    /**
+     * @dev Sends `quantity` of the asset the chain's head delivers to the buyer, or, if the transfer fails, records
+     *      it as held for them.
+     */
+    function _deliverAsset(Order storage head, Order storage buyOrder, uint256 quantity) internal {
+        Layout storage $ = _layout();
+        if (_trySendAsset(head.assetType, head.asset, head.tokenId, buyOrder.maker, quantity)) {
+            emit AssetDelivered($.settlementCycle, buyOrder.id, buyOrder.maker, head.asset, head.tokenId, quantity);
+            return;
+        }
+        $.undeliveredQuantities[buyOrder.id] += quantity;
+        if (head.assetType == AssetType.ERC721) $._beneficialOwners[_assetKey(head.asset, head.tokenId)] = buyOrder.maker;
+        emit AssetDeliveryFailed($.settlementCycle, buyOrder.id, buyOrder.maker, head.asset, head.tokenId, quantity);
+    }
+
+    /**
+     * @dev Reduces the remaining quantity of an order; a fully filled order is closed (and no longer holds custody).
+     */
+    function _fillOrder(Order storage order, uint256 quantity) internal {
+        order.quantity -= quantity;
+        if (order.quantity == 0) {
+            order.isLocked = false;
+            _deactivateOrder(order);
+        }
+    }
+
+    function _closeCycle() internal {
+        Layout storage $ = _layout();
+        _enterPhase(SettlementPhase.Idle);
+
+        CycleSummary storage summary = $._cycleSummaries[$.settlementCycle];
+        summary.status = $._cycleFailed ? CycleStatus.Failed : CycleStatus.Settled;
+        summary.closedAt = block.timestamp;
+        summary.tradeCount = $._cycleTrades.length;
+        summary.participantCount = $._involvedUsers.length;
+        summary.tokens = $._involvedTokens;
+
+        if ($._cycleFailed) {
+            summary.failureReason = "Global Payment Failure";
+            emit SettlementFailed($.settlementCycle, summary.failureReason);
+        }
+        _payKeeperReward();
+        emit SettlementCompleted($.settlementCycle, block.timestamp);
+    }
+
+    /**
+     * @dev Pays the keeper reward to the account that started the cycle (whoever sends the closing chunk has no
+     *      claim to it), as far as the pool (or the accrued fees) covers it. A cycle without trades, or settling
+     *      less than the minimum volume, pays nothing, so neither an empty book nor a token self-trade earns it.
+     *      A reward the token refuses to transfer is skipped rather than blocking the cycle from closing.
+     */
+    function _payKeeperReward() internal {
+        Layout storage $ = _layout();
+        KeeperReward storage reward = $.keeperReward;
+        if ($._cycleTrades.length == 0 || reward.token == address(0)) return;
+        if ($._cycleRewardVolume < $.keeperRewardMinVolume) return;
+
+        mapping(address => uint256) storage source = reward.fromFees ? $.accruedFees : $.keeperRewardPool;
+        uint256 amount = Math.min($._cycleFailed ? reward.failedAmount : reward.settledAmount, source[reward.token]);
+        if (amount == 0 || !IERC20(reward.token).trySafeTransfer($._cycleKeeper, amount)) return;
+
+        source[reward.token] -= amount;
+        emit KeeperRewarded($.settlementCycle, $._cycleKeeper, reward.token, amount);
+    }
+
+    function _recordFailedCycle(Order storage order) internal {
+        Layout storage $ = _layout();
+        // An order starting several chains counts at most one failure per cycle
+        if ($._failedInCycle[order.id] == $.settlementCycle) return;
+        $._failedInCycle[order.id] = $.settlementCycle;
+
+        order.failedSettlementCycles++;
         
-        if (_netBalances[user][token] == 0) {
-            _addToSet(_involvedUsers, user);
-            _addToSet(_involvedTokens, token);
+        if (order.failedSettlementCycles >= $._parameters[Parameter.MaxFailedCycles]) {
+            // Unlock and Return
+            _tryReturnLockedAsset(order);
+            _deactivateOrder(order);
+        }
+    }
+
+    function _retireExpiredOrders(bytes32 key) internal {
+        Layout storage $ = _layout();
+        // A matured asset is no longer traded: all of its orders expire
+        bool matured = _isMatured($._assetIds[key].asset, $._assetIds[key].tokenId);
+        _retireExpiredOrders($._buyOrders[key], matured);
+        _retireExpiredOrders($._sellOrders[key], matured);
+    }
+
+    function _retireExpiredOrders(EnumerableSet.UintSet storage ids, bool all) internal {
+        Layout storage $ = _layout();
+        // Iterate backwards: retiring an order removes it from the set
+        for (uint256 i = ids.length(); i > 0; i--) {
+            Order storage order = $._orders[ids.at(i - 1)];
+            if (all || _isExpired(order)) {
+                if (order.isLocked) {
+                    _tryReturnLockedAsset(order);
+                }
+                _deactivateOrder(order);
+                emit OrderExpired(order.id, order.maker);
+            }
         }
-        _netBalances[user][token] += amount;
     }
 
-    function _addToSet(address[] storage set, address value) internal {
-        for(uint i=0; i<set.length; i++) {
-            if (set[i] == value) return;
+    function _isExpired(Order storage order) internal view returns (bool) {
+        Layout storage $ = _layout();
+        if (order.expiresAt != 0 && block.timestamp >= order.expiresAt) return true;
+        if (order.expiryCycle != 0 && $.settlementCycle > order.expiryCycle) return true;
+        return false;
+    }
+
+    function _creditCash(address user, address token, uint256 amount) internal {
+        Layout storage $ = _layout();
+        if (amount == 0) return;
+        $.cashBalances[user][token] += amount;
+        $._cashAccountHolders.add(user);
+        $._paymentTokens.add(token);
+    }
+
+    // --- Preview ---
+
+    /**
+     * @dev Opens a cycle when idle, whether or not the settlement interval has passed, and runs its matching and
+     *      conversion steps, then reports the trades, the net obligations going into collection and
+     *      the obligations that would not be collected in full. Sellers' assets are checked rather than pulled
+     *      (nor are any returned), but expired orders are retired and the cycle's state written as in a real
+     *      cycle, so the caller must revert afterwards to discard all of it: only ever run it under eth_call.
+     */
+    function _previewCycle() internal returns (SettlementPreview memory preview) {
+        Layout storage $ = _layout();
+        $._previewing = true;
+        _beginCycle();
+        while ($.settlementPhase == SettlementPhase.Matching) _matchNextAsset();
+        while ($.settlementPhase == SettlementPhase.Converting) _convertNextUser();
+
+        preview.trades = $._cycleTrades;
+        uint256 users = $._involvedUsers.length;
+        uint256 tokens = $._involvedTokens.length;
+        preview.obligations = new NetAmount[](users * tokens);
+        preview.shortfalls = new Shortfall[](users * tokens);
+        uint256 obligationCount = 0;
+        uint256 shortfallCount = 0;
+        // Guarantee fund assets drawn by earlier shortfalls, per token
+        uint256[] memory drawn = new uint256[](tokens);
+
+        for (uint256 u = 0; u < users; u++) {
+            address user = $._involvedUsers[u];
+            for (uint256 t = 0; t < tokens; t++) {
+                address token = $._involvedTokens[t];
+                int256 net = $._netBalances[user][token];
+                if (net == 0) continue;
+                preview.obligations[obligationCount++] = NetAmount(user, token, net);
+
+                // The clearing house's side of conversions is covered by its reserves
+                if (net > 0 || user == address(this)) continue;
+                Shortfall memory shortfall;
+                (shortfall, drawn[t]) = _previewShortfall(user, token, uint256(-net), drawn[t]);
+                if (shortfall.owed > 0) preview.shortfalls[shortfallCount++] = shortfall;
+            }
+        }
+
+        NetAmount[] memory obligations = preview.obligations;
+        Shortfall[] memory shortfalls = preview.shortfalls;
+        assembly {
+            mstore(obligations, obligationCount)
+            mstore(shortfalls, shortfallCount)
         }
-        set.push(value);
     }
 
-    function _compactActiveOrders() internal {
-        for (int256 i = int256(activeOrderIds.length) - 1; i >= 0; i--) {
-            if (!orders[activeOrderIds[uint256(i)]].active) {
-                activeOrderIds[uint256(i)] = activeOrderIds[activeOrderIds.length - 1];
-                activeOrderIds.pop();
+    /**
+     * @dev The shortfall of `user` owing `owed` of `token`, left empty if they can pay it. `drawn` is what earlier
+     *      shortfalls would draw from the guarantee fund in `token`, returned with this one's draw added.
+     */
+    function _previewShortfall(address user, address token, uint256 owed, uint256 drawn) internal view returns (Shortfall memory shortfall, uint256) {
+        Layout storage $ = _layout();
+        uint256 fromAccount = Math.min($.cashBalances[user][token], owed);
+        uint256 available = fromAccount + Math.min(
+            IERC20(token).balanceOf(user),
+            IERC20(token).allowance(user, address(this))
+        );
+        if (available >= owed) return (shortfall, drawn);
+
+        // Collection pulls the whole remainder from the wallet, or has the fund draw all of it
+        uint256 remainder = owed - fromAccount;
+        bool covered = address($.guaranteeFund) != address(0) && $.guaranteeFund.fundAssets(token) >= drawn + remainder;
+        return (Shortfall(user, token, owed, available, covered), covered ? drawn + remainder : drawn);
+    }
+
+    function _updateNetBalance(address user, address token, int256 amount) internal {
+        Layout storage $ = _layout();
+        if (amount == 0) return;
+        
+        if ($._netBalances[user][token] == 0) {
+            if ($._userInvolvedInCycle[user] != $.settlementCycle) {
+                $._userInvolvedInCycle[user] = $.settlementCycle;
+                $._involvedUsers.push(user);
+            }
+            if ($._tokenInvolvedInCycle[token] != $.settlementCycle) {
+                $._tokenInvolvedInCycle[token] = $.settlementCycle;
+                $._involvedTokens.push(token);
             }
+            $._paymentTokens.add(token);
         }
+        $._netBalances[user][token] += amount;
     }
 }
-
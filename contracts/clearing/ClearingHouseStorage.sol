@@ -3,71 +3,557 @@ pragma solidity ^0.8.28;
 
 import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
 import "@openzeppelin/contracts/token/ERC721/IERC721Receiver.sol";
+import "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+import "@openzeppelin/contracts/token/ERC1155/IERC1155Receiver.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
-import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuardTransient.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "./IPriceOracle.sol";
+import "./IGuaranteeFund.sol";
+import "./IParticipantRegistry.sol";
+import "./IAssetRegistry.sol";
+import "./IAssetCustodian.sol";
+import "./IMaturingAsset.sol";
+
+contract ClearingHouseStorage is Initializable, ReentrancyGuardTransient {
+    using EnumerableSet for EnumerableSet.UintSet;
+    using EnumerableSet for EnumerableSet.Bytes32Set;
+    using EnumerableSet for EnumerableSet.AddressSet;
 
-contract ClearingHouseStorage is ReentrancyGuard, Ownable, IERC721Receiver {
     enum Side { Buy, Sell }
 
+    // Token standard of the asset being cleared. ERC721 assets always have quantity 1; ERC20 assets use tokenId 0.
+    enum AssetType { ERC721, ERC1155, ERC20 }
+
+    // Settlement cycle state machine: Idle -> Matching -> Converting -> Collecting -> Distributing -> Finalizing -> Idle
+    enum SettlementPhase { Idle, Matching, Converting, Collecting, Distributing, Finalizing }
+
+    enum CycleStatus { None, Open, Settled, Failed }
+
+    // Why a matched Sell order's asset could not be taken into custody
+    enum DeliveryFailure { None, NotOwned, NotApproved, TransferFailed }
+
     struct Order {
         uint256 id;
         address maker;
-        address asset;          // ERC721 address
+        address asset;          // Asset contract address (see assetType)
+        AssetType assetType;
         uint256 tokenId;
-        address paymentToken;   // ERC20 address (Primary for Sell, Required for Buy)
-        uint256 price;          // Price (Primary for Sell, Required for Buy)
+        uint256 quantity;       // Remaining quantity, reduced by partial fills (1 for ERC721)
+        address paymentToken;   // ERC20 address (Required for single-currency Buy, 0 for Sell and multicurrency Buy)
+        uint256 price;          // Price per unit (Required for single-currency Buy, 0 for Sell and multicurrency Buy)
         Side side;
         address counterparty;   // Optional: 0 for any, otherwise specific address
         bool active;
         uint256 failedSettlementCycles;
-        bool isLocked;          // True if asset is in contract custody (Sell orders only)
+        bool isLocked;          // True if the remaining quantity is in contract custody (Sell orders only)
+        uint256 expiresAt;      // Optional: 0 for none, otherwise timestamp after which the order is retired
+        uint256 expiryCycle;    // Optional: 0 for none, otherwise last settlement cycle the order takes part in
+        uint256 sequence;       // Time priority: submission order, refreshed when the order is amended
+    }
+
+    struct AssetId {
+        address asset;
+        uint256 tokenId;
+        AssetType assetType;
+    }
+
+    // Parameters of a new order. A Buy order with a single payment token is a single-currency order.
+    struct OrderRequest {
+        Side side;
+        address asset;
+        AssetType assetType;
+        uint256 tokenId;
+        uint256 quantity;
+        address[] paymentTokens;    // Accepted tokens (Sell) or tokens in order of preference (Buy)
+        uint256[] prices;           // Price per unit for each token (maximum prices for Buy orders)
+        address counterparty;
+        uint256 expiresAt;
+        uint256 goodForCycles;
+    }
+
+    // Filter for order book listings. Zero addresses and unset flags match any order.
+    struct OrderFilter {
+        address maker;
+        address asset;
+        bool matchTokenId;
+        uint256 tokenId;
+        bool matchSide;
+        Side side;
+    }
+
+    // An asset held in custody for a locked Sell order
+    struct LockedAsset {
+        uint256 orderId;
+        address maker;
+        address asset;
+        AssetType assetType;
+        uint256 tokenId;
+        uint256 quantity;
+        uint256 failedSettlementCycles;
+    }
+
+    // An order signed by its maker (EIP-712, see ClearingHouseOrders), which anyone can submit
+    struct SignedOrder {
+        address maker;
+        OrderRequest request;
+        uint256 nonce;
+        uint256 deadline;       // Latest time the order can be submitted
+        bytes signature;        // ECDSA signature, or any signature the maker accepts under ERC-1271
+    }
+
+    // A single Buy/Sell match recorded during obligation calculation. The order IDs share a slot with the payment
+    // token, as a trade is written for every match (IDs are assigned sequentially, so 48 bits do not run out).
+    struct Trade {
+        uint48 buyOrderId;
+        uint48 sellOrderId;
+        address paymentToken;
+        uint256 price;          // Per unit
+        uint256 quantity;
+        uint256 buyerFee;
+        uint256 sellerFee;
+        bool unwound;           // True if the trade was dropped because a participant defaulted
     }
 
-    // --- State Variables ---
+    // A settlement chain for one asset (A -> B -> C), stored as a contiguous run of _cycleTrades.
+    // The first Sell order delivers from custody; each later link carries at most the quantity of the one before.
+    // The asset is the first Sell order's. Packed into one slot, as a chain is written for every asset that trades.
+    struct Chain {
+        uint128 firstTrade;     // Index of the first link in _cycleTrades
+        uint128 tradeCount;
+    }
+
+    // An order's matches in the last settlement cycle in which it was matched, packed into one slot
+    struct OrderMatch {
+        uint64 cycle;
+        uint192 quantity;       // Quantity matched in that cycle (an order can be partially filled by several trades)
+    }
+
+    // Fees in basis points of a trade's value, for the side that provided liquidity (maker: the order that was in
+    // the book first) and the side that took it (taker)
+    struct FeeRates {
+        uint256 makerBps;
+        uint256 takerBps;
+    }
+
+    // Settlement parameters the owner can change through the timelocked proposal flow
+    enum Parameter {
+        SettlementInterval,     // Minimum time between the start of two cycles
+        MaxFailedCycles,        // Failed cycles after which a locked Sell order is cancelled and its asset returned
+        MaxChainTrades,         // Maximum number of trades recorded per asset and cycle
+        ParameterDelay          // Delay between proposing a parameter change and executing it
+    }
+
+    struct ParameterProposal {
+        uint256 value;
+        uint256 executableAt;   // 0 if there is no pending proposal
+    }
+
+    // Record of a settlement cycle, kept after the cycle's working state is cleared
+    struct CycleSummary {
+        CycleStatus status;
+        uint256 startedAt;
+        uint256 closedAt;
+        uint256 tradeCount;         // Trades matched
+        uint256 unwoundTradeCount;  // Of which unwound because a participant defaulted (default isolation)
+        uint256 participantCount;   // Participants with an obligation (including the clearing house for conversions)
+        uint256 defaultCount;       // Payment defaults
+        string failureReason;       // Empty unless the cycle failed
+        address[] tokens;           // Payment tokens with obligations in the cycle
+    }
+
+    // Volume of one payment token in a cycle
+    struct TokenVolume {
+        uint256 gross;  // Value of the trades matched
+        uint256 net;    // Sum of the net obligations owed after netting
+    }
+
+    // Paid to the account that started a cycle which settled enough volume (see keeperRewardMinVolume)
+    struct KeeperReward {
+        address token;
+        uint256 settledAmount;  // For a cycle that settled
+        uint256 failedAmount;   // For a cycle that failed
+        bool fromFees;          // Paid from the accrued fees in `token` instead of the keeper reward pool
+    }
+
+    // A participant's net amount of one token in a settlement preview (negative amounts are owed)
+    struct NetAmount {
+        address user;
+        address token;
+        int256 amount;
+    }
+
+    // An obligation the participant's cash account, wallet balance and allowance cannot currently cover
+    struct Shortfall {
+        address user;
+        address token;
+        uint256 owed;
+        uint256 available;      // Cash account balance plus what can be pulled from the wallet
+        bool covered;           // True if the guarantee fund would pay the rest, so the cycle is unaffected
+    }
+
+    // Outcome of matching the book as it stands, without running the cycle
+    struct SettlementPreview {
+        Trade[] trades;
+        NetAmount[] obligations;    // After any cross-currency conversion
+        Shortfall[] shortfalls;
+    }
+
+    // --- Constants ---
+
+    uint256 public constant MAX_FEE_BPS = 1000;
+
+    // --- State ---
+    // All state lives in one ERC-7201 namespace shared by the matching and settlement modules instead of in
+    // sequential slots, so upgrades cannot shift it. Fields may only be appended to the end of Layout. The owner
+    // is kept here too, the reentrancy guard uses transient storage and Initializable its own ERC-7201 slot, so
+    // the contract declares no sequential storage at all.
+
+    /// @custom:storage-location erc7201:clearinghouse.storage.ClearingHouse
+    struct Layout {
+        uint256 nextOrderId;
+        // Source of Order.sequence; unlike array position it is not affected by compaction
+        uint256 _nextSequence;
+        // Exposed through orders()
+        mapping(uint256 => Order) _orders;
+
+        // Mapping: OrderID -> PaymentToken -> Price
+        // Stores accepted payment terms for Sell Orders.
+        // If price > 0, the token is accepted at that price.
+        mapping(uint256 => mapping(address => uint256)) sellOrderTerms;
+        // Mapping: OrderID -> list of tokens present in sellOrderTerms (needed to clear terms on amendment)
+        mapping(uint256 => address[]) _sellOrderTokens;
 
-    uint256 public nextOrderId;
-    mapping(uint256 => Order) public orders;
-    
-    // Mapping: OrderID -> PaymentToken -> Price
-    // Stores accepted payment terms for Sell Orders.
-    // If price > 0, the token is accepted at that price.
-    mapping(uint256 => mapping(address => uint256)) public sellOrderTerms;
-    
-    uint256[] public activeOrderIds;
+        // Mapping: OrderID -> PaymentToken -> Maximum Price
+        // Stores the accepted currencies of multicurrency Buy Orders.
+        // If price > 0, the buyer pays in that token up to that price.
+        mapping(uint256 => mapping(address => uint256)) buyOrderTerms;
+        // Mapping: OrderID -> tokens of buyOrderTerms in the buyer's order of preference
+        mapping(uint256 => address[]) _buyOrderTokens;
 
-    uint256 public lastSettlementTime;
-    uint256 public constant SETTLEMENT_INTERVAL = 5 minutes;
-    uint256 public constant MAX_FAILED_CYCLES = 2;
+        // --- Order Book Indexes ---
+        // Keyed by keccak256(asset, tokenId) so that matching only scans the orders of one asset.
+        // Orders are removed from every index as soon as they become inactive.
 
-    // --- Temporary Storage for Settlement Calculation ---
-    // Changed from private to internal for inheritance access
+        // All active order IDs (exposed through activeOrderIds(index) / activeOrderCount())
+        EnumerableSet.UintSet _activeOrders;
+        // Maps AssetKey -> active Buy / Sell order IDs for that asset
+        mapping(bytes32 => EnumerableSet.UintSet) _buyOrders;
+        mapping(bytes32 => EnumerableSet.UintSet) _sellOrders;
+        mapping(bytes32 => AssetId) _assetIds;
+        // Assets with at least one active order (and those left without while a cycle was matching, until closed)
+        EnumerableSet.Bytes32Set _openAssets;
+        // Maps Maker -> their active order IDs
+        mapping(address => EnumerableSet.UintSet) _makerOrders;
 
-    // Maps User -> Token -> Net Balance (+ receiving, - paying)
-    mapping(address => mapping(address => int256)) internal _netBalances;
-    // Maps User -> Token -> Amount actually collected during Phase 1 (for refunds)
-    mapping(address => mapping(address => uint256)) internal _collected;
-    
-    address[] internal _involvedUsers;
-    address[] internal _involvedTokens;
+        uint256 lastSettlementTime;
+        // Number of settlement cycles run so far (incremented at the start of each cycle)
+        uint256 settlementCycle;
+
+        // If true, a participant failing to pay only unwinds the trades that depend on them
+        // instead of failing the whole cycle
+        bool defaultIsolationEnabled;
+
+        // --- Cross-Currency Netting ---
+        // Participants who opt in settle their non-base balances in the base currency, converted at the oracle rate.
+        // The clearing house takes the other side of each conversion out of its conversion reserves.
+
+        // Oracle used to convert obligations (0 disables cross-currency netting)
+        IPriceOracle priceOracle;
+        address baseToken;
+        // Maps Token -> haircut in basis points applied against the participant on conversion
+        mapping(address => uint256) haircutBps;
+        // Maps User -> True if they settle in the base currency
+        mapping(address => bool) crossCurrencyNetting;
+        // Maps Token -> amount held by the clearing house to take the other side of conversions
+        mapping(address => uint256) conversionReserves;
+
+        // --- Cash Accounts ---
+        // Participants can pre-fund an internal ledger. Collection debits it before pulling from the wallet.
+
+        // Maps User -> Token -> pre-funded balance held by the clearing house
+        mapping(address => mapping(address => uint256)) cashBalances;
+        // Maps User -> True if settlement proceeds are credited to their cash account instead of transferred
+        mapping(address => bool) settleToCashAccount;
+
+        // --- Emergency Controls ---
+
+        bool orderEntryPaused;
+        bool settlementPaused;
+        // True once wind-down has started (permanent): no new orders or cycles; windDown() cancels every order and
+        // refunds every balance held by the clearing house
+        bool windingDown;
+        // Index of the next cash account holder to refund (type(uint256).max once wind-down has completed)
+        uint256 _windDownCursor;
+        // Every participant credited with cash and every payment token that has reached the clearing house, so
+        // wind-down can find all balances
+        EnumerableSet.AddressSet _cashAccountHolders;
+        EnumerableSet.AddressSet _paymentTokens;
+
+        // --- Fees ---
+        // Charged per trade on both sides and folded into the net obligations; accrued per payment token when the
+        // cycle succeeds.
+
+        FeeRates feeRates;
+        // Maps Asset contract -> rates replacing feeRates for that asset (if hasAssetFeeRates)
+        mapping(address => FeeRates) assetFeeRates;
+        mapping(address => bool) hasAssetFeeRates;
+        // Maps Token -> minimum fee per charged side of a trade
+        mapping(address => uint256) minimumFees;
+        address feeRecipient;
+        // Maps Token -> fees available to the fee recipient
+        mapping(address => uint256) accruedFees;
+
+        // --- Guarantee Fund ---
+        // Covers payment shortfalls so a cycle completes; the fund then holds a claim against the defaulter, which is
+        // recovered from their later receivables and cash account.
+
+        // Fund drawn on when a participant fails to pay (0 for none)
+        IGuaranteeFund guaranteeFund;
+
+        // --- Participants ---
+
+        // Registry of admitted participants and their roles (0 lets anyone trade and settle)
+        IParticipantRegistry participantRegistry;
+
+        // --- Settlement Cycle State ---
+        // A cycle can be advanced over several transactions; the phase and cursor persist between them.
+
+        SettlementPhase settlementPhase;
+        // Position within the current phase (asset index while Matching, user index while Converting/Collecting/
+        // Distributing, chain index while Finalizing)
+        uint256 settlementCursor;
+        // Orders with an ID at or above the cutoff were submitted while the cycle was open and wait for the next one
+        uint256 _cycleOrderCutoff;
+        // True once a payment failure has failed the current cycle (default isolation disabled)
+        bool _cycleFailed;
+        // True if a default during the current collection pass changed obligations that were already collected
+        bool _collectionDirty;
+
+        // --- Temporary Storage for Settlement Calculation ---
+
+        // Maps User -> Token -> Net Balance (+ receiving, - paying)
+        mapping(address => mapping(address => int256)) _netBalances;
+        // Maps User -> Token -> Amount actually collected during Phase 1 (for refunds)
+        mapping(address => mapping(address => uint256)) _collected;
+        // Maps User -> Token -> part of the collected amount debited from the cash account (refunded there first)
+        mapping(address => mapping(address => uint256)) _collectedFromAccount;
+        // Maps Token -> fees charged on the trades of the current cycle
+        mapping(address => uint256) _cycleFees;
+        // Maps User -> Token -> part of the collected amount drawn from the guarantee fund (returned there first)
+        mapping(address => mapping(address => uint256)) _coveredByGuarantee;
+
+        address[] _involvedUsers;
+        address[] _involvedTokens;
+
+        Trade[] _cycleTrades;
+        Chain[] _cycleChains;
+        // Maps OrderID -> its matches in the last settlement cycle in which it was matched
+        mapping(uint256 => OrderMatch) _orderMatches;
+        // Maps OrderID -> last settlement cycle counted as failed for it
+        mapping(uint256 => uint256) _failedInCycle;
+        // Maps User -> True if they failed to pay during the current cycle (default isolation only)
+        mapping(address => bool) _isDefaulter;
+
+        // --- Settlement Parameters ---
+
+        mapping(Parameter => uint256) _parameters;
+        mapping(Parameter => ParameterProposal) _parameterProposals;
+
+        // --- Keeper Rewards ---
+
+        KeeperReward keeperReward;
+        // Maps Token -> balance deposited to pay keeper rewards
+        mapping(address => uint256) keeperRewardPool;
+
+        // --- Cycle History ---
+
+        // Maps Cycle -> Summary
+        mapping(uint256 => CycleSummary) _cycleSummaries;
+        // Maps Cycle -> Token -> Volume
+        mapping(uint256 => mapping(address => TokenVolume)) _cycleVolumes;
+
+        // --- Signed Orders ---
+        // Nonces used or cancelled per maker, and the minimum nonce still accepted
+        mapping(address => mapping(uint256 => bool)) _usedOrderNonces;
+        mapping(address => uint256) _minOrderNonces;
+
+        // --- Order Validation ---
+        // Why settlement deactivated a Sell order whose asset it could not lock
+        mapping(uint256 => DeliveryFailure) _lockFailures;
+
+        // --- Asset Registry ---
+        // Eligible assets and payment tokens (0 to accept any)
+        IAssetRegistry assetRegistry;
+
+        // --- Custody ---
+        // Maker of the Sell order that locked each ERC721 token held in custody, or of the Buy order it could not be
+        // delivered to (cleared when it leaves)
+        mapping(bytes32 => address) _beneficialOwners;
+
+        // --- Timelocked Configuration ---
+        // Maps keccak256(setter call) -> time from which the proposed call can be executed (0 if not proposed)
+        mapping(bytes32 => uint256) _configChangeProposals;
+
+        // --- Keeper Reward Eligibility ---
+        // Value in the reward token a cycle must settle for its keeper to be paid
+        uint256 keeperRewardMinVolume;
+        // Account that started the open cycle, which earns its reward
+        address _cycleKeeper;
+        // Value in the reward token settled so far in the open cycle
+        uint256 _cycleRewardVolume;
+
+        // --- Preview ---
+        // True while previewSettlement() simulates a cycle: assets are checked instead of moved
+        bool _previewing;
+
+        // --- Cycle Membership ---
+        // Maps User / Token -> last cycle in which it was added to _involvedUsers / _involvedTokens
+        mapping(address => uint256) _userInvolvedInCycle;
+        mapping(address => uint256) _tokenInvolvedInCycle;
+
+        // --- Ownership ---
+        // Account allowed to administer the clearing house (see ClearingHouse.owner())
+        address owner;
+
+        // --- Claims ---
+        // Transfers that fail during wind-down or settlement are left to be claimed instead of halting it. A locked
+        // asset that cannot be returned stays locked on its closed order (see ClearingHouseAdmin.claimLockedAsset()).
+
+        // Maps Recipient -> Token -> amount the wind-down or a cycle's payouts could not transfer to them
+        mapping(address => mapping(address => uint256)) unreturnedBalances;
+        // Maps Buy OrderID -> quantity bought that settlement could not deliver, held in custody for its maker
+        mapping(uint256 => uint256) undeliveredQuantities;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("clearinghouse.storage.ClearingHouse")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant LAYOUT_LOCATION = 0x7cdc10b569b5929e48a4c659bf899538fccade423747aa709e317539c5825c00;
+
+    function _layout() internal pure returns (Layout storage $) {
+        assembly {
+            $.slot := LAYOUT_LOCATION
+        }
+    }
+
+    // --- Errors ---
+
+    // Same as Ownable's, which the clearing house replaces to keep its owner in the namespace
+    error OwnableUnauthorizedAccount(address account);
+    error OwnableInvalidOwner(address owner);
+
+    // Carries a settlement preview out of the simulated cycle, which reverts so that none of it persists
+    error SettlementPreviewed(bytes preview);
+
+    // Order validation at submission and amendment
+    error InvalidAsset(address asset, AssetType assetType);
+    error ZeroPrice();
+    error AssetNotOwned(address maker, address asset, uint256 tokenId);
+    error AssetNotApproved(address maker, address asset, uint256 tokenId);
+    error DuplicateSellOrder(uint256 existingOrderId);
+    error SelfTrade(uint256 ownOrderId);
+    error AssetNotListed(address asset);
+    error PaymentTokenNotListed(address token);
+    error InvalidLotSize(address asset, uint256 quantity);
+    error InvalidPrice(address token, uint256 price);
+    error AssetMatured(address asset, uint256 tokenId);
 
     // --- Events ---
 
-    event OrderPlaced(uint256 indexed orderId, address indexed maker, address indexed asset, uint256 tokenId, Side side, uint256 price, address counterparty);
-    event SettlementCompleted(uint256 timestamp);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event OrderPlaced(uint256 indexed orderId, address indexed maker, address indexed asset, uint256 tokenId, Side side, address[] paymentTokens, uint256[] prices, address counterparty);
+    event SettlementCompleted(uint256 indexed cycle, uint256 timestamp);
     event AssetLocked(uint256 indexed orderId, address indexed asset, uint256 tokenId);
     event AssetUnlocked(uint256 indexed orderId, address indexed asset, uint256 tokenId);
-    event SettlementFailed(uint256 indexed orderId, string reason);
+    event AssetLockFailed(uint256 indexed cycle, uint256 indexed orderId, address indexed maker, DeliveryFailure reason);
+    event SettlementFailed(uint256 indexed cycle, string reason);
+    event OrderCancelled(uint256 indexed orderId, address indexed maker);
+    event OrderAmended(uint256 indexed orderId, address indexed maker, uint256 price, address counterparty);
+    event OrderExpired(uint256 indexed orderId, address indexed maker);
+    event PaymentDefault(uint256 indexed cycle, address indexed user, address indexed token, uint256 shortfall);
+    event DefaultIsolationSet(bool enabled);
+    event SettlementStarted(uint256 indexed cycle);
+    event PriceOracleSet(address indexed oracle, address indexed baseToken);
+    event HaircutSet(address indexed token, uint256 bps);
+    event CrossCurrencyNettingSet(address indexed user, bool enabled);
+    event ConversionReserveDeposited(address indexed token, uint256 amount);
+    event ConversionReserveWithdrawn(address indexed token, uint256 amount);
+    event ObligationConverted(uint256 indexed cycle, address indexed user, address indexed token, int256 amount, int256 baseAmount);
+    event TradeMatched(uint256 indexed cycle, uint256 indexed buyOrderId, uint256 indexed sellOrderId, address paymentToken, uint256 price, uint256 quantity);
+    event NetObligation(uint256 indexed cycle, address indexed user, address indexed token, int256 amount);
+    event CashCollected(uint256 indexed cycle, address indexed user, address indexed token, uint256 amount);
+    event CashDistributed(uint256 indexed cycle, address indexed user, address indexed token, uint256 amount);
+    event AssetDelivered(uint256 indexed cycle, uint256 indexed orderId, address indexed recipient, address asset, uint256 tokenId, uint256 quantity);
+    event AssetDeliveryFailed(uint256 indexed cycle, uint256 indexed orderId, address indexed recipient, address asset, uint256 tokenId, uint256 quantity);
+    event PayoutFailed(uint256 indexed cycle, address indexed user, address indexed token, uint256 amount);
+    event CashDeposited(address indexed user, address indexed token, uint256 amount);
+    event CashWithdrawn(address indexed user, address indexed token, uint256 amount);
+    event SettleToCashAccountSet(address indexed user, bool enabled);
+    event GuaranteeFundSet(address indexed fund);
+    event ParticipantRegistrySet(address indexed registry);
+    event AssetRegistrySet(address indexed registry);
+    event FeeRatesSet(uint256 makerBps, uint256 takerBps);
+    event AssetFeeRatesSet(address indexed asset, uint256 makerBps, uint256 takerBps, bool enabled);
+    event MinimumFeeSet(address indexed token, uint256 amount);
+    event FeeRecipientSet(address indexed recipient);
+    event FeesWithdrawn(address indexed recipient, address indexed token, uint256 amount);
+    event OrderEntryPausedSet(bool paused);
+    event SettlementPausedSet(bool paused);
+    event WindDownStarted();
+    event WindDownCompleted();
+    event WindDownTransferFailed(address indexed recipient, address indexed token, uint256 amount);
+    event AssetReturnFailed(uint256 indexed orderId, address indexed asset, uint256 tokenId);
+    event UnreturnedBalanceClaimed(address indexed recipient, address indexed token, address to, uint256 amount);
+    event UndeliveredAssetClaimed(uint256 indexed orderId, address indexed asset, uint256 tokenId, address to, uint256 quantity);
+    event ParameterChangeProposed(Parameter indexed parameter, uint256 value, uint256 executableAt);
+    event ParameterChangeCancelled(Parameter indexed parameter);
+    event ParameterChanged(Parameter indexed parameter, uint256 oldValue, uint256 newValue);
+    event ConfigChangeProposed(bytes32 indexed id, bytes change, uint256 executableAt);
+    event ConfigChangeCancelled(bytes32 indexed id);
+    event ConfigChangeExecuted(bytes32 indexed id);
+    event KeeperRewardSet(address indexed token, uint256 settledAmount, uint256 failedAmount, bool fromFees, uint256 minVolume);
+    event KeeperRewardPoolDeposited(address indexed token, uint256 amount);
+    event KeeperRewardPoolWithdrawn(address indexed token, uint256 amount);
+    event KeeperRewarded(uint256 indexed cycle, address indexed keeper, address indexed token, uint256 amount);
+    event SignedOrderSubmitted(uint256 indexed orderId, address indexed maker, uint256 nonce, address indexed relayer);
+    event OrderNonceCancelled(address indexed maker, uint256 nonce);
+    event OrderNoncesInvalidated(address indexed maker, uint256 minNonce);
 
-    constructor() Ownable(msg.sender) {
-        lastSettlementTime = block.timestamp;
+    // Only owns the implementation itself: a proxy's owner is set by the initializer
+    constructor() {
+        _transferOwnership(msg.sender);
     }
 
     /**
-     * @dev Required to receive ERC721 tokens via safeTransferFrom.
+     * @dev Initializes a proxy's state (in place of the constructor, which only runs for the implementation).
      */
-    function onERC721Received(address, address, uint256, bytes calldata) external pure override returns (bytes4) {
-        return IERC721Receiver.onERC721Received.selector;
+    function __ClearingHouseStorage_init(address initialOwner) internal onlyInitializing {
+        require(initialOwner != address(0), "Invalid owner");
+        _transferOwnership(initialOwner);
+
+        Layout storage $ = _layout();
+        $.lastSettlementTime = block.timestamp;
+        $._parameters[Parameter.SettlementInterval] = 5 minutes;
+        $._parameters[Parameter.MaxFailedCycles] = 2;
+        $._parameters[Parameter.MaxChainTrades] = 50;
+        $._parameters[Parameter.ParameterDelay] = 2 days;
     }
-}
 
+    modifier onlyOwner() {
+        if (msg.sender != _layout().owner) revert OwnableUnauthorizedAccount(msg.sender);
+        _;
+    }
+
+    function _transferOwnership(address newOwner) internal {
+        Layout storage $ = _layout();
+        address oldOwner = $.owner;
+        $.owner = newOwner;
+        emit OwnershipTransferred(oldOwner, newOwner);
+    }
+
+    modifier whenSettlementIdle() {
+        require(_layout().settlementPhase == SettlementPhase.Idle, "Settlement in progress");
+        _;
+    }
+}
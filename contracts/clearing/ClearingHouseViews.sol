@@ -0,0 +1,115 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "./ClearingHouseMatching.sol";
+import "./DelegateModule.sol";
+
+/**
+ * @title ClearingHouseViews
+ * @dev Paginated views over the ClearingHouse order book. The ClearingHouse runs them through a delegatecall inside
+ *      a staticcall to itself, so they read its storage and can never write to it.
+ *      Pages are taken over an index (all active orders, a maker's orders, or one side of an asset's book): a call
+ *      examines at most `limit` entries from `cursor` and returns those that match together with the cursor to
+ *      continue from, which equals the index length once the end is reached. Closing an order moves the last
+ *      entry of its index into its place, so a listing taken across several blocks may miss or repeat an order.
+ */
+contract ClearingHouseViews is ClearingHouseMatching, DelegateModule {
+    using EnumerableSet for EnumerableSet.UintSet;
+
+    /**
+     * @notice Lists active orders matching `filter`, examining up to `limit` index entries from `cursor`.
+     * @return page The matching orders.
+     * @return nextCursor The cursor of the next page (the index length once all entries were examined).
+     */
+    function activeOrders(OrderFilter calldata filter, uint256 cursor, uint256 limit) external view onlyDelegateCall returns (Order[] memory page, uint256 nextCursor) {
+        Layout storage $ = _layout();
+        EnumerableSet.UintSet storage index = _filterIndex(filter);
+        uint256 end = _pageEnd(index.length(), cursor, limit);
+        if (cursor >= end) return (page, Math.max(cursor, index.length()));
+
+        page = new Order[](end - cursor);
+        uint256 count = 0;
+        for (uint256 i = cursor; i < end; i++) {
+            Order storage order = $._orders[index.at(i)];
+            if (_matchesFilter(order, filter)) page[count++] = order;
+        }
+        assembly {
+            mstore(page, count)
+        }
+        return (page, end);
+    }
+
+    /**
+     * @notice Returns an order's payment terms: the accepted tokens and prices of a Sell order, or the tokens in
+     *         order of preference and maximum prices of a Buy order.
+     */
+    function orderTerms(uint256 orderId) external view onlyDelegateCall returns (address[] memory tokens, uint256[] memory prices) {
+        Layout storage $ = _layout();
+        Order storage order = $._orders[orderId];
+        if (order.side == Side.Buy && order.paymentToken != address(0)) {
+            tokens = new address[](1);
+            prices = new uint256[](1);
+            tokens[0] = order.paymentToken;
+            prices[0] = order.price;
+            return (tokens, prices);
+        }
+
+        bool sell = order.side == Side.Sell;
+        tokens = sell ? $._sellOrderTokens[orderId] : $._buyOrderTokens[orderId];
+        prices = new uint256[](tokens.length);
+        for (uint256 i = 0; i < tokens.length; i++) {
+            prices[i] = sell ? $.sellOrderTerms[orderId][tokens[i]] : $.buyOrderTerms[orderId][tokens[i]];
+        }
+    }
+
+    /**
+     * @notice Lists the assets held in custody for locked Sell orders, with their failed cycle counts, examining up
+     *         to `limit` active orders from `cursor`.
+     */
+    function lockedAssets(uint256 cursor, uint256 limit) external view onlyDelegateCall returns (LockedAsset[] memory page, uint256 nextCursor) {
+        Layout storage $ = _layout();
+        uint256 end = _pageEnd($._activeOrders.length(), cursor, limit);
+        if (cursor >= end) return (page, Math.max(cursor, $._activeOrders.length()));
+
+        page = new LockedAsset[](end - cursor);
+        uint256 count = 0;
+        for (uint256 i = cursor; i < end; i++) {
+            Order storage order = $._orders[$._activeOrders.at(i)];
+            if (!order.isLocked) continue;
+            page[count++] = LockedAsset(order.id, order.maker, order.asset, order.assetType, order.tokenId, order.quantity, order.failedSettlementCycles);
+        }
+        assembly {
+            mstore(page, count)
+        }
+        return (page, end);
+    }
+
+    /**
+     * @dev End of a page of up to `limit` entries from `cursor` in an index of `length` entries. Clamped before
+     *      adding, so any limit (type(uint256).max for everything) is accepted.
+     */
+    function _pageEnd(uint256 length, uint256 cursor, uint256 limit) internal pure returns (uint256) {
+        return cursor < length ? cursor + Math.min(limit, length - cursor) : length;
+    }
+
+    /**
+     * @dev The narrowest index covering the filter: the maker's orders, one side of an asset's book, or all active orders.
+     */
+    function _filterIndex(OrderFilter calldata filter) internal view returns (EnumerableSet.UintSet storage) {
+        Layout storage $ = _layout();
+        if (filter.maker != address(0)) return $._makerOrders[filter.maker];
+        if (filter.asset != address(0) && filter.matchTokenId && filter.matchSide) {
+            bytes32 key = _assetKey(filter.asset, filter.tokenId);
+            return filter.side == Side.Buy ? $._buyOrders[key] : $._sellOrders[key];
+        }
+        return $._activeOrders;
+    }
+
+    function _matchesFilter(Order storage order, OrderFilter calldata filter) internal view returns (bool) {
+        return (filter.maker == address(0) || order.maker == filter.maker)
+            && (filter.asset == address(0) || order.asset == filter.asset)
+            && (!filter.matchTokenId || order.tokenId == filter.tokenId)
+            && (!filter.matchSide || order.side == filter.side);
+    }
+}
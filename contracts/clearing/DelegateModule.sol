@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+/**
+ * @title DelegateModule
+ * @dev Base of the contracts the ClearingHouse delegatecalls into (SettlementEngine, ClearingHouseAdmin,
+ *      ClearingHouseViews, ClearingHouseOrders, ClearingHousePreview). Their functions operate on the clearing house's storage, so they can only run through a
+ *      delegatecall.
+ */
+abstract contract DelegateModule {
+    address private immutable _self = address(this);
+
+    modifier onlyDelegateCall() {
+        require(address(this) != _self, "Delegatecall only");
+        _;
+    }
+}
@@ -0,0 +1,214 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "./IGuaranteeFund.sol";
+import "./IClearingHouse.sol";
+
+/**
+ * @title GuaranteeFund
+ * @dev Per-token pool of member contributions. When a participant fails to pay during settlement, the ClearingHouse
+ *      draws the shortfall from the pool so the cycle completes, and the fund holds a claim against the defaulter.
+ *      Contributions are tracked as shares of the pool, so losses not covered by the defaulter's own contribution
+ *      are borne by all members pro rata, and recoveries are shared the same way.
+ */
+contract GuaranteeFund is IGuaranteeFund, ReentrancyGuard, Ownable {
+    using SafeERC20 for IERC20;
+
+    // Which resources a drawdown uses first
+    enum Drawdown {
+        DefaulterFirst, // The defaulter's own contribution, then the mutualized pool
+        Mutualized      // The pool as a whole; the defaulter's contribution only bears its pro-rata share
+    }
+
+    // ClearingHouseStorage.SettlementPhase.Idle
+    uint8 private constant SETTLEMENT_IDLE = 0;
+
+    address public immutable clearingHouse;
+
+    // --- Configuration ---
+
+    // Maps Token -> contribution a member must hold to place Buy orders paid in it (0 for no requirement)
+    mapping(address => uint256) public minContribution;
+    Drawdown public drawdownOrder;
+    // Time after a drawdown during which members below the minimum can still place Buy orders while they top up
+    uint256 public replenishmentPeriod;
+
+    // --- Pool Accounting ---
+
+    // Maps Token -> tokens held by the pool
+    mapping(address => uint256) public override fundAssets;
+    // Maps Token -> total shares of the pool
+    mapping(address => uint256) public totalShares;
+    // Maps Member -> Token -> shares held
+    mapping(address => mapping(address => uint256)) public shares;
+    // Maps Token -> timestamp of the last drawdown
+    mapping(address => uint256) public lastDrawdown;
+
+    // Maps Defaulter -> Token -> amount drawn on their behalf and not yet recovered
+    mapping(address => mapping(address => uint256)) public override claims;
+    mapping(address => uint256) public override outstandingClaims;
+
+    // --- Events ---
+
+    event Contributed(address indexed member, address indexed token, uint256 amount, uint256 shares);
+    event Withdrawn(address indexed member, address indexed token, uint256 amount, uint256 shares);
+    event FundDrawn(address indexed defaulter, address indexed token, uint256 amount, uint256 fromDefaulter);
+    event ClaimRecovered(address indexed defaulter, address indexed token, uint256 amount);
+    event MinContributionSet(address indexed token, uint256 amount);
+    event DrawdownOrderSet(Drawdown order);
+    event ReplenishmentPeriodSet(uint256 period);
+
+    modifier onlyClearingHouse() {
+        require(msg.sender == clearingHouse, "Not clearing house");
+        _;
+    }
+
+    constructor(address clearingHouse_) Ownable(msg.sender) {
+        clearingHouse = clearingHouse_;
+    }
+
+    // --- Members ---
+
+    /**
+     * @notice Contribute `amount` of `token` to the pool.
+     */
+    function contribute(address token, uint256 amount) external nonReentrant {
+        IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+        _mintShares(msg.sender, token, amount);
+    }
+
+    /**
+     * @notice Withdraw `amount` of `token` from your contribution. Not possible while a settlement cycle is open or
+     *         while you have an outstanding claim. A partial withdrawal must leave at least the minimum contribution.
+     */
+    function withdraw(address token, uint256 amount) external nonReentrant {
+        require(IClearingHouse(clearingHouse).settlementPhase() == SETTLEMENT_IDLE, "Settlement in progress");
+        require(outstandingClaims[msg.sender] == 0, "Outstanding claim");
+
+        uint256 value = contributionOf(msg.sender, token);
+        require(amount <= value, "Insufficient contribution");
+        require(amount == value || value - amount >= minContribution[token], "Below minimum contribution");
+
+        uint256 burned = amount == value ? shares[msg.sender][token] : _toShares(token, amount, Math.Rounding.Ceil);
+        shares[msg.sender][token] -= burned;
+        totalShares[token] -= burned;
+        fundAssets[token] -= amount;
+
+        IERC20(token).safeTransfer(msg.sender, amount);
+        emit Withdrawn(msg.sender, token, amount, burned);
+    }
+
+    /**
+     * @notice Repay a claim held against you. Any amount beyond the claim is credited to your contribution.
+     */
+    function repayClaim(address token, uint256 amount) external nonReentrant {
+        IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+        _recover(msg.sender, token, amount);
+    }
+
+    /**
+     * @notice Current value of `member`'s contribution in `token`.
+     */
+    function contributionOf(address member, address token) public view returns (uint256) {
+        return _toAssets(token, shares[member][token]);
+    }
+
+    function meetsRequirement(address member, address token) external view override returns (bool) {
+        uint256 required = minContribution[token];
+        return required == 0
+            || contributionOf(member, token) >= required
+            || (lastDrawdown[token] != 0 && block.timestamp < lastDrawdown[token] + replenishmentPeriod);
+    }
+
+    // --- Clearing House ---
+
+    function draw(address defaulter, address token, uint256 amount) external override onlyClearingHouse nonReentrant returns (bool) {
+        if (amount > fundAssets[token]) return false;
+
+        uint256 fromDefaulter = 0;
+        if (drawdownOrder == Drawdown.DefaulterFirst) {
+            uint256 own = shares[defaulter][token];
+            uint256 burned;
+            fromDefaulter = _toAssets(token, own);
+            if (fromDefaulter > amount) {
+                fromDefaulter = amount;
+                burned = _toShares(token, amount, Math.Rounding.Ceil);
+            } else {
+                burned = own;
+            }
+            shares[defaulter][token] -= burned;
+            totalShares[token] -= burned;
+        }
+
+        fundAssets[token] -= amount;
+        lastDrawdown[token] = block.timestamp;
+        if (amount > fromDefaulter) {
+            if (claims[defaulter][token] == 0) outstandingClaims[defaulter]++;
+            claims[defaulter][token] += amount - fromDefaulter;
+        }
+
+        IERC20(token).safeTransfer(clearingHouse, amount);
+        emit FundDrawn(defaulter, token, amount, fromDefaulter);
+        return true;
+    }
+
+    function recover(address defaulter, address token, uint256 amount) external override onlyClearingHouse nonReentrant {
+        _recover(defaulter, token, amount);
+    }
+
+    // --- Owner Configuration ---
+
+    function setMinContribution(address token, uint256 amount) external onlyOwner {
+        minContribution[token] = amount;
+        emit MinContributionSet(token, amount);
+    }
+
+    function setDrawdownOrder(Drawdown order) external onlyOwner {
+        drawdownOrder = order;
+        emit DrawdownOrderSet(order);
+    }
+
+    function setReplenishmentPeriod(uint256 period) external onlyOwner {
+        replenishmentPeriod = period;
+        emit ReplenishmentPeriodSet(period);
+    }
+
+    // --- Internal ---
+
+    /**
+     * @dev Applies a recovery to the claim first (replenishing the pool for all members); the rest becomes a
+     *      contribution of the defaulter.
+     */
+    function _recover(address defaulter, address token, uint256 amount) internal {
+        uint256 claim = claims[defaulter][token];
+        uint256 repaid = Math.min(claim, amount);
+        if (repaid > 0) {
+            claims[defaulter][token] = claim - repaid;
+            if (claim == repaid) outstandingClaims[defaulter]--;
+            fundAssets[token] += repaid;
+            emit ClaimRecovered(defaulter, token, repaid);
+        }
+        if (amount > repaid) _mintShares(defaulter, token, amount - repaid);
+    }
+
+    function _mintShares(address member, address token, uint256 amount) internal {
+        uint256 minted = _toShares(token, amount, Math.Rounding.Floor);
+        shares[member][token] += minted;
+        totalShares[token] += minted;
+        fundAssets[token] += amount;
+        emit Contributed(member, token, amount, minted);
+    }
+
+    // Share conversions with a virtual share and asset, so the pool stays usable after being drawn down to zero
+    function _toShares(address token, uint256 amount, Math.Rounding rounding) internal view returns (uint256) {
+        return Math.mulDiv(amount, totalShares[token] + 1, fundAssets[token] + 1, rounding);
+    }
+
+    function _toAssets(address token, uint256 shareAmount) internal view returns (uint256) {
+        return Math.mulDiv(shareAmount, fundAssets[token] + 1, totalShares[token] + 1);
+    }
+}
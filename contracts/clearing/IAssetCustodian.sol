@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+/**
+ * @title IAssetCustodian
+ * @dev Contract holding ERC721 tokens on behalf of others, detected through ERC165. Issuers paying income to the
+ *      holder of a token (such as bond coupons) pay the beneficial owner instead of the custodian.
+ */
+interface IAssetCustodian {
+    /// @notice The account `tokenId` of `asset` is held for, or 0 if the custodian does not hold it for anyone.
+    function beneficialOwner(address asset, uint256 tokenId) external view returns (address);
+}
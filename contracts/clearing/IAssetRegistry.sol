@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+/**
+ * @title IAssetRegistry
+ * @dev Registry of the assets and payment tokens eligible for clearing, consulted by the ClearingHouse before
+ *      accepting orders.
+ */
+interface IAssetRegistry {
+    /// @notice Whether `asset` may be traded, and the multiple its order quantities must be of.
+    function assetRules(address asset) external view returns (bool listed, uint256 lotSize);
+
+    /// @notice Whether `token` may be paid in, the multiple its prices must be of, and the lowest price accepted.
+    function priceRules(address token) external view returns (bool listed, uint256 tickSize, uint256 minPrice);
+}
@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+/**
+ * @title IClearingHouse
+ * @dev The part of the ClearingHouse that its satellite contracts (guarantee fund, participant registry) call.
+ */
+interface IClearingHouse {
+    /// @notice Phase of the open settlement cycle, as a ClearingHouseStorage.SettlementPhase (0 when idle).
+    function settlementPhase() external view returns (uint8);
+
+    /// @notice The participant registry the clearing house consults.
+    function participantRegistry() external view returns (address);
+
+    /// @notice Cancels up to `maxOrders` open orders of a participant who may no longer trade.
+    function cancelOrdersOf(address maker, uint256 maxOrders) external returns (bool done);
+}
@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+/**
+ * @title IGuaranteeFund
+ * @dev Mutualized fund the ClearingHouse draws on to complete a cycle when a participant fails to pay.
+ */
+interface IGuaranteeFund {
+    /**
+     * @notice Covers `amount` of `token` owed by `defaulter` by transferring it to the clearing house, and records
+     *         a claim against the defaulter. Returns false (and transfers nothing) if the fund cannot cover it.
+     */
+    function draw(address defaulter, address token, uint256 amount) external returns (bool);
+
+    /**
+     * @notice Records `amount` of `token` recovered from `defaulter`, already transferred to the fund. Recoveries
+     *         beyond the claim are credited to the defaulter's contribution.
+     */
+    function recover(address defaulter, address token, uint256 amount) external;
+
+    /// @notice Outstanding claim against `defaulter` in `token`.
+    function claims(address defaulter, address token) external view returns (uint256);
+
+    /// @notice Number of tokens in which `defaulter` has an outstanding claim.
+    function outstandingClaims(address defaulter) external view returns (uint256);
+
+    /// @notice Tokens of `token` the fund holds and can draw.
+    function fundAssets(address token) external view returns (uint256);
+
+    /// @notice True if `member` may place Buy orders paid in `token`.
+    function meetsRequirement(address member, address token) external view returns (bool);
+}
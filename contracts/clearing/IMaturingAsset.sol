@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+/**
+ * @title IMaturingAsset
+ * @dev Asset whose tokens mature (such as bonds), detected by the ClearingHouse through ERC165. Matured tokens are
+ *      no longer traded.
+ */
+interface IMaturingAsset {
+    /// @notice True once `tokenId` has reached its maturity date.
+    function isMatured(uint256 tokenId) external view returns (bool);
+}
@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+/**
+ * @title IParticipantRegistry
+ * @dev Membership registry consulted by the ClearingHouse before accepting orders and settlement calls.
+ */
+interface IParticipantRegistry {
+    /// @notice True if `account` may place orders.
+    function canTrade(address account) external view returns (bool);
+
+    /// @notice True if `account` may start and advance settlement cycles.
+    function canSettle(address account) external view returns (bool);
+}
@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+/**
+ * @title IPriceOracle
+ * @dev Price source used by the ClearingHouse to convert obligations into its base currency.
+ */
+interface IPriceOracle {
+    /**
+     * @notice Returns the value of one unit of `token` in units of the base currency, as an 18-decimal
+     *         fixed-point rate (amountInBase = amount * rate / 1e18). Returns 0 if no price is available.
+     */
+    function getRate(address token) external view returns (uint256);
+}
@@ -0,0 +1,123 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "./IParticipantRegistry.sol";
+import "./IClearingHouse.sol";
+
+/**
+ * @title ParticipantRegistry
+ * @dev Owner-managed membership of the ClearingHouse. Participants are admitted with a set of roles, can be
+ *      suspended (and reinstated) or offboarded. Only active participants hold their roles; when a participant
+ *      loses the right to trade, their open orders on the clearing house are cancelled and locked assets returned.
+ */
+contract ParticipantRegistry is IParticipantRegistry, Ownable {
+    enum Status { None, Active, Suspended, Offboarded }
+
+    // Role bits, combined into a participant's roles
+    uint256 public constant CLEARING_MEMBER = 1 << 0;       // Trades and clears for its own account
+    uint256 public constant TRADER = 1 << 1;                // Trades only
+    uint256 public constant SETTLEMENT_OPERATOR = 1 << 2;   // Runs settlement cycles (when restricted)
+
+    // Orders cancelled along with a membership change; anyone can cancel the rest with cancelOrdersOf()
+    uint256 public constant MAX_CANCELLATIONS = 50;
+
+    struct Participant {
+        Status status;
+        uint256 roles;
+    }
+
+    address public immutable clearingHouse;
+
+    mapping(address => Participant) public participants;
+    // If true, only settlement operators may start and advance settlement cycles
+    bool public settlementRestricted;
+
+    event ParticipantAdmitted(address indexed account, uint256 roles);
+    event RolesUpdated(address indexed account, uint256 roles);
+    event ParticipantSuspended(address indexed account);
+    event ParticipantReinstated(address indexed account);
+    event ParticipantOffboarded(address indexed account);
+    event SettlementRestrictedSet(bool restricted);
+
+    constructor(address clearingHouse_) Ownable(msg.sender) {
+        clearingHouse = clearingHouse_;
+    }
+
+    /**
+     * @notice Admit a new (or previously offboarded) participant with the given roles.
+     */
+    function admit(address account, uint256 roles) external onlyOwner {
+        Status status = participants[account].status;
+        require(status == Status.None || status == Status.Offboarded, "Already admitted");
+        participants[account] = Participant(Status.Active, roles);
+        emit ParticipantAdmitted(account, roles);
+    }
+
+    /**
+     * @notice Replace the roles of an admitted participant. Removing the right to trade cancels their orders.
+     */
+    function setRoles(address account, uint256 roles) external onlyOwner {
+        Status status = participants[account].status;
+        require(status == Status.Active || status == Status.Suspended, "Not admitted");
+        participants[account].roles = roles;
+        emit RolesUpdated(account, roles);
+        if (status == Status.Active && !canTrade(account)) _cancelOrders(account);
+    }
+
+    /**
+     * @notice Suspend an active participant. Their roles are kept for reinstatement; their orders are cancelled.
+     */
+    function suspend(address account) external onlyOwner {
+        require(participants[account].status == Status.Active, "Not active");
+        participants[account].status = Status.Suspended;
+        emit ParticipantSuspended(account);
+        _cancelOrders(account);
+    }
+
+    function reinstate(address account) external onlyOwner {
+        require(participants[account].status == Status.Suspended, "Not suspended");
+        participants[account].status = Status.Active;
+        emit ParticipantReinstated(account);
+    }
+
+    /**
+     * @notice Remove a participant and their roles. Their orders are cancelled.
+     */
+    function offboard(address account) external onlyOwner {
+        Status status = participants[account].status;
+        require(status == Status.Active || status == Status.Suspended, "Not admitted");
+        participants[account] = Participant(Status.Offboarded, 0);
+        emit ParticipantOffboarded(account);
+        _cancelOrders(account);
+    }
+
+    function setSettlementRestricted(bool restricted) external onlyOwner {
+        settlementRestricted = restricted;
+        emit SettlementRestrictedSet(restricted);
+    }
+
+    function hasRole(address account, uint256 role) public view returns (bool) {
+        Participant storage participant = participants[account];
+        return participant.status == Status.Active && participant.roles & role != 0;
+    }
+
+    function canTrade(address account) public view override returns (bool) {
+        return hasRole(account, CLEARING_MEMBER | TRADER);
+    }
+
+    function canSettle(address account) external view override returns (bool) {
+        return !settlementRestricted || hasRole(account, SETTLEMENT_OPERATOR);
+    }
+
+    /**
+     * @dev Only while this is the registry the clearing house consults, which otherwise refuses to cancel. A failed
+     *      cancellation (including running out of gas) reverts the membership change rather than leaving orders live.
+     */
+    function _cancelOrders(address account) internal {
+        if (clearingHouse == address(0)) return;
+        IClearingHouse house = IClearingHouse(clearingHouse);
+        if (house.participantRegistry() != address(this)) return;
+        house.cancelOrdersOf(account, MAX_CANCELLATIONS);
+    }
+}
@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import "./ClearingHouseSettlement.sol";
+import "./DelegateModule.sol";
+
+/**
+ * @title SettlementEngine
+ * @dev Runs settlement cycles for the ClearingHouse, which delegatecalls into it so that cycles operate on the
+ *      clearing house's storage (both share the ClearingHouseStorage layout). Keeping the cycle logic in its own
+ *      contract keeps the ClearingHouse within the contract size limit. Its functions mirror the ClearingHouse
+ *      settlement functions and can only run through a delegatecall; the ClearingHouse applies the reentrancy guard.
+ */
+contract SettlementEngine is ClearingHouseSettlement, DelegateModule {
+    function performSettlement() external onlyDelegateCall {
+        _openCycle();
+        _advanceCycle(type(uint256).max);
+    }
+
+    function startSettlement() external onlyDelegateCall {
+        _openCycle();
+    }
+
+    function advanceSettlement(uint256 maxSteps) external onlyDelegateCall returns (bool closed) {
+        return _advanceCycle(maxSteps);
+    }
+}
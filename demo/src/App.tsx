@@ -51,6 +51,21 @@ const COLORS = {
   panelBorder: '#30363d',
 };
 
+// Payment token metadata from the asset registry (written by scripts/deploy_demo.ts)
+const PAYMENT_TOKENS = new Map(
+  Object.entries(config.paymentTokens).map(([address, token]) => [address.toLowerCase(), token])
+);
+
+function tokenDecimals(token: string): number {
+  const listing = PAYMENT_TOKENS.get(token.toLowerCase());
+  if (!listing) throw new Error(`Payment token ${token} is not listed`);
+  return listing.decimals;
+}
+
+function formatPrice(token: string, price: bigint): string {
+  return parseFloat(ethers.formatUnits(price, tokenDecimals(token))).toFixed(2);
+}
+
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
@@ -504,9 +519,10 @@ export default function App() {
         contractsRef.current.ClearingHouseEvents = chEvents;
 
         // Order Placed Event (via WebSocket provider)
-        chEvents.on("OrderPlaced", (id, maker, asset, tokenId, side, price, counterparty) => {
+        chEvents.on("OrderPlaced", (id, maker, asset, tokenId, side, paymentTokens, prices, counterparty) => {
+          const price = prices[0];
           const orderType = side.toString() === "0" ? "BUY" : "SELL";
-          const priceFmt = parseFloat(ethers.formatUnits(price, 18)).toFixed(2);
+          const priceFmt = formatPrice(paymentTokens[0], price);
           const assetName = `Asset #${tokenId}`;
           // Normalize addresses for consistent comparison
           const normalizedMaker = maker.toLowerCase();
@@ -676,13 +692,14 @@ export default function App() {
       }
     };
 
-    const handleOrderPlaced = (id: bigint, maker: string, asset: string, tokenId: bigint, side: bigint, price: bigint, counterparty: string) => {
+    const handleOrderPlaced = (id: bigint, maker: string, asset: string, tokenId: bigint, side: bigint, paymentTokens: string[], prices: bigint[], counterparty: string) => {
+      const price = prices[0];
       const orderIdStr = id.toString();
       if (seenOrderIdsRef.current.has(orderIdStr)) return;
       seenOrderIdsRef.current.add(orderIdStr);
 
       const orderType = side.toString() === "0" ? "BUY" : "SELL";
-      const priceFmt = parseFloat(ethers.formatUnits(price, 18)).toFixed(2);
+      const priceFmt = formatPrice(paymentTokens[0], price);
       const assetName = `Asset #${tokenId}`;
       const normalizedMaker = maker.toLowerCase();
 
@@ -729,8 +746,8 @@ export default function App() {
             const parsed = iface.parseLog(log);
             if (!parsed) continue;
             if (parsed.name === 'OrderPlaced') {
-              const [id, maker, asset, tokenId, side, price, counterparty] = parsed.args;
-              handleOrderPlaced(id, maker, asset, tokenId, side, price, counterparty);
+              const [id, maker, asset, tokenId, side, paymentTokens, prices, counterparty] = parsed.args;
+              handleOrderPlaced(id, maker, asset, tokenId, side, [...paymentTokens], [...prices], counterparty);
             } else if (parsed.name === 'SettlementCompleted') {
               addLog('(poll) Settlement cycle executed!', 'success');
               await checkMatches();
@@ -772,7 +789,7 @@ export default function App() {
     const chWithSigner = contractsRef.current.ClearingHouse.connect(signer);
 
     const isBuy = Math.random() > 0.5;
-    const price = ethers.parseUnits((10 + Math.floor(Math.random() * 50)).toString(), 18);
+    const price = ethers.parseUnits((10 + Math.floor(Math.random() * 50)).toString(), tokenDecimals(config.addresses.TokenA));
     const assetId = 1 + Math.floor(Math.random() * 3);
 
     addLog(`Submitting ${isBuy ? 'BUY' : 'SELL'} order...`, 'info');
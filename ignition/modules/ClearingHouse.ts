@@ -0,0 +1,30 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+/**
+ * Deploys the ClearingHouse behind a TransparentUpgradeableProxy, together with the SettlementEngine,
+ * ClearingHouseAdmin, ClearingHouseViews, ClearingHouseOrders and ClearingHousePreview modules its implementation delegatecalls into. The proxy creates its own ProxyAdmin, owned by
+ * the deployer, which is the only account able to upgrade the implementation.
+ */
+export default buildModule("ClearingHouseModule", (m) => {
+  const owner = m.getAccount(0);
+
+  const settlementEngine = m.contract("SettlementEngine");
+  const adminModule = m.contract("ClearingHouseAdmin");
+  const viewsModule = m.contract("ClearingHouseViews");
+  const ordersModule = m.contract("ClearingHouseOrders");
+  const previewModule = m.contract("ClearingHousePreview");
+  const implementation = m.contract("ClearingHouse", [settlementEngine, adminModule, viewsModule, ordersModule, previewModule], {
+    id: "ClearingHouseImplementation",
+  });
+  const proxy = m.contract("TransparentUpgradeableProxy", [
+    implementation,
+    owner,
+    m.encodeFunctionCall(implementation, "initialize", [owner]),
+  ]);
+
+  const proxyAdminAddress = m.readEventArgument(proxy, "AdminChanged", "newAdmin");
+  const proxyAdmin = m.contractAt("ProxyAdmin", proxyAdminAddress);
+  const clearingHouse = m.contractAt("ClearingHouse", proxy);
+
+  return { clearingHouse, proxy, proxyAdmin };
+});
@@ -1,10 +1,11 @@
 import fs from "fs";
 import path from "path";
 import { network } from "hardhat";
+import ClearingHouseModule from "../ignition/modules/ClearingHouse.js";
 import { fileURLToPath } from 'url';
 
 async function main() {
-  const { ethers } = await network.connect();
+  const { ethers, ignition } = await network.connect();
   const [deployer] = await ethers.getSigners();
   console.log("Deploying contracts with the account:", deployer.address);
 
@@ -30,13 +31,22 @@ async function main() {
   await stock.waitForDeployment();
   console.log("Stock deployed to:", stock.target);
 
-  // 3. Deploy ClearingHouse
-  const ClearingHouse = await ethers.getContractFactory("ClearingHouse");
-  const clearingHouse = await ClearingHouse.deploy();
-  await clearingHouse.waitForDeployment();
+  // 3. Deploy ClearingHouse (behind an upgradeable proxy)
+  const { clearingHouse } = await ignition.deploy(ClearingHouseModule);
   console.log("ClearingHouse deployed to:", clearingHouse.target);
 
-  // 4. Distribute Tokens to test accounts (Hardhat accounts 1-10)
+  // 4. List the assets and payment tokens eligible for clearing
+  const registry = await ethers.deployContract("AssetRegistry");
+  await registry.waitForDeployment();
+  await registry.listAsset(bond.target, 1, 1);  // AssetClass.Bond
+  await registry.listAsset(stock.target, 2, 1); // AssetClass.Stock
+  for (const token of [tokenA, tokenB]) {
+    await registry.listPaymentToken(token.target, ethers.parseUnits("0.01", await token.decimals()), 0);
+  }
+  await clearingHouse.setAssetRegistry(registry.target);
+  console.log("AssetRegistry deployed to:", registry.target);
+
+  // 5. Distribute Tokens to test accounts (Hardhat accounts 1-10)
   const signers = await ethers.getSigners();
   // Transfer to accounts 1-10 (Account 0 is deployer)
   for (let i = 1; i <= 10; i++) {
@@ -55,7 +65,14 @@ async function main() {
       }
   }
 
-  // 5. Generate Config for Frontend
+  // 6. Generate Config for Frontend
+  // Payment token metadata, so the frontend formats prices with each token's decimals
+  const paymentTokens: Record<string, { symbol: string; decimals: number }> = {};
+  for (const token of await registry.listedPaymentTokens()) {
+    const listing = await registry.paymentTokenListing(token);
+    paymentTokens[token] = { symbol: listing.symbol, decimals: Number(listing.decimals) };
+  }
+
   const config = {
     addresses: {
       TokenA: tokenA.target,
@@ -63,7 +80,9 @@ async function main() {
       Bond: bond.target,
       Stock: stock.target,
       ClearingHouse: clearingHouse.target,
+      AssetRegistry: registry.target,
     },
+    paymentTokens,
     abis: {
       TokenA: JSON.parse(fs.readFileSync(path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../artifacts/contracts/Tokens.sol/TokenA.json")).toString()).abi,
       Bond: JSON.parse(fs.readFileSync(path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../artifacts/contracts/Bond.sol/Bond.json")).toString()).abi,
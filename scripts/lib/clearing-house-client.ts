@@ -0,0 +1,158 @@
+import { Contract, ZeroAddress, formatUnits, parseUnits, type AddressLike, type BigNumberish, type Signer } from "ethers";
+import type { ClearingHouse, ClearingHouseStorage } from "../../types/ethers-contracts/contracts/ClearingHouse.js";
+
+export type Order = ClearingHouseStorage.OrderStructOutput;
+export type LockedAsset = ClearingHouseStorage.LockedAssetStructOutput;
+export type SettlementPreview = ClearingHouseStorage.SettlementPreviewStructOutput;
+export type OrderRequest = ClearingHouseStorage.OrderRequestStruct;
+export type SignedOrder = ClearingHouseStorage.SignedOrderStruct;
+
+/** EIP-712 types of a signed order (see ClearingHouseOrders). */
+export const SIGNED_ORDER_TYPES = {
+  SignedOrder: [
+    { name: "maker", type: "address" },
+    { name: "request", type: "OrderRequest" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+  OrderRequest: [
+    { name: "side", type: "uint8" },
+    { name: "asset", type: "address" },
+    { name: "assetType", type: "uint8" },
+    { name: "tokenId", type: "uint256" },
+    { name: "quantity", type: "uint256" },
+    { name: "paymentTokens", type: "address[]" },
+    { name: "prices", type: "uint256[]" },
+    { name: "counterparty", type: "address" },
+    { name: "expiresAt", type: "uint256" },
+    { name: "goodForCycles", type: "uint256" },
+  ],
+};
+
+/** The AssetRegistry views the client reads (see contracts/clearing/AssetRegistry.sol). */
+const ASSET_REGISTRY_ABI = [
+  "function paymentTokenListing(address token) view returns (tuple(uint8 decimals, string symbol, uint256 tickSize, uint256 minPrice))",
+];
+
+/** Narrows an order listing; unset fields match any order. `side` mirrors ClearingHouseStorage.Side (0 = Buy, 1 = Sell). */
+export interface OrderQuery {
+  maker?: AddressLike;
+  asset?: AddressLike;
+  tokenId?: BigNumberish;
+  side?: BigNumberish;
+}
+
+export interface PaymentTerm {
+  token: string;
+  price: bigint;
+}
+
+/** A payment token's listing in the clearing house's asset registry. */
+export interface PaymentTokenInfo {
+  decimals: number;
+  symbol: string;
+  tickSize: bigint;
+  minPrice: bigint;
+}
+
+/**
+ * Reads the ClearingHouse order book through its paginated views, following the cursors until every page is read.
+ * Each page is a separate call, so a listing taken while orders are being placed or closed may miss or repeat one.
+ * Also signs orders for submission by a relayer (submitSignedOrders), and formats amounts with the decimals of
+ * the payment tokens listed in the asset registry.
+ */
+export class ClearingHouseClient {
+  readonly #paymentTokens = new Map<string, PaymentTokenInfo>();
+
+  constructor(
+    readonly clearingHouse: ClearingHouse,
+    readonly pageSize: bigint = 100n,
+  ) {}
+
+  async activeOrders(query: OrderQuery = {}): Promise<Order[]> {
+    const filter: ClearingHouseStorage.OrderFilterStruct = {
+      maker: query.maker ?? ZeroAddress,
+      asset: query.asset ?? ZeroAddress,
+      matchTokenId: query.tokenId !== undefined,
+      tokenId: query.tokenId ?? 0,
+      matchSide: query.side !== undefined,
+      side: query.side ?? 0,
+    };
+    return this.#readAll((cursor) => this.clearingHouse.activeOrders(filter, cursor, this.pageSize));
+  }
+
+  async openOrdersOf(maker: AddressLike): Promise<Order[]> {
+    return this.activeOrders({ maker });
+  }
+
+  /** The tokens and prices a Sell order accepts, or a Buy order's tokens in order of preference with their maximum prices. */
+  async orderTerms(orderId: BigNumberish): Promise<PaymentTerm[]> {
+    const [tokens, prices] = await this.clearingHouse.orderTerms(orderId);
+    return tokens.map((token, i) => ({ token, price: prices[i] }));
+  }
+
+  async lockedAssets(): Promise<LockedAsset[]> {
+    return this.#readAll((cursor) => this.clearingHouse.lockedAssets(cursor, this.pageSize));
+  }
+
+  /** Simulates the next cycle without sending a transaction (see ClearingHouse.previewSettlement). */
+  async previewSettlement(): Promise<SettlementPreview> {
+    return this.clearingHouse.previewSettlement.staticCall();
+  }
+
+  /** The listing of `token` in the asset registry (cached). Throws if no registry is set or the token is not listed. */
+  async paymentToken(token: string): Promise<PaymentTokenInfo> {
+    const cached = this.#paymentTokens.get(token);
+    if (cached) return cached;
+
+    const registryAddress = await this.clearingHouse.assetRegistry();
+    if (registryAddress === ZeroAddress) throw new Error("No asset registry set");
+    const registry = new Contract(registryAddress, ASSET_REGISTRY_ABI, this.clearingHouse.runner);
+    const { decimals, symbol, tickSize, minPrice } = await registry.paymentTokenListing(token);
+    if (tickSize === 0n) throw new Error(`Payment token ${token} is not listed`);
+
+    const info = { decimals: Number(decimals), symbol, tickSize, minPrice };
+    this.#paymentTokens.set(token, info);
+    return info;
+  }
+
+  /** Formats an amount of `token` in whole units, e.g. "100.5 TKA". */
+  async formatAmount(token: string, amount: bigint): Promise<string> {
+    const { decimals, symbol } = await this.paymentToken(token);
+    return `${formatUnits(amount, decimals)} ${symbol}`;
+  }
+
+  /** Parses a decimal price in `token`, rounding down to its tick size. */
+  async parsePrice(token: string, value: string): Promise<bigint> {
+    const { decimals, tickSize } = await this.paymentToken(token);
+    const price = parseUnits(value, decimals);
+    return price - (price % tickSize);
+  }
+
+  /**
+   * Signs `request` with `signer`. `maker` defaults to the signer; a contract wallet maker needs a signer whose
+   * signature it accepts under ERC-1271.
+   */
+  async signOrder(signer: Signer, request: OrderRequest, nonce: BigNumberish, deadline: BigNumberish, maker?: string): Promise<SignedOrder> {
+    const domain = {
+      name: "ClearingHouse",
+      version: "1",
+      chainId: (await signer.provider!.getNetwork()).chainId,
+      verifyingContract: await this.clearingHouse.getAddress(),
+    };
+    const order = { maker: maker ?? (await signer.getAddress()), request, nonce, deadline };
+    return { ...order, signature: await signer.signTypedData(domain, SIGNED_ORDER_TYPES, order) };
+  }
+
+  async #readAll<T>(readPage: (cursor: bigint) => Promise<[T[], bigint]>): Promise<T[]> {
+    const items: T[] = [];
+    let cursor = 0n;
+    while (true) {
+      const [page, next] = await readPage(cursor);
+      items.push(...page);
+      // A short page means the end of the index was reached
+      if (next - cursor < this.pageSize) return items;
+      cursor = next;
+    }
+  }
+}
@@ -12,6 +12,7 @@ describe("Asset Contracts", function () {
   let bond: any;
   let deed: any;
   let stock: any;
+  let tranche: any;
 
   before(async function () {
     const signers = await ethers.getSigners();
@@ -101,5 +102,29 @@ describe("Asset Contracts", function () {
       expect(cert.numberOfShares).to.equal(shareCount);
     });
   });
-});
 
+  describe("BondTranche Contract", function () {
+    beforeEach(async function () {
+      tranche = await ethers.deployContract("BondTranche");
+    });
+
+    it("Should issue a tranche with terms", async function () {
+      const maturity = Math.floor(Date.now() / 1000) + 365 * 24 * 60 * 60;
+
+      await tranche.issue(owner.address, 1000, 100, 500, maturity);
+
+      const trancheId = 0;
+      expect(await tranche.balanceOf(owner.address, trancheId)).to.equal(1000);
+
+      const terms = await tranche.getTrancheTerms(trancheId);
+      expect(terms.faceValue).to.equal(100);
+      expect(terms.interestRateBps).to.equal(500);
+      expect(terms.maturityDate).to.equal(maturity);
+    });
+
+    it("Should only let the owner issue", async function () {
+      await expect(tranche.connect(otherAccount).issue(otherAccount.address, 1, 100, 500, 0))
+        .to.be.revertedWithCustomError(tranche, "OwnableUnauthorizedAccount");
+    });
+  });
+});
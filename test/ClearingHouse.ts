@@ -1,8 +1,9 @@
 import { expect } from "chai";
 import { network } from "hardhat";
+import ClearingHouseModule from "../ignition/modules/ClearingHouse.js";
 
 // Adapting the import style
-const { ethers } = await network.connect();
+const { ethers, ignition } = await network.connect();
 
 // Helper for time manipulation
 async function increaseTime(seconds: number) {
@@ -37,10 +38,10 @@ describe("ClearingHouse", function () {
     paymentToken = await ethers.deployContract("TokenA");
 
     // Deploy ClearingHouse
-    clearingHouse = await ethers.deployContract("ClearingHouse");
+    ({ clearingHouse } = await ignition.deploy(ClearingHouseModule));
 
     // Setup: Mint Bond to User A
-    await bond.mint(userA.address, 1000, 500, 1234567890); // Token ID 0
+    await bond.mint(userA.address, 1000, 500, 4102444800); // Token ID 0
     
     // Setup: Fund Users with Payment Tokens
     const initialBalance = ethers.parseUnits("10000", 18);
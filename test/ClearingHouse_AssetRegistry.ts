@@ -0,0 +1,164 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import ClearingHouseModule from "../ignition/modules/ClearingHouse.js";
+import { ClearingHouseClient } from "../scripts/lib/clearing-house-client.js";
+
+const { ethers, ignition } = await network.connect();
+
+// Helper for time manipulation
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+// Mirrors ClearingHouseStorage.Side / AssetType
+const Side = { Buy: 0, Sell: 1 };
+const AssetType = { ERC721: 0, ERC1155: 1, ERC20: 2 };
+
+// Mirrors AssetRegistry.AssetClass
+const AssetClass = { None: 0, Bond: 1, Stock: 2, Deed: 3 };
+
+describe("ClearingHouse Asset Registry", function () {
+  let seller: any;
+  let buyer: any;
+  let outsider: any;
+
+  // Contracts
+  let clearingHouse: any;
+  let client: ClearingHouseClient;
+  let registry: any;
+  let bond: any;
+  let tranche: any;
+  let usd: any;      // 6 decimals
+  let tokenA: any;   // 18 decimals
+
+  const tickSize = 10_000n;          // 0.01 TUSD
+  const minPrice = 1_000_000n;       // 1 TUSD
+  const price = 100_500_000n;        // 100.5 TUSD
+  const initialBalance = 10_000_000_000n;
+
+  before(async function () {
+    [, seller, buyer, outsider] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    bond = await ethers.deployContract("Bond");
+    tranche = await ethers.deployContract("BondTranche");
+    usd = await ethers.deployContract("TokenUSD");
+    tokenA = await ethers.deployContract("TokenA");
+    ({ clearingHouse } = await ignition.deploy(ClearingHouseModule));
+    client = new ClearingHouseClient(clearingHouse);
+
+    registry = await ethers.deployContract("AssetRegistry");
+    await registry.listAsset(bond.target, AssetClass.Bond, 1);
+    await registry.listAsset(tranche.target, AssetClass.Bond, 10);
+    await registry.listPaymentToken(usd.target, tickSize, minPrice);
+    await clearingHouse.setAssetRegistry(registry.target);
+
+    await bond.mint(seller.address, 1000, 500, 4102444800); // Bond 0
+    await tranche.issue(seller.address, 100, 1000, 500, 4102444800); // Tranche 0
+    for (const user of [seller, buyer]) {
+      await usd.transfer(user.address, initialBalance);
+      await usd.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+      await bond.connect(user).setApprovalForAll(clearingHouse.target, true);
+      await tranche.connect(user).setApprovalForAll(clearingHouse.target, true);
+    }
+  });
+
+  function trancheOrder(side: number, quantity: number) {
+    return {
+      side,
+      asset: tranche.target,
+      assetType: AssetType.ERC1155,
+      tokenId: 0,
+      quantity,
+      paymentTokens: [usd.target],
+      prices: [price],
+      counterparty: ethers.ZeroAddress,
+      expiresAt: 0,
+      goodForCycles: 0,
+    };
+  }
+
+  it("Should expose the listings and their metadata", async function () {
+    expect(await clearingHouse.assetRegistry()).to.equal(registry.target);
+    expect(await registry.listedAssets()).to.deep.equal([bond.target, tranche.target]);
+    expect(await registry.listedPaymentTokens()).to.deep.equal([usd.target]);
+
+    const listing = await registry.assetListing(tranche.target);
+    expect([listing.assetClass, listing.lotSize]).to.deep.equal([BigInt(AssetClass.Bond), 10n]);
+    const token = await registry.paymentTokenListing(usd.target);
+    expect([token.decimals, token.symbol, token.tickSize, token.minPrice]).to.deep.equal([6n, "TUSD", tickSize, minPrice]);
+
+    // Clients format and parse amounts with the listed decimals
+    expect(await client.formatAmount(usd.target, price)).to.equal("100.5 TUSD");
+    expect(await client.parsePrice(usd.target, "100.5071")).to.equal(price);
+    await expect(client.paymentToken(tokenA.target)).to.be.rejectedWith("not listed");
+
+    await expect(registry.delistAsset(bond.target)).to.emit(registry, "AssetDelisted").withArgs(bond.target);
+    expect(await registry.listedAssets()).to.deep.equal([tranche.target]);
+    await expect(registry.delistAsset(bond.target)).to.be.revertedWith("Not listed");
+    await expect(registry.listAsset(bond.target, AssetClass.None, 1)).to.be.revertedWith("Invalid asset class");
+    await expect(registry.listAsset(bond.target, AssetClass.Bond, 0)).to.be.revertedWith("Invalid lot size");
+    await expect(registry.listPaymentToken(tokenA.target, 0, 0)).to.be.revertedWith("Invalid tick size");
+  });
+
+  it("Should only accept orders in listed assets and payment tokens", async function () {
+    const deed = await ethers.deployContract("DigitalDeed");
+    await expect(clearingHouse.connect(buyer).submitBuyOrder(deed.target, 0, usd.target, price, ethers.ZeroAddress))
+      .to.be.revertedWithCustomError(clearingHouse, "AssetNotListed")
+      .withArgs(deed.target);
+    await expect(clearingHouse.connect(buyer).submitBuyOrder(bond.target, 0, tokenA.target, price, ethers.ZeroAddress))
+      .to.be.revertedWithCustomError(clearingHouse, "PaymentTokenNotListed")
+      .withArgs(tokenA.target);
+    await expect(clearingHouse.connect(seller).submitMulticurrencySellOrder(bond.target, 0, [usd.target, tokenA.target], [price, price], ethers.ZeroAddress))
+      .to.be.revertedWithCustomError(clearingHouse, "PaymentTokenNotListed");
+
+    // Once listed, orders are accepted
+    await registry.listAsset(deed.target, AssetClass.Deed, 1);
+    await clearingHouse.connect(buyer).submitBuyOrder(deed.target, 0, usd.target, price, ethers.ZeroAddress);
+
+    // Without a registry, any asset and payment token is accepted
+    await clearingHouse.setAssetRegistry(ethers.ZeroAddress);
+    await clearingHouse.connect(buyer).submitBuyOrder(bond.target, 0, tokenA.target, price, ethers.ZeroAddress);
+  });
+
+  it("Should enforce tick sizes, minimum prices and lot sizes", async function () {
+    await expect(clearingHouse.connect(buyer).submitBuyOrder(bond.target, 0, usd.target, price + 1n, ethers.ZeroAddress))
+      .to.be.revertedWithCustomError(clearingHouse, "InvalidPrice")
+      .withArgs(usd.target, price + 1n);
+    await expect(clearingHouse.connect(buyer).submitBuyOrder(bond.target, 0, usd.target, minPrice - tickSize, ethers.ZeroAddress))
+      .to.be.revertedWithCustomError(clearingHouse, "InvalidPrice");
+
+    await clearingHouse.connect(buyer).submitBuyOrder(bond.target, 0, usd.target, price, ethers.ZeroAddress); // Order 0
+    await expect(clearingHouse.connect(buyer).amendBuyOrder(0, price + 1n, ethers.ZeroAddress))
+      .to.be.revertedWithCustomError(clearingHouse, "InvalidPrice");
+
+    await expect(clearingHouse.connect(seller).submitOrder(trancheOrder(Side.Sell, 15)))
+      .to.be.revertedWithCustomError(clearingHouse, "InvalidLotSize")
+      .withArgs(tranche.target, 15);
+    await clearingHouse.connect(seller).submitOrder(trancheOrder(Side.Sell, 20));
+  });
+
+  it("Should settle listed orders, and keep open orders of delisted assets", async function () {
+    await clearingHouse.connect(seller).submitOrder(trancheOrder(Side.Sell, 20));
+    await clearingHouse.connect(buyer).submitOrder(trancheOrder(Side.Buy, 20));
+    await registry.delistAsset(tranche.target);
+    await expect(clearingHouse.connect(buyer).submitOrder(trancheOrder(Side.Buy, 10)))
+      .to.be.revertedWithCustomError(clearingHouse, "AssetNotListed");
+
+    await increaseTime(301);
+    await clearingHouse.performSettlement();
+    expect(await tranche.balanceOf(buyer.address, 0)).to.equal(20);
+    expect(await usd.balanceOf(seller.address)).to.equal(initialBalance + price * 20n);
+  });
+
+  it("Should only be managed by the owners", async function () {
+    await expect(registry.connect(outsider).listAsset(outsider.address, AssetClass.Stock, 1))
+      .to.be.revertedWithCustomError(registry, "OwnableUnauthorizedAccount");
+    await expect(registry.connect(outsider).delistPaymentToken(usd.target))
+      .to.be.revertedWithCustomError(registry, "OwnableUnauthorizedAccount");
+    await expect(clearingHouse.connect(outsider).setAssetRegistry(ethers.ZeroAddress))
+      .to.be.revertedWithCustomError(clearingHouse, "OwnableUnauthorizedAccount");
+  });
+});
@@ -0,0 +1,208 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import ClearingHouseModule from "../ignition/modules/ClearingHouse.js";
+
+const { ethers, ignition } = await network.connect();
+
+// Helper for time manipulation
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+async function increaseTimeTo(timestamp: bigint) {
+  await ethers.provider.send("evm_setNextBlockTimestamp", [Number(timestamp)]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+const DAY = 24n * 60n * 60n;
+const YEAR = 365n * DAY;
+
+describe("ClearingHouse Bond Lifecycle", function () {
+  let seller: any;
+  let buyer: any;
+  let other: any;
+  let agent: any;
+
+  // Contracts
+  let clearingHouse: any;
+  let bond: any;
+  let paymentToken: any;
+
+  const faceValue = ethers.parseUnits("1000", 18);
+  const price = ethers.parseUnits("100", 18);
+  const initialBalance = ethers.parseUnits("10000", 18);
+  let maturity: bigint;
+  let couponDates: bigint[];
+
+  before(async function () {
+    [, seller, buyer, other, agent] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    bond = await ethers.deployContract("Bond");
+    paymentToken = await ethers.deployContract("TokenA");
+    ({ clearingHouse } = await ignition.deploy(ClearingHouseModule));
+
+    // The payment agent pays coupons and redemptions in the payment token
+    await bond.setPaymentAgent(agent.address, paymentToken.target);
+    await bond.setRecordPeriod(7n * DAY);
+    await paymentToken.transfer(agent.address, initialBalance);
+    await paymentToken.connect(agent).approve(bond.target, ethers.MaxUint256);
+
+    const now = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+    maturity = now + YEAR;
+    couponDates = [now + YEAR / 2n, maturity];
+    await bond.mint(seller.address, faceValue, 500, maturity); // Bond 0: 5% semi-annual
+    await bond.setCouponSchedule(0, couponDates);
+
+    for (const user of [seller, buyer, other]) {
+      await paymentToken.transfer(user.address, initialBalance);
+      await paymentToken.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+      await bond.connect(user).setApprovalForAll(clearingHouse.target, true);
+    }
+  });
+
+  async function sell(maker: any, tokenId = 0) {
+    await clearingHouse.connect(maker).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target], [price], ethers.ZeroAddress);
+  }
+
+  async function buy(maker: any, tokenId = 0) {
+    await clearingHouse.connect(maker).submitBuyOrder(bond.target, tokenId, paymentToken.target, price, ethers.ZeroAddress);
+  }
+
+  it("Should pay coupons to the holder of record and redeem at maturity", async function () {
+    const issued = await bond.issueDates(0);
+    const firstCoupon = faceValue * 500n * (couponDates[0] - issued) / (10000n * YEAR);
+    const secondCoupon = faceValue * 500n * (couponDates[1] - couponDates[0]) / (10000n * YEAR);
+    expect(await bond.couponDates(0)).to.deep.equal(couponDates);
+    expect(await bond.couponAmount(0, 0)).to.equal(firstCoupon);
+    expect(await bond.recordDate(0, 1)).to.equal(couponDates[1] - 7n * DAY);
+
+    await expect(bond.connect(agent).payCoupon(0)).to.be.revertedWith("Coupon not due");
+    await expect(bond.connect(seller).payCoupon(0)).to.be.revertedWith("Not payment agent");
+    await expect(bond.holderOfRecord(0, 0)).to.be.revertedWith("Record date not reached");
+
+    // Sold after the record date: the seller keeps the coupon
+    await increaseTimeTo(couponDates[0] - 3n * DAY);
+    await bond.connect(seller).transferFrom(seller.address, other.address, 0);
+    expect(await bond.holderOfRecord(0, 0)).to.equal(seller.address);
+
+    await increaseTimeTo(couponDates[0]);
+    await expect(bond.connect(agent).payCoupon(0))
+      .to.emit(bond, "CouponPaid")
+      .withArgs(0, 0, seller.address, firstCoupon);
+    expect(await paymentToken.balanceOf(seller.address)).to.equal(initialBalance + firstCoupon);
+    await expect(bond.connect(agent).payCoupon(0)).to.be.revertedWith("Coupon not due");
+
+    // At maturity, the last coupon and the face value go to the new holder
+    await increaseTimeTo(maturity);
+    expect(await bond.isMatured(0)).to.equal(true);
+    await expect(bond.connect(agent).redeem(0)).to.be.revertedWith("Coupons outstanding");
+    await expect(bond.connect(agent).payCoupon(0))
+      .to.emit(bond, "CouponPaid")
+      .withArgs(0, 1, other.address, secondCoupon);
+    await expect(bond.connect(agent).payCoupon(0)).to.be.revertedWith("No coupon due");
+
+    await expect(bond.connect(agent).redeem(0))
+      .to.emit(bond, "BondRedeemed")
+      .withArgs(0, other.address, faceValue);
+    await expect(bond.ownerOf(0)).to.be.revertedWithCustomError(bond, "ERC721NonexistentToken");
+    expect(await paymentToken.balanceOf(other.address)).to.equal(initialBalance + secondCoupon + faceValue);
+  });
+
+  it("Should validate coupon schedules", async function () {
+    await bond.mint(seller.address, faceValue, 500, maturity); // Bond 1
+    await expect(bond.setCouponSchedule(0, couponDates)).to.be.revertedWith("Schedule already set");
+    await expect(bond.setCouponSchedule(1, [couponDates[1], couponDates[0]])).to.be.revertedWith("Invalid coupon dates");
+    await expect(bond.setCouponSchedule(1, [maturity + 1n])).to.be.revertedWith("Coupon after maturity");
+    await expect(bond.connect(seller).setCouponSchedule(1, couponDates))
+      .to.be.revertedWithCustomError(bond, "OwnableUnauthorizedAccount");
+    await expect(bond.connect(agent).redeem(1)).to.be.revertedWith("Not matured");
+  });
+
+  it("Should pay a coupon whose record date falls during custody to the seller", async function () {
+    await sell(seller);
+    await buy(buyer);
+
+    // The buyer cannot pay: the bond stays locked in custody for the seller
+    await paymentToken.connect(buyer).approve(clearingHouse.target, 0);
+    await increaseTime(301);
+    await expect(clearingHouse.performSettlement()).to.emit(clearingHouse, "SettlementFailed");
+    expect(await bond.ownerOf(0)).to.equal(clearingHouse.target);
+    expect(await clearingHouse.beneficialOwner(bond.target, 0)).to.equal(seller.address);
+
+    // The record date passes, then the trade settles
+    await increaseTimeTo(couponDates[0] - 3n * DAY);
+    expect(await bond.holderOfRecord(0, 0)).to.equal(seller.address);
+    await paymentToken.connect(buyer).approve(clearingHouse.target, ethers.MaxUint256);
+    await clearingHouse.performSettlement();
+    expect(await bond.ownerOf(0)).to.equal(buyer.address);
+    expect(await clearingHouse.beneficialOwner(bond.target, 0)).to.equal(ethers.ZeroAddress);
+
+    await increaseTimeTo(couponDates[0]);
+    await expect(bond.connect(agent).payCoupon(0)).to.emit(bond, "CouponPaid").withArgs(0, 0, seller.address, await bond.couponAmount(0, 0));
+  });
+
+  it("Should leave a coupon to the seller when its record date passes mid-settlement", async function () {
+    await increaseTimeTo(couponDates[0] - 7n * DAY - 600n);
+    await sell(seller);
+    await buy(buyer);
+
+    // Matching locks the bond, then the record date passes before the cycle completes
+    await clearingHouse.startSettlement();
+    await clearingHouse.advanceSettlement(1);
+    expect(await bond.ownerOf(0)).to.equal(clearingHouse.target);
+    await increaseTime(601);
+    await clearingHouse.advanceSettlement(100);
+    expect(await bond.ownerOf(0)).to.equal(buyer.address);
+
+    expect(await bond.holderOfRecord(0, 0)).to.equal(seller.address);
+    // The next coupon's record date comes after the trade: it goes to the buyer
+    await increaseTimeTo(maturity);
+    await bond.connect(agent).payCoupon(0);
+    await expect(bond.connect(agent).payCoupon(0)).to.emit(bond, "CouponPaid").withArgs(0, 1, buyer.address, await bond.couponAmount(0, 1));
+  });
+
+  it("Should not trade matured bonds", async function () {
+    await bond.mint(seller.address, faceValue, 500, couponDates[0]); // Bond 1, maturing first
+    await sell(seller, 1); // Order 0
+    await buy(buyer, 1); // Order 1
+    await sell(seller); // Order 2, Bond 0
+
+    // The cycle after maturity retires the orders instead of matching them
+    await increaseTimeTo(couponDates[0]);
+    await expect(clearingHouse.connect(buyer).submitBuyOrder(bond.target, 1, paymentToken.target, price, ethers.ZeroAddress))
+      .to.be.revertedWithCustomError(clearingHouse, "AssetMatured")
+      .withArgs(bond.target, 1);
+    const tx = clearingHouse.performSettlement();
+    await expect(tx).to.emit(clearingHouse, "OrderExpired").withArgs(0, seller.address);
+    await expect(tx).to.emit(clearingHouse, "OrderExpired").withArgs(1, buyer.address);
+    await expect(tx).not.to.emit(clearingHouse, "TradeMatched");
+    expect(await bond.ownerOf(1)).to.equal(seller.address);
+    expect((await clearingHouse.orders(2)).active).to.equal(true);
+
+    await bond.connect(agent).redeem(1);
+    expect(await paymentToken.balanceOf(seller.address)).to.equal(initialBalance + faceValue);
+  });
+
+  it("Should return a matured bond locked in custody before it is redeemed", async function () {
+    const maturing = couponDates[0];
+    await bond.mint(seller.address, faceValue, 500, maturing); // Bond 1
+    await sell(seller, 1); // Order 0
+    await buy(buyer, 1);
+
+    await paymentToken.connect(buyer).approve(clearingHouse.target, 0);
+    await increaseTime(301);
+    await clearingHouse.performSettlement();
+    expect(await bond.ownerOf(1)).to.equal(clearingHouse.target);
+
+    await increaseTimeTo(maturing);
+    await expect(bond.connect(agent).redeem(1)).to.be.revertedWith("Bond in custody");
+    await expect(clearingHouse.performSettlement())
+      .to.emit(clearingHouse, "AssetUnlocked")
+      .withArgs(0, bond.target, 1);
+    expect(await bond.ownerOf(1)).to.equal(seller.address);
+    await expect(bond.connect(agent).redeem(1)).to.emit(bond, "BondRedeemed").withArgs(1, seller.address, faceValue);
+  });
+});
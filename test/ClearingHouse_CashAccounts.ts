@@ -0,0 +1,158 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import ClearingHouseModule from "../ignition/modules/ClearingHouse.js";
+
+const { ethers, ignition } = await network.connect();
+
+// Helper for time manipulation
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+describe("ClearingHouse Cash Accounts", function () {
+  let seller: any;
+  let buyer: any;
+
+  // Contracts
+  let clearingHouse: any;
+  let bond: any;
+  let paymentToken: any;
+
+  const price = ethers.parseUnits("100", 18);
+  const initialBalance = ethers.parseUnits("1000", 18);
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    seller = signers[1];
+    buyer = signers[2];
+  });
+
+  beforeEach(async function () {
+    bond = await ethers.deployContract("Bond");
+    paymentToken = await ethers.deployContract("TokenA");
+    ({ clearingHouse } = await ignition.deploy(ClearingHouseModule));
+
+    await bond.mint(seller.address, 1000, 500, 4102444800);
+    for (const user of [seller, buyer]) {
+      await paymentToken.transfer(user.address, initialBalance);
+      await paymentToken.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+      await bond.connect(user).setApprovalForAll(clearingHouse.target, true);
+    }
+  });
+
+  async function listTrade() {
+    await clearingHouse.connect(seller).submitMulticurrencySellOrder(bond.target, 0, [paymentToken.target], [price], ethers.ZeroAddress);
+    await clearingHouse.connect(buyer).submitBuyOrder(bond.target, 0, paymentToken.target, price, ethers.ZeroAddress);
+  }
+
+  it("Should deposit and withdraw cash", async function () {
+    await expect(clearingHouse.connect(buyer).depositCash(paymentToken.target, price))
+      .to.emit(clearingHouse, "CashDeposited")
+      .withArgs(buyer.address, paymentToken.target, price);
+    expect(await clearingHouse.cashBalances(buyer.address, paymentToken.target)).to.equal(price);
+    expect(await paymentToken.balanceOf(clearingHouse.target)).to.equal(price);
+
+    await expect(clearingHouse.connect(buyer).withdrawCash(paymentToken.target, price + 1n))
+      .to.be.revertedWith("Insufficient available cash");
+    await expect(clearingHouse.connect(buyer).withdrawCash(paymentToken.target, price))
+      .to.emit(clearingHouse, "CashWithdrawn")
+      .withArgs(buyer.address, paymentToken.target, price);
+    expect(await paymentToken.balanceOf(buyer.address)).to.equal(initialBalance);
+  });
+
+  it("Should pay from the cash account without an allowance", async function () {
+    await clearingHouse.connect(buyer).depositCash(paymentToken.target, price);
+    await paymentToken.connect(buyer).approve(clearingHouse.target, 0);
+    await listTrade();
+
+    await increaseTime(301);
+    await expect(clearingHouse.performSettlement()).to.not.emit(clearingHouse, "SettlementFailed");
+
+    expect(await bond.ownerOf(0)).to.equal(buyer.address);
+    expect(await clearingHouse.cashBalances(buyer.address, paymentToken.target)).to.equal(0);
+    expect(await paymentToken.balanceOf(seller.address)).to.equal(initialBalance + price);
+  });
+
+  it("Should pull only the remainder from the wallet", async function () {
+    const deposit = ethers.parseUnits("60", 18);
+    await clearingHouse.connect(buyer).depositCash(paymentToken.target, deposit);
+    await listTrade();
+
+    await increaseTime(301);
+    await clearingHouse.performSettlement();
+
+    expect(await clearingHouse.cashBalances(buyer.address, paymentToken.target)).to.equal(0);
+    expect(await paymentToken.balanceOf(buyer.address)).to.equal(initialBalance - price);
+  });
+
+  it("Should credit proceeds to the cash account when opted in", async function () {
+    await expect(clearingHouse.connect(seller).setSettleToCashAccount(true))
+      .to.emit(clearingHouse, "SettleToCashAccountSet")
+      .withArgs(seller.address, true);
+    await listTrade();
+
+    await increaseTime(301);
+    await clearingHouse.performSettlement();
+
+    expect(await paymentToken.balanceOf(seller.address)).to.equal(initialBalance);
+    expect(await clearingHouse.cashBalances(seller.address, paymentToken.target)).to.equal(price);
+    expect(await paymentToken.balanceOf(clearingHouse.target)).to.equal(price);
+  });
+
+  it("Should refund a failed cycle to the cash account", async function () {
+    const deposit = ethers.parseUnits("60", 18);
+    await clearingHouse.connect(buyer).depositCash(paymentToken.target, deposit);
+    await paymentToken.connect(buyer).approve(clearingHouse.target, 0);
+    await listTrade();
+
+    await increaseTime(301);
+    await expect(clearingHouse.performSettlement()).to.emit(clearingHouse, "SettlementFailed");
+
+    expect(await clearingHouse.cashBalances(buyer.address, paymentToken.target)).to.equal(deposit);
+    expect(await paymentToken.balanceOf(buyer.address)).to.equal(initialBalance - deposit);
+  });
+
+  it("Should block withdrawal of cash committed to the open cycle", async function () {
+    const deposit = ethers.parseUnits("150", 18);
+    await clearingHouse.connect(buyer).depositCash(paymentToken.target, deposit);
+    await listTrade();
+
+    await increaseTime(301);
+    await clearingHouse.startSettlement();
+    await clearingHouse.advanceSettlement(1); // Matched, not yet collected
+
+    expect(await clearingHouse.availableCash(buyer.address, paymentToken.target)).to.equal(deposit - price);
+    await expect(clearingHouse.connect(buyer).withdrawCash(paymentToken.target, deposit))
+      .to.be.revertedWith("Insufficient available cash");
+    await clearingHouse.connect(buyer).withdrawCash(paymentToken.target, deposit - price);
+
+    await clearingHouse.advanceSettlement(100);
+    expect(await bond.ownerOf(0)).to.equal(buyer.address);
+    expect(await clearingHouse.cashBalances(buyer.address, paymentToken.target)).to.equal(0);
+    expect(await paymentToken.balanceOf(buyer.address)).to.equal(initialBalance - price);
+  });
+
+  it("Should not credit or settle transfers that return false", async function () {
+    const token = await ethers.deployContract("MockFalseReturnToken");
+    await token.transfer(buyer.address, initialBalance);
+    await token.connect(buyer).approve(clearingHouse.target, ethers.MaxUint256);
+    await clearingHouse.connect(buyer).depositCash(token.target, price);
+
+    await token.setFailing(true);
+    await expect(clearingHouse.connect(buyer).depositCash(token.target, price))
+      .to.be.revertedWithCustomError(clearingHouse, "SafeERC20FailedOperation")
+      .withArgs(token.target);
+    await expect(clearingHouse.connect(buyer).withdrawCash(token.target, price))
+      .to.be.revertedWithCustomError(clearingHouse, "SafeERC20FailedOperation");
+    expect(await clearingHouse.cashBalances(buyer.address, token.target)).to.equal(price);
+
+    // A payment pull that returns false is a default, not a payment
+    await clearingHouse.connect(seller).submitMulticurrencySellOrder(bond.target, 0, [token.target], [price * 2n], ethers.ZeroAddress);
+    await clearingHouse.connect(buyer).submitBuyOrder(bond.target, 0, token.target, price * 2n, ethers.ZeroAddress);
+    await increaseTime(301);
+    await expect(clearingHouse.performSettlement()).to.emit(clearingHouse, "SettlementFailed");
+    expect(await bond.ownerOf(0)).to.equal(clearingHouse.target);
+    expect(await clearingHouse.cashBalances(buyer.address, token.target)).to.equal(price);
+  });
+});
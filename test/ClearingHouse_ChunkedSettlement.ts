@@ -0,0 +1,310 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import ClearingHouseModule from "../ignition/modules/ClearingHouse.js";
+
+const { ethers, ignition } = await network.connect();
+
+// Helper for time manipulation
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+// Mirrors ClearingHouseStorage.SettlementPhase / Side / AssetType
+const Phase = { Idle: 0n, Matching: 1n, Converting: 2n, Collecting: 3n, Distributing: 4n, Finalizing: 5n };
+const Side = { Buy: 0, Sell: 1 };
+const AssetType = { ERC721: 0, ERC1155: 1, ERC20: 2 };
+
+describe("ClearingHouse Chunked Settlement", function () {
+  let owner: any;
+  let users: any[] = [];
+
+  // Contracts
+  let clearingHouse: any;
+  let bond: any;
+  let paymentToken: any;
+
+  const price = ethers.parseUnits("100", 18);
+  const initialBalance = ethers.parseUnits("1000", 18);
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    owner = signers[0];
+    for (let i = 1; i <= 6; i++) users.push(signers[i]);
+  });
+
+  beforeEach(async function () {
+    bond = await ethers.deployContract("Bond");
+    paymentToken = await ethers.deployContract("TokenA");
+    ({ clearingHouse } = await ignition.deploy(ClearingHouseModule));
+
+    for (const user of users) {
+      await paymentToken.transfer(user.address, initialBalance);
+      await paymentToken.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+      await bond.connect(user).setApprovalForAll(clearingHouse.target, true);
+    }
+  });
+
+  async function sell(seller: any, tokenId: number) {
+    await clearingHouse.connect(seller).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target], [price], ethers.ZeroAddress);
+  }
+
+  async function buy(buyer: any, tokenId: number) {
+    await clearingHouse.connect(buyer).submitBuyOrder(bond.target, tokenId, paymentToken.target, price, ethers.ZeroAddress);
+  }
+
+  // Three bonds, each sold by users[i] to users[i + 3]
+  async function listThreePairs() {
+    for (let i = 0; i < 3; i++) {
+      await bond.mint(users[i].address, 1000, 500, 4102444800);
+      await sell(users[i], i);
+      await buy(users[i + 3], i);
+    }
+  }
+
+  it("Should settle a cycle over several transactions", async function () {
+    await listThreePairs();
+    await increaseTime(301);
+
+    await expect(clearingHouse.startSettlement())
+      .to.emit(clearingHouse, "SettlementStarted")
+      .withArgs(1);
+    expect(await clearingHouse.settlementPhase()).to.equal(Phase.Matching);
+
+    // One asset per step
+    await clearingHouse.advanceSettlement(2);
+    expect(await clearingHouse.settlementPhase()).to.equal(Phase.Matching);
+    expect(await bond.ownerOf(0)).to.equal(users[0].address);
+
+    const phases: bigint[] = [];
+    let closed = false;
+    while (!closed) {
+      phases.push(await clearingHouse.settlementPhase());
+      closed = await clearingHouse.advanceSettlement.staticCall(2);
+      const tx = clearingHouse.connect(users[5]).advanceSettlement(2); // Anyone can advance
+      if (closed) {
+        await expect(tx).to.emit(clearingHouse, "SettlementCompleted");
+      } else {
+        await tx;
+      }
+    }
+
+    expect(phases).to.include.members([Phase.Matching, Phase.Converting, Phase.Collecting, Phase.Distributing, Phase.Finalizing]);
+    expect(await clearingHouse.settlementPhase()).to.equal(Phase.Idle);
+
+    for (let i = 0; i < 3; i++) {
+      expect(await bond.ownerOf(i)).to.equal(users[i + 3].address);
+      expect(await paymentToken.balanceOf(users[i].address)).to.equal(initialBalance + price);
+      expect(await paymentToken.balanceOf(users[i + 3].address)).to.equal(initialBalance - price);
+    }
+    expect(await clearingHouse.activeOrderCount()).to.equal(0);
+  });
+
+  it("Should match the result of a single-call settlement", async function () {
+    await listThreePairs();
+    await increaseTime(301);
+
+    await clearingHouse.performSettlement();
+
+    expect(await clearingHouse.settlementPhase()).to.equal(Phase.Idle);
+    for (let i = 0; i < 3; i++) {
+      expect(await bond.ownerOf(i)).to.equal(users[i + 3].address);
+    }
+    expect(await paymentToken.balanceOf(clearingHouse.target)).to.equal(0);
+  });
+
+  it("Should hold orders submitted during an open cycle for the next cycle", async function () {
+    const [seller, buyer] = users;
+    await bond.mint(seller.address, 1000, 500, 4102444800);
+    await sell(seller, 0);
+
+    await increaseTime(301);
+    await clearingHouse.startSettlement();
+
+    // The matching buyer arrives while the cycle is open
+    await buy(buyer, 0);
+    await clearingHouse.advanceSettlement(100);
+
+    expect(await clearingHouse.settlementPhase()).to.equal(Phase.Idle);
+    expect(await bond.ownerOf(0)).to.equal(seller.address);
+    expect((await clearingHouse.orders(1)).active).to.equal(true);
+
+    await increaseTime(301);
+    await clearingHouse.performSettlement();
+    expect(await bond.ownerOf(0)).to.equal(buyer.address);
+  });
+
+  it("Should not start a cycle while one is in progress", async function () {
+    await listThreePairs();
+    await increaseTime(301);
+
+    await expect(clearingHouse.advanceSettlement(1)).to.be.revertedWith("No settlement in progress");
+
+    await clearingHouse.startSettlement();
+    await increaseTime(301);
+    await expect(clearingHouse.startSettlement()).to.be.revertedWith("Settlement in progress");
+    await expect(clearingHouse.performSettlement()).to.be.revertedWith("Settlement in progress");
+    await expect(clearingHouse.setDefaultIsolation(true)).to.be.revertedWith("Settlement in progress");
+  });
+
+  it("Should settle books of up to MAX_SINGLE_CALL_ORDERS orders in one call under the transaction gas cap", async function () {
+    this.timeout(120000);
+    const maxOrders = await clearingHouse.MAX_SINGLE_CALL_ORDERS();
+    expect(maxOrders).to.equal(40);
+
+    // One pair per bond between two participants of their own: the most a book of this size can cost to settle
+    let participantCount = 0;
+    async function participant() {
+      const address = ethers.getAddress(ethers.toBeHex(0x20000 + participantCount++, 20));
+      await ethers.provider.send("hardhat_setBalance", [address, ethers.toQuantity(ethers.parseEther("1"))]);
+      return ethers.getImpersonatedSigner(address);
+    }
+    for (let i = 0; i < Number(maxOrders) / 2; i++) {
+      const seller = await participant();
+      const buyer = await participant();
+      await bond.mint(seller.address, 1000, 500, 4102444800);
+      await bond.connect(seller).setApprovalForAll(clearingHouse.target, true);
+      await paymentToken.transfer(buyer.address, price);
+      await paymentToken.connect(buyer).approve(clearingHouse.target, ethers.MaxUint256);
+      await sell(seller, i);
+      await buy(buyer, i);
+    }
+
+    // One order more and the book must be settled in chunks
+    await buy(users[0], 0);
+    await increaseTime(301);
+    await expect(clearingHouse.performSettlement()).to.be.revertedWith("Book too large for one call");
+
+    await clearingHouse.connect(users[0]).cancelOrder(maxOrders);
+    await clearingHouse.performSettlement({ gasLimit: 16_777_216 });
+    expect(await clearingHouse.activeOrderCount()).to.equal(0);
+  });
+
+  it("Should lock orders matched in the open cycle against cancellation and amendment", async function () {
+    const [seller, buyer, other] = users;
+    await bond.mint(seller.address, 1000, 500, 4102444800); // Bond 0
+    await bond.mint(other.address, 1000, 500, 4102444800);  // Bond 1, no buyer
+    await sell(seller, 0);
+    await buy(buyer, 0);
+    await sell(other, 1);
+
+    await increaseTime(301);
+    await clearingHouse.startSettlement();
+    await clearingHouse.advanceSettlement(2); // Both assets processed
+
+    await expect(clearingHouse.connect(seller).cancelOrder(0)).to.be.revertedWith("Order in settlement");
+    await expect(clearingHouse.connect(buyer).amendBuyOrder(1, price * 2n, ethers.ZeroAddress))
+      .to.be.revertedWith("Order in settlement");
+
+    // Orders that were not matched can still be managed
+    await expect(clearingHouse.connect(other).cancelOrder(2))
+      .to.emit(clearingHouse, "OrderCancelled")
+      .withArgs(2, other.address);
+
+    await clearingHouse.advanceSettlement(100);
+    expect(await bond.ownerOf(0)).to.equal(buyer.address);
+  });
+
+  it("Should count a failed cycle when a payment fails mid-way", async function () {
+    const [seller, buyer] = users;
+    await bond.mint(seller.address, 1000, 500, 4102444800);
+    await paymentToken.connect(buyer).approve(clearingHouse.target, 0);
+    await sell(seller, 0);
+    await buy(buyer, 0);
+
+    await increaseTime(301);
+    await clearingHouse.startSettlement();
+    await clearingHouse.advanceSettlement(1);
+    expect(await bond.ownerOf(0)).to.equal(clearingHouse.target);
+
+    await expect(clearingHouse.advanceSettlement(100))
+      .to.emit(clearingHouse, "SettlementFailed")
+      .withArgs(1, "Global Payment Failure");
+
+    const order = await clearingHouse.orders(0);
+    expect(order.isLocked).to.equal(true);
+    expect(order.failedSettlementCycles).to.equal(1);
+  });
+
+  it("Should close a cycle whose payout or delivery reverts and leave them to be claimed", async function () {
+    const [seller, buyer, , , , other] = users;
+    const token = await ethers.deployContract("MockRevertingToken");  // Payment token
+    const shares = await ethers.deployContract("MockRevertingToken"); // Asset
+    await token.transfer(buyer.address, initialBalance);
+    await token.connect(buyer).approve(clearingHouse.target, ethers.MaxUint256);
+    await shares.transfer(seller.address, 5);
+    await shares.connect(seller).approve(clearingHouse.target, ethers.MaxUint256);
+    const order = (side: number) => ({
+      side,
+      asset: shares.target,
+      assetType: AssetType.ERC20,
+      tokenId: 0,
+      quantity: 5,
+      paymentTokens: [token.target],
+      prices: [price],
+      counterparty: ethers.ZeroAddress,
+      expiresAt: 0,
+      goodForCycles: 0,
+    });
+    await clearingHouse.connect(seller).submitOrder(order(Side.Sell));
+    await clearingHouse.connect(buyer).submitOrder(order(Side.Buy));
+
+    await increaseTime(301);
+    await clearingHouse.startSettlement();
+    await clearingHouse.advanceSettlement(1);
+    expect(await shares.balanceOf(clearingHouse.target)).to.equal(5);
+
+    // Neither party can receive any more
+    await token.setBlocked(seller.address, true);
+    await shares.setBlocked(buyer.address, true);
+    await expect(clearingHouse.advanceSettlement(100))
+      .to.emit(clearingHouse, "PayoutFailed").withArgs(1, seller.address, token.target, price * 5n)
+      .and.to.emit(clearingHouse, "AssetDeliveryFailed").withArgs(1, 1, buyer.address, shares.target, 0, 5)
+      .and.to.emit(clearingHouse, "SettlementCompleted");
+
+    expect(await clearingHouse.settlementPhase()).to.equal(Phase.Idle);
+    expect(await clearingHouse.activeOrderCount()).to.equal(0);
+    expect(await clearingHouse.unreturnedBalances(seller.address, token.target)).to.equal(price * 5n);
+    expect(await clearingHouse.undeliveredQuantities(1)).to.equal(5);
+
+    // Each claims what they are owed to another address
+    await expect(clearingHouse.connect(seller).claimUndeliveredAsset(1, seller.address)).to.be.revertedWith("Not order maker");
+    await expect(clearingHouse.connect(buyer).claimUndeliveredAsset(1, buyer.address)).to.be.revertedWith("Recipient blocked");
+    await expect(clearingHouse.connect(buyer).claimUndeliveredAsset(1, other.address))
+      .to.emit(clearingHouse, "UndeliveredAssetClaimed").withArgs(1, shares.target, 0, other.address, 5);
+    await expect(clearingHouse.connect(buyer).claimUndeliveredAsset(1, other.address)).to.be.revertedWith("Nothing to claim");
+    await clearingHouse.connect(seller).claimUnreturnedBalance(token.target, other.address);
+
+    expect(await shares.balanceOf(other.address)).to.equal(5);
+    expect(await token.balanceOf(other.address)).to.equal(price * 5n);
+    expect(await token.balanceOf(clearingHouse.target)).to.equal(0);
+    expect(await shares.balanceOf(clearingHouse.target)).to.equal(0);
+
+    // The next cycle can start
+    await increaseTime(301);
+    await clearingHouse.performSettlement();
+  });
+
+  it("Should release a locked asset whose buyer has left", async function () {
+    const [seller, buyer] = users;
+    await bond.mint(seller.address, 1000, 500, 4102444800);
+    await paymentToken.connect(buyer).approve(clearingHouse.target, 0);
+    await sell(seller, 0);
+    await buy(buyer, 0);
+
+    await increaseTime(301);
+    await clearingHouse.performSettlement(); // Fails: asset stays locked
+    await clearingHouse.connect(buyer).cancelOrder(1);
+
+    await increaseTime(301);
+    await expect(clearingHouse.performSettlement())
+      .to.emit(clearingHouse, "AssetUnlocked")
+      .withArgs(0, bond.target, 0);
+
+    const order = await clearingHouse.orders(0);
+    expect(order.active).to.equal(true);
+    expect(order.isLocked).to.equal(false);
+    expect(order.failedSettlementCycles).to.equal(0);
+    expect(await bond.ownerOf(0)).to.equal(seller.address);
+  });
+});
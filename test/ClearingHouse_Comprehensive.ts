@@ -1,8 +1,9 @@
 import { expect } from "chai";
 import { network } from "hardhat";
+import ClearingHouseModule from "../ignition/modules/ClearingHouse.js";
 
 // Adapting the import style
-const { ethers } = await network.connect();
+const { ethers, ignition } = await network.connect();
 
 // Helper for time manipulation
 async function increaseTime(seconds: number) {
@@ -41,10 +42,10 @@ describe("ClearingHouse Comprehensive", function () {
     paymentTokenB = await ethers.deployContract("TokenB");
 
     // Deploy ClearingHouse
-    clearingHouse = await ethers.deployContract("ClearingHouse");
+    ({ clearingHouse } = await ignition.deploy(ClearingHouseModule));
 
     // Setup: Mint Bond to User A (users[0])
-    if(users[0]) await bond.mint(users[0].address, 1000, 500, 1234567890); // Bond ID 0
+    if(users[0]) await bond.mint(users[0].address, 1000, 500, 4102444800); // Bond ID 0
     if(users[2]) await stock.mint(users[2].address, "Common", 100);       // Stock ID 0
     
     // Setup: Fund Users with Payment Tokens (Both A and B)
@@ -68,7 +69,7 @@ describe("ClearingHouse Comprehensive", function () {
           
           const tokenId = 1;
           // Mint fresh bond to User 0
-          await bond.mint(users[0].address, 1000, 500, 1234567890); 
+          await bond.mint(users[0].address, 1000, 500, 4102444800); 
           
           const priceA = ethers.parseUnits("100", 18); // 100 Token A
           const priceB = ethers.parseUnits("200", 18); // 200 Token B (Different valuation)
@@ -120,7 +121,7 @@ describe("ClearingHouse Comprehensive", function () {
         console.log("  -------------------------------------------------------------");
         
         // BeforeEach mints ID 0. This mint will create ID 1.
-        await bond.mint(users[0].address, 1000, 500, 1234567890); 
+        await bond.mint(users[0].address, 1000, 500, 4102444800); 
         const tokenId = 1;
         
         const priceA = ethers.parseUnits("100", 18);
@@ -160,6 +161,169 @@ describe("ClearingHouse Comprehensive", function () {
     });
   });
 
+  describe("Multicurrency Buy Orders", function () {
+      const tokenId = 0; // Bond 0 owned by User 0
+      const initial = ethers.parseUnits("10000", 18);
+      const priceA = ethers.parseUnits("100", 18);
+      const priceB = ethers.parseUnits("200", 18);
+
+      it("Should pay in the only currency the seller accepts", async function () {
+          console.log("\n  [Narrative] Buyer offers Token B or Token A, Seller only takes Token A");
+          await clearingHouse.connect(users[0]).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target], [priceA], ethers.ZeroAddress);
+          await clearingHouse.connect(users[1]).submitMulticurrencyBuyOrder(bond.target, tokenId, [paymentTokenB.target, paymentToken.target], [priceB, priceA], ethers.ZeroAddress);
+
+          await increaseTime(301);
+          await clearingHouse.performSettlement();
+
+          expect(await bond.ownerOf(tokenId)).to.equal(users[1].address);
+          expect(await paymentToken.balanceOf(users[1].address)).to.equal(initial - priceA);
+          expect(await paymentTokenB.balanceOf(users[1].address)).to.equal(initial);
+      });
+
+      it("Should pay in the buyer's first listed currency when several overlap", async function () {
+          console.log("\n  [Narrative] Both sides accept Token A and Token B; the buyer listed Token B first");
+          await clearingHouse.connect(users[0]).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target, paymentTokenB.target], [priceA, priceB], ethers.ZeroAddress);
+          await clearingHouse.connect(users[1]).submitMulticurrencyBuyOrder(bond.target, tokenId, [paymentTokenB.target, paymentToken.target], [priceB, priceA], ethers.ZeroAddress);
+
+          await increaseTime(301);
+          await clearingHouse.performSettlement();
+
+          expect(await paymentTokenB.balanceOf(users[0].address)).to.equal(initial + priceB);
+          expect(await paymentToken.balanceOf(users[0].address)).to.equal(initial);
+      });
+
+      it("Should skip a listed currency whose maximum price is below the ask", async function () {
+          await clearingHouse.connect(users[0]).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target, paymentTokenB.target], [priceA, priceB], ethers.ZeroAddress);
+          await clearingHouse.connect(users[1]).submitMulticurrencyBuyOrder(bond.target, tokenId, [paymentTokenB.target, paymentToken.target], [priceB - 1n, priceA], ethers.ZeroAddress);
+
+          await increaseTime(301);
+          await clearingHouse.performSettlement();
+
+          expect(await bond.ownerOf(tokenId)).to.equal(users[1].address);
+          expect(await paymentToken.balanceOf(users[0].address)).to.equal(initial + priceA);
+      });
+
+      it("Should not match when no currency overlaps", async function () {
+          await clearingHouse.connect(users[0]).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target], [priceA], ethers.ZeroAddress);
+          await clearingHouse.connect(users[1]).submitMulticurrencyBuyOrder(bond.target, tokenId, [paymentTokenB.target], [priceB], ethers.ZeroAddress);
+
+          await increaseTime(301);
+          await clearingHouse.performSettlement();
+
+          expect(await bond.ownerOf(tokenId)).to.equal(users[0].address);
+          expect((await clearingHouse.orders(1)).active).to.equal(true);
+      });
+
+      it("Should rank a multicurrency bid by its chosen currency against single-currency bids", async function () {
+          console.log("\n  [Narrative] 105 TKA single-currency bid vs multicurrency bid paying 220 TKB");
+          await clearingHouse.connect(users[0]).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target, paymentTokenB.target], [priceA, priceB], ethers.ZeroAddress);
+          await clearingHouse.connect(users[1]).submitBuyOrder(bond.target, tokenId, paymentToken.target, ethers.parseUnits("105", 18), ethers.ZeroAddress);
+          await clearingHouse.connect(users[2]).submitMulticurrencyBuyOrder(bond.target, tokenId, [paymentTokenB.target], [ethers.parseUnits("220", 18)], ethers.ZeroAddress);
+
+          await increaseTime(301);
+          await clearingHouse.performSettlement();
+
+          expect(await bond.ownerOf(tokenId)).to.equal(users[2].address);
+          expect(await paymentTokenB.balanceOf(users[0].address)).to.equal(initial + ethers.parseUnits("220", 18));
+      });
+  });
+
+  describe("Price-Time Priority", function () {
+      const tokenId = 0; // Bond 0 owned by User 0
+      const ask = ethers.parseUnits("100", 18);
+
+      it("Should fill the highest bid even if it was submitted later", async function () {
+          console.log("\n  [Narrative] Competing bids at different prices");
+          await clearingHouse.connect(users[0]).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target], [ask], ethers.ZeroAddress);
+
+          const lowBid = ethers.parseUnits("100", 18);
+          const highBid = ethers.parseUnits("120", 18);
+          console.log("  [Step 1] User 1 bids 100, then User 2 bids 120");
+          await clearingHouse.connect(users[1]).submitBuyOrder(bond.target, tokenId, paymentToken.target, lowBid, ethers.ZeroAddress);
+          await clearingHouse.connect(users[2]).submitBuyOrder(bond.target, tokenId, paymentToken.target, highBid, ethers.ZeroAddress);
+
+          await increaseTime(301);
+          await clearingHouse.performSettlement();
+
+          console.log("  [Result] User 2 (higher bid) receives the bond");
+          expect(await bond.ownerOf(tokenId)).to.equal(users[2].address);
+          const initial = ethers.parseUnits("10000", 18);
+          expect(await paymentToken.balanceOf(users[0].address)).to.equal(initial + highBid);
+          expect((await clearingHouse.orders(1)).active).to.equal(true);
+      });
+
+      it("Should fill the earliest of equal bids", async function () {
+          console.log("\n  [Narrative] Equal bids submitted at different times");
+          await clearingHouse.connect(users[0]).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target], [ask], ethers.ZeroAddress);
+
+          console.log("  [Step 1] User 3 bids 100, then User 4 bids 100");
+          await clearingHouse.connect(users[3]).submitBuyOrder(bond.target, tokenId, paymentToken.target, ask, ethers.ZeroAddress);
+          await clearingHouse.connect(users[4]).submitBuyOrder(bond.target, tokenId, paymentToken.target, ask, ethers.ZeroAddress);
+
+          await increaseTime(301);
+          await clearingHouse.performSettlement();
+
+          console.log("  [Result] User 3 (earlier bid) receives the bond");
+          expect(await bond.ownerOf(tokenId)).to.equal(users[3].address);
+      });
+
+      it("Should keep time priority after active orders are compacted", async function () {
+          console.log("\n  [Narrative] Time priority across a compaction of activeOrderIds");
+          await bond.mint(users[5].address, 1000, 500, 4102444800); // Bond 1
+
+          // Interleave a trade on Bond 1 with two equal bids on Bond 0
+          await clearingHouse.connect(users[5]).submitMulticurrencySellOrder(bond.target, 1, [paymentToken.target], [ask], ethers.ZeroAddress); // #0
+          await clearingHouse.connect(users[1]).submitBuyOrder(bond.target, tokenId, paymentToken.target, ask, ethers.ZeroAddress);             // #1
+          await clearingHouse.connect(users[6]).submitBuyOrder(bond.target, 1, paymentToken.target, ask, ethers.ZeroAddress);                   // #2
+          await clearingHouse.connect(users[2]).submitBuyOrder(bond.target, tokenId, paymentToken.target, ask, ethers.ZeroAddress);             // #3
+
+          console.log("  [Step 1] Bond 1 settles; compaction swaps the later bid ahead of the earlier one");
+          await increaseTime(301);
+          await clearingHouse.performSettlement();
+          expect(await bond.ownerOf(1)).to.equal(users[6].address);
+          expect(await clearingHouse.activeOrderIds(0)).to.equal(3);
+          expect(await clearingHouse.activeOrderIds(1)).to.equal(1);
+
+          console.log("  [Step 2] User 0 lists Bond 0; the earlier bid (User 1) must still win");
+          await clearingHouse.connect(users[0]).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target], [ask], ethers.ZeroAddress);
+          await increaseTime(301);
+          await clearingHouse.performSettlement();
+
+          expect(await bond.ownerOf(tokenId)).to.equal(users[1].address);
+          expect((await clearingHouse.orders(3)).active).to.equal(true);
+      });
+
+      it("Should move an amended bid behind equal bids", async function () {
+          await clearingHouse.connect(users[0]).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target], [ask], ethers.ZeroAddress);
+          await clearingHouse.connect(users[1]).submitBuyOrder(bond.target, tokenId, paymentToken.target, ask, ethers.ZeroAddress);
+          await clearingHouse.connect(users[2]).submitBuyOrder(bond.target, tokenId, paymentToken.target, ask, ethers.ZeroAddress);
+
+          await clearingHouse.connect(users[1]).amendBuyOrder(1, ask, ethers.ZeroAddress);
+
+          await increaseTime(301);
+          await clearingHouse.performSettlement();
+
+          expect(await bond.ownerOf(tokenId)).to.equal(users[2].address);
+      });
+
+      it("Should rank bids in different currencies against the seller's ask in each", async function () {
+          console.log("\n  [Narrative] Bids in Token A and Token B against a multicurrency ask (100 TKA or 200 TKB)");
+          const askB = ethers.parseUnits("200", 18);
+          await clearingHouse.connect(users[0]).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target, paymentTokenB.target], [ask, askB], ethers.ZeroAddress);
+
+          console.log("  [Step 1] User 1 bids 105 TKA (+5%), User 2 bids 220 TKB (+10%)");
+          await clearingHouse.connect(users[1]).submitBuyOrder(bond.target, tokenId, paymentToken.target, ethers.parseUnits("105", 18), ethers.ZeroAddress);
+          await clearingHouse.connect(users[2]).submitBuyOrder(bond.target, tokenId, paymentTokenB.target, ethers.parseUnits("220", 18), ethers.ZeroAddress);
+
+          await increaseTime(301);
+          await clearingHouse.performSettlement();
+
+          expect(await bond.ownerOf(tokenId)).to.equal(users[2].address);
+          const initial = ethers.parseUnits("10000", 18);
+          expect(await paymentTokenB.balanceOf(users[0].address)).to.equal(initial + ethers.parseUnits("220", 18));
+      });
+  });
+
   describe("Large Scale Simulation", function () {
       it("Should handle 50 random matched orders across 10 users correctly", async function () {
           // Increase timeout for this heavy test
@@ -198,7 +362,7 @@ describe("ClearingHouse Comprehensive", function () {
                   
                   // Mint
                   if (assetContract === bond) {
-                      await assetContract.mint(initialOwner.address, 1000, 500, 1234567890);
+                      await assetContract.mint(initialOwner.address, 1000, 500, 4102444800);
                   } else {
                       await assetContract.mint(initialOwner.address, "Common", 100);
                   }
@@ -0,0 +1,185 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import ClearingHouseModule from "../ignition/modules/ClearingHouse.js";
+
+const { ethers, ignition } = await network.connect();
+
+// Helper for time manipulation
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+describe("ClearingHouse Cross-Currency Netting", function () {
+  let owner: any;
+  let userU: any; // Receives one currency and owes another
+  let buyerX: any;
+  let sellerY: any;
+
+  // Contracts
+  let clearingHouse: any;
+  let bond: any;
+  let oracle: any;
+  let tokenA: any; // Base currency
+  let tokenB: any;
+
+  const initialBalance = ethers.parseUnits("1000", 18);
+  const reserve = ethers.parseUnits("1000", 18);
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    owner = signers[0];
+    userU = signers[1];
+    buyerX = signers[2];
+    sellerY = signers[3];
+  });
+
+  beforeEach(async function () {
+    bond = await ethers.deployContract("Bond");
+    tokenA = await ethers.deployContract("TokenA");
+    tokenB = await ethers.deployContract("TokenB");
+    oracle = await ethers.deployContract("MockPriceOracle");
+    ({ clearingHouse } = await ignition.deploy(ClearingHouseModule));
+
+    await clearingHouse.setPriceOracle(oracle.target, tokenA.target);
+    await oracle.setRate(tokenB.target, ethers.parseUnits("1", 18));
+
+    await bond.mint(userU.address, 1000, 500, 4102444800);   // Bond 0: U sells to X
+    await bond.mint(sellerY.address, 1000, 500, 4102444800); // Bond 1: Y sells to U
+
+    await tokenA.transfer(buyerX.address, initialBalance);
+    await tokenB.transfer(buyerX.address, initialBalance);
+    // U holds neither token
+    for (const user of [userU, buyerX, sellerY]) {
+      await bond.connect(user).setApprovalForAll(clearingHouse.target, true);
+      await tokenA.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+      await tokenB.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+    }
+  });
+
+  async function trade(sellToken: any, sellPrice: bigint, buyToken: any, buyPrice: bigint) {
+    // U sells Bond 0 to X in sellToken, and buys Bond 1 from Y in buyToken
+    await clearingHouse.connect(userU).submitMulticurrencySellOrder(bond.target, 0, [sellToken.target], [sellPrice], ethers.ZeroAddress);
+    await clearingHouse.connect(buyerX).submitBuyOrder(bond.target, 0, sellToken.target, sellPrice, ethers.ZeroAddress);
+    await clearingHouse.connect(sellerY).submitMulticurrencySellOrder(bond.target, 1, [buyToken.target], [buyPrice], ethers.ZeroAddress);
+    await clearingHouse.connect(userU).submitBuyOrder(bond.target, 1, buyToken.target, buyPrice, ethers.ZeroAddress);
+  }
+
+  async function depositReserve(token: any, amount: bigint) {
+    await token.approve(clearingHouse.target, amount);
+    await clearingHouse.depositConversionReserve(token.target, amount);
+  }
+
+  // Applies a timelocked setting: proposes the setter call, waits out the parameter delay and executes it
+  async function changeConfig(method: string, ...args: any[]) {
+    const change = clearingHouse.interface.encodeFunctionData(method, args);
+    await clearingHouse.proposeConfigChange(change);
+    await increaseTime(2 * 24 * 60 * 60);
+    await clearingHouse.executeConfigChange(change);
+  }
+
+  it("Should net a Token A receivable against a Token B payable", async function () {
+    const amount = ethers.parseUnits("100", 18);
+    await depositReserve(tokenB, reserve);
+    await clearingHouse.connect(userU).setCrossCurrencyNetting(true);
+    await trade(tokenA, amount, tokenB, amount);
+
+    await increaseTime(301);
+    await expect(clearingHouse.performSettlement())
+      .to.emit(clearingHouse, "ObligationConverted")
+      .withArgs(1, userU.address, tokenB.target, -amount, -amount)
+      .and.to.not.emit(clearingHouse, "SettlementFailed");
+
+    // U paid nothing and swapped bonds; Y was paid in Token B out of the reserve
+    expect(await bond.ownerOf(0)).to.equal(buyerX.address);
+    expect(await bond.ownerOf(1)).to.equal(userU.address);
+    expect(await tokenA.balanceOf(userU.address)).to.equal(0);
+    expect(await tokenB.balanceOf(sellerY.address)).to.equal(amount);
+
+    expect(await clearingHouse.conversionReserves(tokenB.target)).to.equal(reserve - amount);
+    expect(await clearingHouse.conversionReserves(tokenA.target)).to.equal(amount);
+    expect(await tokenA.balanceOf(clearingHouse.target)).to.equal(amount);
+    expect(await tokenB.balanceOf(clearingHouse.target)).to.equal(reserve - amount);
+  });
+
+  it("Should convert at the oracle rate less the haircut", async function () {
+    // 1 TKB = 2 TKA, 5% haircut: 100 TKB receivable is worth 190 TKA
+    await oracle.setRate(tokenB.target, ethers.parseUnits("2", 18));
+    await changeConfig("setHaircut", tokenB.target, 500);
+    await depositReserve(tokenA, reserve);
+    await clearingHouse.connect(userU).setCrossCurrencyNetting(true);
+    await trade(tokenB, ethers.parseUnits("100", 18), tokenA, ethers.parseUnits("150", 18));
+
+    await increaseTime(301);
+    await expect(clearingHouse.performSettlement())
+      .to.emit(clearingHouse, "ObligationConverted")
+      .withArgs(1, userU.address, tokenB.target, ethers.parseUnits("100", 18), ethers.parseUnits("190", 18));
+
+    expect(await tokenA.balanceOf(userU.address)).to.equal(ethers.parseUnits("40", 18));
+    expect(await tokenB.balanceOf(userU.address)).to.equal(0);
+    expect(await tokenA.balanceOf(sellerY.address)).to.equal(ethers.parseUnits("150", 18));
+    expect(await clearingHouse.conversionReserves(tokenA.target)).to.equal(reserve - ethers.parseUnits("190", 18));
+    expect(await clearingHouse.conversionReserves(tokenB.target)).to.equal(ethers.parseUnits("100", 18));
+  });
+
+  it("Should net per token for participants who did not opt in", async function () {
+    const amount = ethers.parseUnits("100", 18);
+    await depositReserve(tokenB, reserve);
+    await trade(tokenA, amount, tokenB, amount);
+
+    await increaseTime(301);
+    await expect(clearingHouse.performSettlement())
+      .to.emit(clearingHouse, "SettlementFailed")
+      .and.to.not.emit(clearingHouse, "ObligationConverted");
+
+    expect(await clearingHouse.conversionReserves(tokenB.target)).to.equal(reserve);
+  });
+
+  it("Should leave a balance unconverted when the reserve cannot cover it", async function () {
+    const amount = ethers.parseUnits("100", 18);
+    await depositReserve(tokenB, amount - 1n);
+    await clearingHouse.connect(userU).setCrossCurrencyNetting(true);
+    await trade(tokenA, amount, tokenB, amount);
+
+    await increaseTime(301);
+    await expect(clearingHouse.performSettlement())
+      .to.emit(clearingHouse, "SettlementFailed")
+      .and.to.not.emit(clearingHouse, "ObligationConverted");
+
+    expect(await clearingHouse.conversionReserves(tokenB.target)).to.equal(amount - 1n);
+    expect(await tokenB.balanceOf(clearingHouse.target)).to.equal(amount - 1n);
+  });
+
+  it("Should not convert under default isolation", async function () {
+    const amount = ethers.parseUnits("100", 18);
+    await depositReserve(tokenB, reserve);
+    await clearingHouse.setDefaultIsolation(true);
+    await clearingHouse.connect(userU).setCrossCurrencyNetting(true);
+    await trade(tokenA, amount, tokenB, amount);
+
+    await increaseTime(301);
+    await expect(clearingHouse.performSettlement())
+      .to.emit(clearingHouse, "PaymentDefault")
+      .and.to.not.emit(clearingHouse, "ObligationConverted");
+  });
+
+  it("Should restrict configuration and reserve withdrawal to the owner", async function () {
+    await expect(clearingHouse.connect(userU).setPriceOracle(oracle.target, tokenA.target))
+      .to.be.revertedWithCustomError(clearingHouse, "OwnableUnauthorizedAccount");
+    await expect(clearingHouse.connect(userU).proposeConfigChange(clearingHouse.interface.encodeFunctionData("setHaircut", [tokenB.target, 100])))
+      .to.be.revertedWithCustomError(clearingHouse, "OwnableUnauthorizedAccount");
+    await expect(clearingHouse.setHaircut(tokenB.target, 100)).to.be.revertedWith("Timelocked: propose the change");
+    await expect(changeConfig("setHaircut", tokenB.target, 10000)).to.be.revertedWith("Haircut too high");
+
+    await depositReserve(tokenB, reserve);
+    await expect(clearingHouse.connect(userU).withdrawConversionReserve(tokenB.target, reserve))
+      .to.be.revertedWithCustomError(clearingHouse, "OwnableUnauthorizedAccount");
+    await expect(clearingHouse.withdrawConversionReserve(tokenB.target, reserve + 1n)).to.be.revertedWith("Insufficient reserve");
+
+    const before = await tokenB.balanceOf(owner.address);
+    await expect(clearingHouse.withdrawConversionReserve(tokenB.target, reserve))
+      .to.emit(clearingHouse, "ConversionReserveWithdrawn")
+      .withArgs(tokenB.target, reserve);
+    expect(await tokenB.balanceOf(owner.address)).to.equal(before + reserve);
+  });
+});
@@ -0,0 +1,141 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import ClearingHouseModule from "../ignition/modules/ClearingHouse.js";
+
+const { ethers, ignition } = await network.connect();
+
+// Helper for time manipulation
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+// Mirrors ClearingHouseStorage.CycleStatus
+const CycleStatus = { None: 0n, Open: 1n, Settled: 2n, Failed: 3n };
+
+describe("ClearingHouse Cycle History", function () {
+  let users: any[] = [];
+
+  // Contracts
+  let clearingHouse: any;
+  let bond: any;
+  let paymentToken: any;
+
+  const price = ethers.parseUnits("100", 18);
+  const resalePrice = ethers.parseUnits("120", 18);
+  const initialBalance = ethers.parseUnits("1000", 18);
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    for (let i = 1; i <= 4; i++) users.push(signers[i]);
+  });
+
+  beforeEach(async function () {
+    bond = await ethers.deployContract("Bond");
+    paymentToken = await ethers.deployContract("TokenA");
+    ({ clearingHouse } = await ignition.deploy(ClearingHouseModule));
+
+    await bond.mint(users[0].address, 1000, 500, 4102444800); // Bond 0
+    await bond.mint(users[2].address, 1000, 500, 4102444800); // Bond 1
+    for (const user of users) {
+      await paymentToken.transfer(user.address, initialBalance);
+      await paymentToken.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+      await bond.connect(user).setApprovalForAll(clearingHouse.target, true);
+    }
+  });
+
+  async function sell(maker: any, tokenId: number, askPrice = price) {
+    await clearingHouse.connect(maker).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target], [askPrice], ethers.ZeroAddress);
+  }
+
+  async function buy(maker: any, tokenId: number, bidPrice = price, counterparty = ethers.ZeroAddress) {
+    await clearingHouse.connect(maker).submitBuyOrder(bond.target, tokenId, paymentToken.target, bidPrice, counterparty);
+  }
+
+  it("Should record the trades, participants and netting of a settled cycle", async function () {
+    const [sellerA, intermediaryB, buyerC] = users;
+    await sell(sellerA, 0);
+    await buy(intermediaryB, 0);
+    await sell(intermediaryB, 0, resalePrice);
+    await buy(buyerC, 0, resalePrice, intermediaryB.address);
+    await increaseTime(301);
+
+    await clearingHouse.performSettlement();
+    const closedAt = (await ethers.provider.getBlock("latest"))!.timestamp;
+    expect(await clearingHouse.settlementCycle()).to.equal(1);
+
+    const summary = await clearingHouse.cycleSummary(1);
+    expect(summary.status).to.equal(CycleStatus.Settled);
+    expect(summary.startedAt).to.equal(closedAt);
+    expect(summary.closedAt).to.equal(closedAt);
+    expect(summary.tradeCount).to.equal(2);
+    expect(summary.unwoundTradeCount).to.equal(0);
+    expect(summary.participantCount).to.equal(3);
+    expect(summary.defaultCount).to.equal(0);
+    expect(summary.failureReason).to.equal("");
+    expect(summary.tokens).to.deep.equal([paymentToken.target]);
+
+    // Only the last buyer pays: the intermediary's purchase is netted against their resale
+    const [gross, net] = await clearingHouse.cycleVolume(1, paymentToken.target);
+    expect(gross).to.equal(price + resalePrice);
+    expect(net).to.equal(resalePrice);
+  });
+
+  it("Should keep the status, defaults and failure reason of past cycles", async function () {
+    const [seller, buyer] = users;
+    await paymentToken.connect(buyer).approve(clearingHouse.target, 0);
+    await sell(seller, 0);
+    await buy(buyer, 0);
+    await increaseTime(301);
+    await clearingHouse.performSettlement();
+
+    // An empty cycle is recorded too
+    await increaseTime(301);
+    await paymentToken.connect(buyer).approve(clearingHouse.target, ethers.MaxUint256);
+    await clearingHouse.connect(buyer).cancelOrder(1);
+    await clearingHouse.performSettlement();
+
+    const failed = await clearingHouse.cycleSummary(1);
+    expect(failed.status).to.equal(CycleStatus.Failed);
+    expect(failed.failureReason).to.equal("Global Payment Failure");
+    expect(failed.defaultCount).to.equal(1);
+    expect(failed.tradeCount).to.equal(1);
+    const [gross, net] = await clearingHouse.cycleVolume(1, paymentToken.target);
+    expect(gross).to.equal(price);
+    expect(net).to.equal(price);
+
+    const empty = await clearingHouse.cycleSummary(2);
+    expect(empty.status).to.equal(CycleStatus.Settled);
+    expect(empty.tradeCount).to.equal(0);
+    expect(empty.participantCount).to.equal(0);
+    expect(empty.tokens).to.deep.equal([]);
+
+    expect((await clearingHouse.cycleSummary(3)).status).to.equal(CycleStatus.None);
+  });
+
+  it("Should count the trades unwound under default isolation", async function () {
+    const [sellerA, buyerB, sellerC, buyerD] = users;
+    await clearingHouse.setDefaultIsolation(true);
+    await paymentToken.connect(buyerD).approve(clearingHouse.target, 0);
+    await sell(sellerA, 0);
+    await buy(buyerB, 0);
+    await sell(sellerC, 1);
+    await buy(buyerD, 1);
+    await increaseTime(301);
+
+    await clearingHouse.startSettlement();
+    expect((await clearingHouse.cycleSummary(1)).status).to.equal(CycleStatus.Open);
+    await clearingHouse.advanceSettlement(100);
+
+    const summary = await clearingHouse.cycleSummary(1);
+    expect(summary.status).to.equal(CycleStatus.Settled);
+    expect(summary.tradeCount).to.equal(2);
+    expect(summary.unwoundTradeCount).to.equal(1);
+    expect(summary.defaultCount).to.equal(1);
+
+    // The unwound trade is no longer owed
+    const [gross, net] = await clearingHouse.cycleVolume(1, paymentToken.target);
+    expect(gross).to.equal(price * 2n);
+    expect(net).to.equal(price);
+  });
+});
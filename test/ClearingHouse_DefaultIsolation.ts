@@ -0,0 +1,223 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import ClearingHouseModule from "../ignition/modules/ClearingHouse.js";
+
+const { ethers, ignition } = await network.connect();
+
+// Helper for time manipulation
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+describe("ClearingHouse Default Isolation", function () {
+  let owner: any;
+  let users: any[] = [];
+
+  // Contracts
+  let clearingHouse: any;
+  let bond: any;
+  let paymentToken: any;
+  let paymentTokenB: any;
+
+  const price = ethers.parseUnits("100", 18);
+  const initialBalance = ethers.parseUnits("1000", 18);
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    owner = signers[0];
+    for (let i = 1; i <= 6; i++) users.push(signers[i]);
+  });
+
+  beforeEach(async function () {
+    bond = await ethers.deployContract("Bond");
+    paymentToken = await ethers.deployContract("TokenA");
+    paymentTokenB = await ethers.deployContract("TokenB");
+    ({ clearingHouse } = await ignition.deploy(ClearingHouseModule));
+    await clearingHouse.setDefaultIsolation(true);
+
+    // Every user approves everything; only some are funded per test
+    for (const user of users) {
+      await bond.connect(user).setApprovalForAll(clearingHouse.target, true);
+      await paymentToken.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+      await paymentTokenB.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+    }
+  });
+
+  async function sell(seller: any, tokenId: number, token: any, amount: bigint) {
+    await clearingHouse.connect(seller).submitMulticurrencySellOrder(bond.target, tokenId, [token.target], [amount], ethers.ZeroAddress);
+  }
+
+  async function buy(buyer: any, tokenId: number, token: any, amount: bigint, counterparty = ethers.ZeroAddress) {
+    await clearingHouse.connect(buyer).submitBuyOrder(bond.target, tokenId, token.target, amount, counterparty);
+  }
+
+  it("Should only be configurable by the owner", async function () {
+    await expect(clearingHouse.connect(users[0]).setDefaultIsolation(false))
+      .to.be.revertedWithCustomError(clearingHouse, "OwnableUnauthorizedAccount");
+
+    await expect(clearingHouse.setDefaultIsolation(false))
+      .to.emit(clearingHouse, "DefaultIsolationSet")
+      .withArgs(false);
+    expect(await clearingHouse.defaultIsolationEnabled()).to.equal(false);
+  });
+
+  it("Should settle other trades when one buyer defaults", async function () {
+    const [sellerA, buyerB, sellerC, buyerD] = users;
+    await bond.mint(sellerA.address, 1000, 500, 4102444800); // Bond 0
+    await bond.mint(sellerC.address, 1000, 500, 4102444800); // Bond 1
+    await paymentToken.transfer(buyerB.address, initialBalance);
+    // buyerD is not funded
+
+    await sell(sellerA, 0, paymentToken, price);
+    await buy(buyerB, 0, paymentToken, price);
+    await sell(sellerC, 1, paymentToken, price);
+    await buy(buyerD, 1, paymentToken, price);
+
+    await increaseTime(301);
+    await expect(clearingHouse.performSettlement())
+      .to.emit(clearingHouse, "PaymentDefault")
+      .withArgs(1, buyerD.address, paymentToken.target, price)
+      .and.to.not.emit(clearingHouse, "SettlementFailed");
+
+    // A -> B settled
+    expect(await bond.ownerOf(0)).to.equal(buyerB.address);
+    expect(await paymentToken.balanceOf(sellerA.address)).to.equal(price);
+    expect(await paymentToken.balanceOf(buyerB.address)).to.equal(initialBalance - price);
+
+    // C -> D unwound: asset stays locked, failure counted as for a failed cycle
+    expect(await bond.ownerOf(1)).to.equal(clearingHouse.target);
+    const sellC = await clearingHouse.orders(2);
+    expect(sellC.active).to.equal(true);
+    expect(sellC.isLocked).to.equal(true);
+    expect(sellC.failedSettlementCycles).to.equal(1);
+    expect(await paymentToken.balanceOf(sellerC.address)).to.equal(0);
+  });
+
+  it("Should unwind the later links of a chain that depend on the defaulter", async function () {
+    const [sellerA, intermediaryB, buyerC] = users;
+    await bond.mint(sellerA.address, 1000, 500, 4102444800); // Bond 0
+    await paymentToken.transfer(buyerC.address, initialBalance);
+    // B buys at 100 and sells at 90, so B owes 10 net and cannot pay it
+
+    const resalePrice = ethers.parseUnits("90", 18);
+    await sell(sellerA, 0, paymentToken, price);
+    // Buying from A only, so B's bid does not cross B's own cheaper ask
+    await buy(intermediaryB, 0, paymentToken, price, sellerA.address);
+    await sell(intermediaryB, 0, paymentToken, resalePrice);
+    await buy(buyerC, 0, paymentToken, resalePrice);
+
+    await increaseTime(301);
+    await expect(clearingHouse.performSettlement())
+      .to.emit(clearingHouse, "PaymentDefault")
+      .withArgs(1, intermediaryB.address, paymentToken.target, price - resalePrice);
+
+    // Both links unwound: A's asset stays locked, C keeps their cash
+    expect(await bond.ownerOf(0)).to.equal(clearingHouse.target);
+    expect(await paymentToken.balanceOf(buyerC.address)).to.equal(initialBalance);
+    expect(await paymentToken.balanceOf(sellerA.address)).to.equal(0);
+    expect(await paymentToken.balanceOf(clearingHouse.target)).to.equal(0);
+    expect((await clearingHouse.orders(3)).active).to.equal(true);
+  });
+
+  it("Should deliver the asset to the last paying link of a chain", async function () {
+    const [sellerA, intermediaryB, buyerC] = users;
+    await bond.mint(sellerA.address, 1000, 500, 4102444800); // Bond 0
+    await paymentToken.transfer(intermediaryB.address, initialBalance);
+    // C is not funded
+
+    await sell(sellerA, 0, paymentToken, price);
+    await buy(intermediaryB, 0, paymentToken, price, sellerA.address);
+    await sell(intermediaryB, 0, paymentToken, price);
+    await buy(buyerC, 0, paymentToken, price);
+
+    await increaseTime(301);
+    await clearingHouse.performSettlement();
+
+    // A -> B settles on B's own cash, B -> C is unwound
+    expect(await bond.ownerOf(0)).to.equal(intermediaryB.address);
+    expect(await paymentToken.balanceOf(sellerA.address)).to.equal(price);
+    expect(await paymentToken.balanceOf(intermediaryB.address)).to.equal(initialBalance - price);
+
+    expect((await clearingHouse.orders(0)).active).to.equal(false);
+    expect((await clearingHouse.orders(1)).active).to.equal(false);
+    // B's resale order stays open for the next cycle
+    expect((await clearingHouse.orders(2)).active).to.equal(true);
+    expect((await clearingHouse.orders(3)).active).to.equal(true);
+  });
+
+  it("Should cascade to users whose obligations relied on a defaulter", async function () {
+    const [sellerF, userD, buyerE, sellerX, buyerY] = users;
+    await bond.mint(userD.address, 1000, 500, 4102444800);  // Bond 0: D sells to E
+    await bond.mint(sellerF.address, 1000, 500, 4102444800); // Bond 1: F sells to D
+    await bond.mint(sellerX.address, 1000, 500, 4102444800); // Bond 2: X sells to Y
+    await paymentToken.transfer(buyerY.address, initialBalance);
+    // D nets to zero and is unfunded, E is unfunded
+
+    await sell(userD, 0, paymentToken, price);
+    await buy(buyerE, 0, paymentToken, price);
+    await sell(sellerF, 1, paymentToken, price);
+    await buy(userD, 1, paymentToken, price);
+    await sell(sellerX, 2, paymentToken, price);
+    await buy(buyerY, 2, paymentToken, price);
+
+    await increaseTime(301);
+    await expect(clearingHouse.performSettlement())
+      .to.emit(clearingHouse, "PaymentDefault")
+      .withArgs(1, buyerE.address, paymentToken.target, price)
+      .and.to.emit(clearingHouse, "PaymentDefault")
+      .withArgs(1, userD.address, paymentToken.target, price);
+
+    expect(await bond.ownerOf(0)).to.equal(clearingHouse.target);
+    expect(await bond.ownerOf(1)).to.equal(clearingHouse.target);
+    expect(await bond.ownerOf(2)).to.equal(buyerY.address);
+    expect(await paymentToken.balanceOf(sellerX.address)).to.equal(price);
+    expect(await paymentToken.balanceOf(clearingHouse.target)).to.equal(0);
+  });
+
+  it("Should refund what a defaulter already paid in another token", async function () {
+    const [sellerA, buyerP, sellerC] = users;
+    await bond.mint(sellerA.address, 1000, 500, 4102444800); // Bond 0 for Token A
+    await bond.mint(sellerC.address, 1000, 500, 4102444800); // Bond 1 for Token B
+    await paymentToken.transfer(buyerP.address, initialBalance);
+    // P holds no Token B
+
+    await sell(sellerA, 0, paymentToken, price);
+    await buy(buyerP, 0, paymentToken, price);
+    await sell(sellerC, 1, paymentTokenB, price);
+    await buy(buyerP, 1, paymentTokenB, price);
+
+    await increaseTime(301);
+    await expect(clearingHouse.performSettlement())
+      .to.emit(clearingHouse, "PaymentDefault")
+      .withArgs(1, buyerP.address, paymentTokenB.target, price);
+
+    expect(await paymentToken.balanceOf(buyerP.address)).to.equal(initialBalance);
+    expect(await paymentToken.balanceOf(clearingHouse.target)).to.equal(0);
+    expect(await bond.ownerOf(0)).to.equal(clearingHouse.target);
+    expect(await bond.ownerOf(1)).to.equal(clearingHouse.target);
+  });
+
+  it("Should fail the whole cycle when isolation is disabled", async function () {
+    const [sellerA, buyerB, sellerC, buyerD] = users;
+    await clearingHouse.setDefaultIsolation(false);
+    await bond.mint(sellerA.address, 1000, 500, 4102444800);
+    await bond.mint(sellerC.address, 1000, 500, 4102444800);
+    await paymentToken.transfer(buyerB.address, initialBalance);
+
+    await sell(sellerA, 0, paymentToken, price);
+    await buy(buyerB, 0, paymentToken, price);
+    await sell(sellerC, 1, paymentToken, price);
+    await buy(buyerD, 1, paymentToken, price);
+
+    await increaseTime(301);
+    await expect(clearingHouse.performSettlement())
+      .to.emit(clearingHouse, "SettlementFailed")
+      .withArgs(1, "Global Payment Failure")
+      .and.to.emit(clearingHouse, "PaymentDefault")
+      .withArgs(1, buyerD.address, paymentToken.target, price);
+
+    expect(await bond.ownerOf(0)).to.equal(clearingHouse.target);
+    expect(await paymentToken.balanceOf(buyerB.address)).to.equal(initialBalance);
+  });
+});
@@ -0,0 +1,282 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import ClearingHouseModule from "../ignition/modules/ClearingHouse.js";
+
+const { ethers, ignition } = await network.connect();
+
+// Helper for time manipulation
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+// Mirrors ClearingHouseStorage.Side / AssetType
+const Side = { Buy: 0, Sell: 1 };
+const AssetType = { ERC721: 0, ERC1155: 1, ERC20: 2 };
+
+describe("ClearingHouse Emergency Controls", function () {
+  let owner: any;
+  let users: any[] = [];
+  let recipient: any;
+
+  // Contracts
+  let clearingHouse: any;
+  let bond: any;
+  let tranche: any;
+  let shares: any;
+  let paymentToken: any;
+
+  const price = ethers.parseUnits("100", 18);
+  const initialBalance = ethers.parseUnits("10000", 18);
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    owner = signers[0];
+    for (let i = 1; i <= 3; i++) users.push(signers[i]);
+    recipient = signers[4];
+  });
+
+  beforeEach(async function () {
+    bond = await ethers.deployContract("Bond");
+    tranche = await ethers.deployContract("BondTranche");
+    shares = await ethers.deployContract("TokenC");
+    paymentToken = await ethers.deployContract("TokenA");
+    ({ clearingHouse } = await ignition.deploy(ClearingHouseModule));
+
+    await bond.mint(users[0].address, 1000, 500, 4102444800);       // Bond 0
+    await tranche.issue(users[0].address, 100, 1000, 500, 4102444800); // Tranche 0
+    await shares.transfer(users[0].address, 500);
+    for (const user of users) {
+      await paymentToken.transfer(user.address, initialBalance);
+      await paymentToken.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+      await bond.connect(user).setApprovalForAll(clearingHouse.target, true);
+      await tranche.connect(user).setApprovalForAll(clearingHouse.target, true);
+      await shares.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+    }
+  });
+
+  function request(side: number, asset: any, assetType: number, tokenId: number, quantity: number, unitPrice = price) {
+    return {
+      side,
+      asset: asset.target,
+      assetType,
+      tokenId,
+      quantity,
+      paymentTokens: [paymentToken.target],
+      prices: [unitPrice],
+      counterparty: ethers.ZeroAddress,
+      expiresAt: 0,
+      goodForCycles: 0,
+    };
+  }
+
+  async function sellBond(seller: any) {
+    await clearingHouse.connect(seller).submitMulticurrencySellOrder(bond.target, 0, [paymentToken.target], [price], ethers.ZeroAddress);
+  }
+
+  async function buyBond(buyer: any) {
+    await clearingHouse.connect(buyer).submitBuyOrder(bond.target, 0, paymentToken.target, price, ethers.ZeroAddress);
+  }
+
+  // Applies a timelocked setting: proposes the setter call, waits out the parameter delay and executes it
+  async function changeConfig(method: string, ...args: any[]) {
+    const change = clearingHouse.interface.encodeFunctionData(method, args);
+    await clearingHouse.proposeConfigChange(change);
+    await increaseTime(2 * 24 * 60 * 60);
+    await clearingHouse.executeConfigChange(change);
+  }
+
+  it("Should pause and resume order entry", async function () {
+    const [seller, buyer] = users;
+    await sellBond(seller);
+    await expect(clearingHouse.connect(seller).setOrderEntryPaused(true))
+      .to.be.revertedWithCustomError(clearingHouse, "OwnableUnauthorizedAccount");
+    await expect(clearingHouse.setOrderEntryPaused(true))
+      .to.emit(clearingHouse, "OrderEntryPausedSet")
+      .withArgs(true);
+
+    await expect(buyBond(buyer)).to.be.revertedWith("Order entry paused");
+    await expect(clearingHouse.connect(buyer).submitOrder(request(Side.Buy, tranche, AssetType.ERC1155, 0, 1)))
+      .to.be.revertedWith("Order entry paused");
+    await expect(clearingHouse.connect(seller).amendSellOrder(0, [paymentToken.target], [price * 2n], ethers.ZeroAddress))
+      .to.be.revertedWith("Order entry paused");
+
+    // Cancellation and settlement continue
+    await clearingHouse.connect(seller).cancelOrder(0);
+    await increaseTime(301);
+    await clearingHouse.performSettlement();
+
+    await clearingHouse.setOrderEntryPaused(false);
+    await sellBond(seller);
+  });
+
+  it("Should pause settlement, including a cycle in progress", async function () {
+    const [seller, buyer] = users;
+    await sellBond(seller);
+    await buyBond(buyer);
+    await increaseTime(301);
+
+    await expect(clearingHouse.setSettlementPaused(true))
+      .to.emit(clearingHouse, "SettlementPausedSet")
+      .withArgs(true);
+    await expect(clearingHouse.performSettlement()).to.be.revertedWith("Settlement paused");
+    await expect(clearingHouse.startSettlement()).to.be.revertedWith("Settlement paused");
+
+    await clearingHouse.setSettlementPaused(false);
+    await clearingHouse.startSettlement();
+    await clearingHouse.advanceSettlement(1);
+    await clearingHouse.setSettlementPaused(true);
+    await expect(clearingHouse.advanceSettlement(100)).to.be.revertedWith("Settlement paused");
+
+    // Order entry is unaffected
+    await clearingHouse.connect(users[2]).submitBuyOrder(bond.target, 1, paymentToken.target, price, ethers.ZeroAddress);
+
+    await clearingHouse.setSettlementPaused(false);
+    await clearingHouse.advanceSettlement(100);
+    expect(await bond.ownerOf(0)).to.equal(buyer.address);
+  });
+
+  it("Should wind down and leave no asset or token in the contract", async function () {
+    const [seller, buyer, other] = users;
+    await changeConfig("setFeeRates", 10, 10);
+    await clearingHouse.setFeeRecipient(recipient.address);
+    await paymentToken.approve(clearingHouse.target, price);
+    await clearingHouse.depositConversionReserve(paymentToken.target, price);
+
+    // Tranche: 40 of 100 units settle, 60 stay locked; proceeds credited to the seller's cash account
+    await clearingHouse.connect(seller).setSettleToCashAccount(true);
+    await clearingHouse.connect(seller).submitOrder(request(Side.Sell, tranche, AssetType.ERC1155, 0, 100));
+    await clearingHouse.connect(buyer).submitOrder(request(Side.Buy, tranche, AssetType.ERC1155, 0, 40));
+    // Shares: listed with no buyer
+    await clearingHouse.connect(seller).submitOrder(request(Side.Sell, shares, AssetType.ERC20, 0, 500, 1n));
+    await clearingHouse.connect(other).depositCash(paymentToken.target, price);
+    await increaseTime(301);
+    await clearingHouse.performSettlement();
+
+    // Bond and tranche remainder: the buyer fails to pay, so both stay locked
+    await sellBond(seller);
+    await buyBond(buyer);
+    await clearingHouse.connect(buyer).submitOrder(request(Side.Buy, tranche, AssetType.ERC1155, 0, 60));
+    await paymentToken.connect(buyer).approve(clearingHouse.target, 0);
+    await increaseTime(301);
+    await clearingHouse.performSettlement();
+
+    expect(await bond.ownerOf(0)).to.equal(clearingHouse.target);
+    expect(await tranche.balanceOf(clearingHouse.target, 0)).to.equal(60);
+    expect(await clearingHouse.accruedFees(paymentToken.target)).to.be.greaterThan(0);
+
+    await expect(clearingHouse.windDown(10)).to.be.revertedWith("Not winding down");
+    await expect(clearingHouse.connect(other).startWindDown())
+      .to.be.revertedWithCustomError(clearingHouse, "OwnableUnauthorizedAccount");
+    await expect(clearingHouse.startWindDown()).to.emit(clearingHouse, "WindDownStarted");
+    await expect(clearingHouse.startWindDown()).to.be.revertedWith("Already winding down");
+    await expect(buyBond(other)).to.be.revertedWith("Order entry paused");
+    await increaseTime(301);
+    await expect(clearingHouse.performSettlement()).to.be.revertedWith("Settlement paused");
+
+    // Bounded batches, callable by anyone
+    let batches = 0;
+    let done = false;
+    while (!done) {
+      done = await clearingHouse.connect(other).windDown.staticCall(2);
+      const tx = clearingHouse.connect(other).windDown(2);
+      if (done) {
+        await expect(tx).to.emit(clearingHouse, "WindDownCompleted");
+      } else {
+        await tx;
+      }
+      batches++;
+    }
+    expect(batches).to.be.greaterThan(1);
+
+    expect(await clearingHouse.activeOrderCount()).to.equal(0);
+    expect(await bond.ownerOf(0)).to.equal(seller.address);
+    expect(await tranche.balanceOf(seller.address, 0)).to.equal(60);
+    expect(await shares.balanceOf(seller.address)).to.equal(500);
+    expect(await paymentToken.balanceOf(other.address)).to.equal(initialBalance);
+
+    expect(await bond.balanceOf(clearingHouse.target)).to.equal(0);
+    expect(await tranche.balanceOf(clearingHouse.target, 0)).to.equal(0);
+    expect(await shares.balanceOf(clearingHouse.target)).to.equal(0);
+    expect(await paymentToken.balanceOf(clearingHouse.target)).to.equal(0);
+    expect(await paymentToken.balanceOf(recipient.address)).to.be.greaterThan(0);
+    expect(await clearingHouse.cashBalances(seller.address, paymentToken.target)).to.equal(0);
+
+    // Nothing left to do
+    expect(await clearingHouse.windDown.staticCall(1)).to.equal(true);
+  });
+
+  it("Should wind down past transfers that revert and leave them to be claimed", async function () {
+    const [seller, holder, buyer] = users;
+    const token = await ethers.deployContract("MockRevertingToken");
+    for (const user of users) {
+      await token.transfer(user.address, initialBalance);
+      await token.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+    }
+    await token.approve(clearingHouse.target, price);
+    await clearingHouse.depositConversionReserve(token.target, price);
+    await clearingHouse.connect(holder).depositCash(token.target, price);
+    await clearingHouse.connect(buyer).depositCash(token.target, price);
+
+    // The token as an asset: the buyer fails to pay, so it stays locked
+    await clearingHouse.connect(seller).submitOrder(request(Side.Sell, token, AssetType.ERC20, 0, 500, 1n));
+    await clearingHouse.connect(buyer).submitOrder(request(Side.Buy, token, AssetType.ERC20, 0, 500, 1n));
+    await paymentToken.connect(buyer).approve(clearingHouse.target, 0);
+    await increaseTime(301);
+    await clearingHouse.performSettlement();
+    expect((await clearingHouse.orders(0)).isLocked).to.equal(true);
+
+    // Transfers to the seller, one cash account holder and the owner revert
+    for (const account of [seller, holder, owner]) await token.setBlocked(account.address, true);
+    await clearingHouse.startWindDown();
+    await expect(clearingHouse.windDown(100))
+      .to.emit(clearingHouse, "AssetReturnFailed").withArgs(0, token.target, 0)
+      .and.to.emit(clearingHouse, "WindDownTransferFailed").withArgs(holder.address, token.target, price)
+      .and.to.emit(clearingHouse, "WindDownTransferFailed").withArgs(owner.address, token.target, price)
+      .and.to.emit(clearingHouse, "CashWithdrawn").withArgs(buyer.address, token.target, price)
+      .and.to.emit(clearingHouse, "WindDownCompleted");
+
+    expect(await clearingHouse.activeOrderCount()).to.equal(0);
+    expect(await token.balanceOf(buyer.address)).to.equal(initialBalance);
+    expect(await clearingHouse.cashBalances(holder.address, token.target)).to.equal(0);
+    expect(await clearingHouse.unreturnedBalances(holder.address, token.target)).to.equal(price);
+    expect(await clearingHouse.unreturnedBalances(owner.address, token.target)).to.equal(price);
+    expect(await clearingHouse.conversionReserves(token.target)).to.equal(0);
+    const order = await clearingHouse.orders(0);
+    expect(order.active).to.equal(false);
+    expect(order.isLocked).to.equal(true);
+
+    // The holder claims to another address, the owner once unblocked
+    await expect(clearingHouse.connect(holder).claimUnreturnedBalance(token.target, holder.address))
+      .to.be.revertedWith("Recipient blocked");
+    await expect(clearingHouse.connect(holder).claimUnreturnedBalance(token.target, recipient.address))
+      .to.emit(clearingHouse, "UnreturnedBalanceClaimed").withArgs(holder.address, token.target, recipient.address, price);
+    await expect(clearingHouse.connect(holder).claimUnreturnedBalance(token.target, recipient.address))
+      .to.be.revertedWith("Nothing to claim");
+    await token.setBlocked(owner.address, false);
+    await clearingHouse.claimUnreturnedBalance(token.target, owner.address);
+
+    // Only the seller can claim the asset
+    await expect(clearingHouse.connect(buyer).claimLockedAsset(0, buyer.address)).to.be.revertedWith("Not order maker");
+    await token.setBlocked(seller.address, false);
+    await expect(clearingHouse.connect(seller).claimLockedAsset(0, seller.address))
+      .to.emit(clearingHouse, "AssetUnlocked").withArgs(0, token.target, 0);
+    await expect(clearingHouse.connect(seller).claimLockedAsset(0, seller.address)).to.be.revertedWith("Nothing to claim");
+
+    expect(await token.balanceOf(seller.address)).to.equal(initialBalance);
+    expect(await token.balanceOf(recipient.address)).to.equal(price);
+    expect(await token.balanceOf(clearingHouse.target)).to.equal(0);
+  });
+
+  it("Should not start wind-down during a cycle", async function () {
+    const [seller, buyer] = users;
+    await sellBond(seller);
+    await buyBond(buyer);
+    await increaseTime(301);
+    await clearingHouse.startSettlement();
+
+    await expect(clearingHouse.startWindDown()).to.be.revertedWith("Settlement in progress");
+    await clearingHouse.advanceSettlement(100);
+    await clearingHouse.startWindDown();
+  });
+});
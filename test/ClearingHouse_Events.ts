@@ -0,0 +1,108 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import ClearingHouseModule from "../ignition/modules/ClearingHouse.js";
+
+const { ethers, ignition } = await network.connect();
+
+// Helper for time manipulation
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+// Mirrors ClearingHouseStorage.Side
+const Side = { Buy: 0, Sell: 1 };
+
+describe("ClearingHouse Settlement Events", function () {
+  let users: any[] = [];
+
+  // Contracts
+  let clearingHouse: any;
+  let bond: any;
+  let tokenA: any;
+  let tokenB: any;
+
+  const price = ethers.parseUnits("100", 18);
+  const resalePrice = ethers.parseUnits("120", 18);
+  const initialBalance = ethers.parseUnits("1000", 18);
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    for (let i = 1; i <= 3; i++) users.push(signers[i]);
+  });
+
+  beforeEach(async function () {
+    bond = await ethers.deployContract("Bond");
+    tokenA = await ethers.deployContract("TokenA");
+    tokenB = await ethers.deployContract("TokenB");
+    ({ clearingHouse } = await ignition.deploy(ClearingHouseModule));
+
+    await bond.mint(users[0].address, 1000, 500, 4102444800); // Bond 0
+    for (const user of users) {
+      for (const token of [tokenA, tokenB]) {
+        await token.transfer(user.address, initialBalance);
+        await token.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+      }
+      await bond.connect(user).setApprovalForAll(clearingHouse.target, true);
+    }
+  });
+
+  it("Should publish the payment terms of placed orders", async function () {
+    const [seller, buyer] = users;
+    await expect(clearingHouse.connect(seller).submitMulticurrencySellOrder(bond.target, 0, [tokenA.target, tokenB.target], [price, resalePrice], ethers.ZeroAddress))
+      .to.emit(clearingHouse, "OrderPlaced")
+      .withArgs(0, seller.address, bond.target, 0, Side.Sell, [tokenA.target, tokenB.target], [price, resalePrice], ethers.ZeroAddress);
+    await expect(clearingHouse.connect(buyer).submitBuyOrder(bond.target, 0, tokenA.target, price, seller.address))
+      .to.emit(clearingHouse, "OrderPlaced")
+      .withArgs(1, buyer.address, bond.target, 0, Side.Buy, [tokenA.target], [price], seller.address);
+    await expect(clearingHouse.connect(buyer).submitMulticurrencyBuyOrder(bond.target, 0, [tokenB.target, tokenA.target], [resalePrice, price], ethers.ZeroAddress))
+      .to.emit(clearingHouse, "OrderPlaced")
+      .withArgs(2, buyer.address, bond.target, 0, Side.Buy, [tokenB.target, tokenA.target], [resalePrice, price], ethers.ZeroAddress);
+  });
+
+  it("Should report the trades, obligations, cash movements and deliveries of a cycle", async function () {
+    const [sellerA, intermediaryB, buyerC] = users;
+    await clearingHouse.connect(sellerA).submitMulticurrencySellOrder(bond.target, 0, [tokenA.target], [price], ethers.ZeroAddress);
+    await clearingHouse.connect(intermediaryB).submitBuyOrder(bond.target, 0, tokenA.target, price, ethers.ZeroAddress);
+    await clearingHouse.connect(intermediaryB).submitMulticurrencySellOrder(bond.target, 0, [tokenA.target], [resalePrice], ethers.ZeroAddress);
+    await clearingHouse.connect(buyerC).submitBuyOrder(bond.target, 0, tokenA.target, resalePrice, intermediaryB.address);
+    await increaseTime(301);
+
+    const tx = clearingHouse.performSettlement();
+    await expect(tx).to.emit(clearingHouse, "TradeMatched").withArgs(1, 1, 0, tokenA.target, price, 1);
+    await expect(tx).to.emit(clearingHouse, "TradeMatched").withArgs(1, 3, 2, tokenA.target, resalePrice, 1);
+    await expect(tx).to.emit(clearingHouse, "NetObligation").withArgs(1, sellerA.address, tokenA.target, price);
+    await expect(tx).to.emit(clearingHouse, "NetObligation").withArgs(1, intermediaryB.address, tokenA.target, resalePrice - price);
+    await expect(tx).to.emit(clearingHouse, "NetObligation").withArgs(1, buyerC.address, tokenA.target, -resalePrice);
+    await expect(tx).to.emit(clearingHouse, "CashCollected").withArgs(1, buyerC.address, tokenA.target, resalePrice);
+    await expect(tx).to.emit(clearingHouse, "CashDistributed").withArgs(1, sellerA.address, tokenA.target, price);
+    await expect(tx).to.emit(clearingHouse, "CashDistributed").withArgs(1, intermediaryB.address, tokenA.target, resalePrice - price);
+    await expect(tx).to.emit(clearingHouse, "AssetDelivered").withArgs(1, 3, buyerC.address, bond.target, 0, 1);
+    await expect(tx).to.emit(clearingHouse, "SettlementCompleted").withArgs(1, anyTimestamp);
+
+    // The intermediary passes the bond on: it is only delivered to the last buyer
+    const receipt = await (await tx).wait();
+    const delivered = receipt.logs
+      .map((log: any) => clearingHouse.interface.parseLog(log))
+      .filter((event: any) => event?.name === "AssetDelivered");
+    expect(delivered.length).to.equal(1);
+  });
+
+  it("Should report who defaulted in a failed cycle", async function () {
+    const [seller, buyer] = users;
+    await tokenA.connect(buyer).approve(clearingHouse.target, 0);
+    await clearingHouse.connect(seller).submitMulticurrencySellOrder(bond.target, 0, [tokenA.target], [price], ethers.ZeroAddress);
+    await clearingHouse.connect(buyer).submitBuyOrder(bond.target, 0, tokenA.target, price, ethers.ZeroAddress);
+    await increaseTime(301);
+
+    const tx = clearingHouse.performSettlement();
+    await expect(tx).to.emit(clearingHouse, "PaymentDefault").withArgs(1, buyer.address, tokenA.target, price);
+    await expect(tx).to.emit(clearingHouse, "SettlementFailed").withArgs(1, "Global Payment Failure");
+    await expect(tx).to.not.emit(clearingHouse, "CashCollected");
+    await expect(tx).to.not.emit(clearingHouse, "AssetDelivered");
+  });
+});
+
+function anyTimestamp(value: bigint) {
+  return value > 0n;
+}
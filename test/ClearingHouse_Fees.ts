@@ -0,0 +1,227 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import ClearingHouseModule from "../ignition/modules/ClearingHouse.js";
+
+const { ethers, ignition } = await network.connect();
+
+// Helper for time manipulation
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+describe("ClearingHouse Fees", function () {
+  let owner: any;
+  let users: any[] = [];
+  let recipient: any;
+
+  // Contracts
+  let clearingHouse: any;
+  let bond: any;
+  let paymentToken: any;
+
+  const initialBalance = ethers.parseUnits("1000", 18);
+  const price = ethers.parseUnits("100", 18);
+  const resalePrice = ethers.parseUnits("120", 18);
+
+  // 10 bps maker, 30 bps taker
+  const makerBps = 10n;
+  const takerBps = 30n;
+  const fee = (value: bigint, bps: bigint) => value * bps / 10000n;
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    owner = signers[0];
+    for (let i = 1; i <= 3; i++) users.push(signers[i]);
+    recipient = signers[4];
+  });
+
+  beforeEach(async function () {
+    bond = await ethers.deployContract("Bond");
+    paymentToken = await ethers.deployContract("TokenA");
+    ({ clearingHouse } = await ignition.deploy(ClearingHouseModule));
+
+    await changeConfig("setFeeRates", makerBps, takerBps);
+    await clearingHouse.setFeeRecipient(recipient.address);
+
+    await bond.mint(users[0].address, 1000, 500, 4102444800); // Bond 0
+    for (const user of users) {
+      await paymentToken.transfer(user.address, initialBalance);
+      await paymentToken.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+      await bond.connect(user).setApprovalForAll(clearingHouse.target, true);
+    }
+  });
+
+  async function sell(maker: any, askPrice = price) {
+    await clearingHouse.connect(maker).submitMulticurrencySellOrder(bond.target, 0, [paymentToken.target], [askPrice], ethers.ZeroAddress);
+  }
+
+  async function buy(maker: any, bidPrice = price, counterparty = ethers.ZeroAddress) {
+    await clearingHouse.connect(maker).submitBuyOrder(bond.target, 0, paymentToken.target, bidPrice, counterparty);
+  }
+
+  // Opens a cycle and runs its matching phase
+  async function match() {
+    await increaseTime(301);
+    await clearingHouse.startSettlement();
+    await clearingHouse.advanceSettlement(1);
+  }
+
+  async function netBalances() {
+    return Promise.all(users.map((u) => clearingHouse.netBalanceOf(u.address, paymentToken.target)));
+  }
+
+  // Applies a timelocked setting: proposes the setter call, waits out the parameter delay and executes it
+  async function changeConfig(method: string, ...args: any[]) {
+    const change = clearingHouse.interface.encodeFunctionData(method, args);
+    await clearingHouse.proposeConfigChange(change);
+    await increaseTime(2 * 24 * 60 * 60);
+    await clearingHouse.executeConfigChange(change);
+  }
+
+  it("Should charge the resting order the maker rate and the later order the taker rate", async function () {
+    const [seller, buyer] = users;
+    await sell(seller); // Maker
+    await buy(buyer);   // Taker
+    await match();
+
+    const [sellerNet, buyerNet] = await netBalances();
+    expect(sellerNet).to.equal(price - fee(price, makerBps));
+    expect(buyerNet).to.equal(-(price + fee(price, takerBps)));
+    expect(await clearingHouse.cycleFees(paymentToken.target)).to.equal(fee(price, makerBps) + fee(price, takerBps));
+
+    await clearingHouse.advanceSettlement(100);
+    expect(await paymentToken.balanceOf(seller.address)).to.equal(initialBalance + sellerNet);
+    expect(await paymentToken.balanceOf(buyer.address)).to.equal(initialBalance + buyerNet);
+    expect(await clearingHouse.accruedFees(paymentToken.target)).to.equal(fee(price, makerBps) + fee(price, takerBps));
+    expect(await paymentToken.balanceOf(clearingHouse.target)).to.equal(fee(price, makerBps) + fee(price, takerBps));
+    expect(await clearingHouse.cycleFees(paymentToken.target)).to.equal(0);
+  });
+
+  it("Should charge an intermediary for both legs of a chain", async function () {
+    const [sellerA, intermediaryB, buyerC] = users;
+    await sell(sellerA);                                       // Leg 1 maker
+    await buy(intermediaryB);                                  // Leg 1 taker
+    await sell(intermediaryB, resalePrice);                    // Leg 2 maker
+    await buy(buyerC, resalePrice, intermediaryB.address);     // Leg 2 taker
+    await match();
+
+    const [netA, netB, netC] = await netBalances();
+    expect(netA).to.equal(price - fee(price, makerBps));
+    expect(netB).to.equal(resalePrice - price - fee(price, takerBps) - fee(resalePrice, makerBps));
+    expect(netC).to.equal(-(resalePrice + fee(resalePrice, takerBps)));
+
+    // The fees are exactly what the participants' net balances leave behind
+    const fees = await clearingHouse.cycleFees(paymentToken.target);
+    expect(netA + netB + netC + fees).to.equal(0);
+
+    await clearingHouse.advanceSettlement(100);
+    expect(await bond.ownerOf(0)).to.equal(buyerC.address);
+    expect(await paymentToken.balanceOf(intermediaryB.address)).to.equal(initialBalance + netB);
+    expect(await clearingHouse.accruedFees(paymentToken.target)).to.equal(fees);
+  });
+
+  it("Should apply asset overrides and the minimum fee", async function () {
+    const [seller, buyer] = users;
+    const minimumFee = ethers.parseUnits("1", 18);
+    await changeConfig("setAssetFeeRates", bond.target, 0, 50, true);
+    await changeConfig("setMinimumFee", paymentToken.target, minimumFee);
+    await sell(seller);
+    await buy(buyer, ethers.parseUnits("10", 18));
+    await clearingHouse.connect(seller).amendSellOrder(0, [paymentToken.target], [ethers.parseUnits("10", 18)], ethers.ZeroAddress);
+    await match();
+
+    // The buyer rested first (maker, 0 bps); the amended seller is the taker: 50 bps of 10 is below the minimum
+    const [sellerNet, buyerNet] = await netBalances();
+    expect(buyerNet).to.equal(-ethers.parseUnits("10", 18));
+    expect(sellerNet).to.equal(ethers.parseUnits("10", 18) - minimumFee);
+
+    await clearingHouse.advanceSettlement(100);
+    await changeConfig("setAssetFeeRates", bond.target, 0, 0, false);
+    expect(await clearingHouse.hasAssetFeeRates(bond.target)).to.equal(false);
+  });
+
+  it("Should not accrue fees in a failed cycle", async function () {
+    const [seller, buyer] = users;
+    await paymentToken.connect(buyer).approve(clearingHouse.target, 0);
+    await sell(seller);
+    await buy(buyer);
+    await increaseTime(301);
+
+    await expect(clearingHouse.performSettlement()).to.emit(clearingHouse, "SettlementFailed");
+    expect(await clearingHouse.accruedFees(paymentToken.target)).to.equal(0);
+    expect(await paymentToken.balanceOf(seller.address)).to.equal(initialBalance);
+  });
+
+  it("Should reverse the fees of trades unwound under default isolation", async function () {
+    const [sellerA, intermediaryB, buyerC] = users;
+    await clearingHouse.setDefaultIsolation(true);
+    await paymentToken.connect(buyerC).approve(clearingHouse.target, 0);
+    await sell(sellerA);
+    await buy(intermediaryB);
+    await sell(intermediaryB, resalePrice);
+    await buy(buyerC, resalePrice, intermediaryB.address);
+    await increaseTime(301);
+
+    await expect(clearingHouse.performSettlement()).to.emit(clearingHouse, "PaymentDefault");
+
+    // Only the first leg settled
+    const legFees = fee(price, makerBps) + fee(price, takerBps);
+    expect(await bond.ownerOf(0)).to.equal(intermediaryB.address);
+    expect(await clearingHouse.accruedFees(paymentToken.target)).to.equal(legFees);
+    expect(await paymentToken.balanceOf(intermediaryB.address)).to.equal(initialBalance - price - fee(price, takerBps));
+    expect(await paymentToken.balanceOf(clearingHouse.target)).to.equal(legFees);
+  });
+
+  it("Should cap the minimum fee at the trade value, for a defaulter too", async function () {
+    const [seller, buyer] = users;
+    const value = ethers.parseUnits("0.5", 18);
+    await changeConfig("setMinimumFee", paymentToken.target, ethers.parseUnits("1", 18));
+    await clearingHouse.setDefaultIsolation(true);
+
+    // The seller sells bond 0 for less than the minimum fee and defaults on buying bond 1
+    await bond.mint(buyer.address, 1000, 500, 4102444800); // Bond 1
+    await sell(seller, value);
+    await buy(buyer, value);
+    await clearingHouse.connect(buyer).submitMulticurrencySellOrder(bond.target, 1, [paymentToken.target], [price], ethers.ZeroAddress);
+    await clearingHouse.connect(seller).submitBuyOrder(bond.target, 1, paymentToken.target, price, ethers.ZeroAddress);
+    await paymentToken.connect(seller).approve(clearingHouse.target, 0);
+    await match();
+
+    // Both sides of the small trade pay its whole value
+    expect(await clearingHouse.netBalanceOf(buyer.address, paymentToken.target)).to.equal(price - 2n * value);
+
+    await expect(clearingHouse.advanceSettlement(100))
+      .to.emit(clearingHouse, "PaymentDefault")
+      .and.to.emit(clearingHouse, "SettlementCompleted");
+
+    expect(await bond.ownerOf(0)).to.equal(buyer.address);
+    expect(await bond.ownerOf(1)).to.equal(clearingHouse.target);
+    expect(await paymentToken.balanceOf(seller.address)).to.equal(initialBalance);
+    expect(await paymentToken.balanceOf(buyer.address)).to.equal(initialBalance - 2n * value);
+    expect(await clearingHouse.accruedFees(paymentToken.target)).to.equal(2n * value);
+  });
+
+  it("Should let only the fee recipient withdraw accrued fees", async function () {
+    const [seller, buyer] = users;
+    await sell(seller);
+    await buy(buyer);
+    await increaseTime(301);
+    await clearingHouse.performSettlement();
+
+    const accrued = await clearingHouse.accruedFees(paymentToken.target);
+    await expect(clearingHouse.connect(seller).withdrawFees(paymentToken.target, accrued)).to.be.revertedWith("Not fee recipient");
+    await expect(clearingHouse.connect(recipient).withdrawFees(paymentToken.target, accrued + 1n)).to.be.revertedWith("Insufficient fees");
+    await expect(clearingHouse.connect(recipient).withdrawFees(paymentToken.target, accrued))
+      .to.emit(clearingHouse, "FeesWithdrawn")
+      .withArgs(recipient.address, paymentToken.target, accrued);
+    expect(await paymentToken.balanceOf(recipient.address)).to.equal(accrued);
+
+    await expect(changeConfig("setFeeRates", 1001, 0)).to.be.revertedWith("Fee too high");
+    await expect(clearingHouse.setFeeRates(0, 0)).to.be.revertedWith("Timelocked: propose the change");
+    await expect(clearingHouse.connect(seller).proposeConfigChange(clearingHouse.interface.encodeFunctionData("setFeeRates", [0, 0])))
+      .to.be.revertedWithCustomError(clearingHouse, "OwnableUnauthorizedAccount");
+    await expect(clearingHouse.connect(seller).setFeeRecipient(seller.address))
+      .to.be.revertedWithCustomError(clearingHouse, "OwnableUnauthorizedAccount");
+  });
+});
@@ -0,0 +1,205 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import ClearingHouseModule from "../ignition/modules/ClearingHouse.js";
+
+const { ethers, ignition } = await network.connect();
+
+// Helper for time manipulation
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+// Mirrors ClearingHouseStorage.Side / AssetType
+const Side = { Buy: 0, Sell: 1 };
+const AssetType = { ERC721: 0, ERC1155: 1, ERC20: 2 };
+
+describe("ClearingHouse Fungible Assets", function () {
+  let users: any[] = [];
+
+  // Contracts
+  let clearingHouse: any;
+  let tranche: any;     // ERC1155 bond tranches
+  let shares: any;      // ERC20 security
+  let paymentToken: any;
+
+  const initialBalance = ethers.parseUnits("10000", 18);
+  const unitPrice = ethers.parseUnits("10", 18);
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    for (let i = 1; i <= 4; i++) users.push(signers[i]);
+  });
+
+  beforeEach(async function () {
+    tranche = await ethers.deployContract("BondTranche");
+    shares = await ethers.deployContract("TokenC");
+    paymentToken = await ethers.deployContract("TokenA");
+    ({ clearingHouse } = await ignition.deploy(ClearingHouseModule));
+
+    await tranche.issue(users[0].address, 100, 1000, 500, 4102444800); // Tranche 0
+    await shares.transfer(users[0].address, 500);
+
+    for (const user of users) {
+      await paymentToken.transfer(user.address, initialBalance);
+      await paymentToken.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+      await tranche.connect(user).setApprovalForAll(clearingHouse.target, true);
+      await shares.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+    }
+  });
+
+  function request(side: number, asset: any, assetType: number, tokenId: number, quantity: number, price: bigint) {
+    return {
+      side,
+      asset: asset.target,
+      assetType,
+      tokenId,
+      quantity,
+      paymentTokens: [paymentToken.target],
+      prices: [price],
+      counterparty: ethers.ZeroAddress,
+      expiresAt: 0,
+      goodForCycles: 0,
+    };
+  }
+
+  async function sellTranche(seller: any, quantity: number, price = unitPrice) {
+    await clearingHouse.connect(seller).submitOrder(request(Side.Sell, tranche, AssetType.ERC1155, 0, quantity, price));
+  }
+
+  async function buyTranche(buyer: any, quantity: number, price = unitPrice) {
+    await clearingHouse.connect(buyer).submitOrder(request(Side.Buy, tranche, AssetType.ERC1155, 0, quantity, price));
+  }
+
+  it("Should fill one ERC1155 sell order against several buyers", async function () {
+    const [seller, buyer1, buyer2] = users;
+    await sellTranche(seller, 100);
+    await buyTranche(buyer1, 40);
+    await buyTranche(buyer2, 100);
+
+    await increaseTime(301);
+    await clearingHouse.performSettlement();
+
+    expect(await tranche.balanceOf(buyer1.address, 0)).to.equal(40);
+    expect(await tranche.balanceOf(buyer2.address, 0)).to.equal(60);
+    expect(await tranche.balanceOf(clearingHouse.target, 0)).to.equal(0);
+
+    expect(await paymentToken.balanceOf(seller.address)).to.equal(initialBalance + unitPrice * 100n);
+    expect(await paymentToken.balanceOf(buyer1.address)).to.equal(initialBalance - unitPrice * 40n);
+    expect(await paymentToken.balanceOf(buyer2.address)).to.equal(initialBalance - unitPrice * 60n);
+
+    expect((await clearingHouse.orders(0)).active).to.equal(false);
+    expect((await clearingHouse.orders(1)).active).to.equal(false);
+    const rest = await clearingHouse.orders(2);
+    expect(rest.active).to.equal(true);
+    expect(rest.quantity).to.equal(40);
+  });
+
+  it("Should keep the unfilled quantity of an ERC20 sell order in custody", async function () {
+    const [seller, buyer] = users;
+    await clearingHouse.connect(seller).submitOrder(request(Side.Sell, shares, AssetType.ERC20, 0, 500, unitPrice));
+    await clearingHouse.connect(buyer).submitOrder(request(Side.Buy, shares, AssetType.ERC20, 0, 200, unitPrice));
+
+    await increaseTime(301);
+    await clearingHouse.performSettlement();
+
+    expect(await shares.balanceOf(buyer.address)).to.equal(200);
+    expect(await shares.balanceOf(clearingHouse.target)).to.equal(300);
+    const sell = await clearingHouse.orders(0);
+    expect(sell.active).to.equal(true);
+    expect(sell.isLocked).to.equal(true);
+    expect(sell.quantity).to.equal(300);
+
+    // Cancelling returns the remaining quantity
+    await expect(clearingHouse.connect(seller).cancelOrder(0))
+      .to.emit(clearingHouse, "AssetUnlocked")
+      .withArgs(0, shares.target, 0);
+    expect(await shares.balanceOf(seller.address)).to.equal(300);
+    expect(await shares.balanceOf(clearingHouse.target)).to.equal(0);
+  });
+
+  it("Should fill a later, cheaper lot first", async function () {
+    const [early, cheap, buyer] = users;
+    await shares.connect(early).transfer(cheap.address, 100);
+    await clearingHouse.connect(early).submitOrder(request(Side.Sell, shares, AssetType.ERC20, 0, 100, unitPrice + 2n));
+    await clearingHouse.connect(cheap).submitOrder(request(Side.Sell, shares, AssetType.ERC20, 0, 100, unitPrice));
+    await clearingHouse.connect(buyer).submitOrder(request(Side.Buy, shares, AssetType.ERC20, 0, 100, unitPrice + 2n));
+
+    await increaseTime(301);
+    await expect(clearingHouse.performSettlement())
+      .to.emit(clearingHouse, "TradeMatched")
+      .withArgs(1, 2, 1, paymentToken.target, unitPrice + 2n, 100);
+
+    expect(await shares.balanceOf(buyer.address)).to.equal(100);
+    expect(await shares.balanceOf(cheap.address)).to.equal(0);
+    const dearer = await clearingHouse.orders(0);
+    expect(dearer.active).to.equal(true);
+    expect(dearer.isLocked).to.equal(false);
+    expect(await shares.balanceOf(early.address)).to.equal(400);
+  });
+
+  it("Should pass units along a chain and leave the intermediary the difference", async function () {
+    const [sellerA, intermediaryB, buyerC] = users;
+    const resalePrice = ethers.parseUnits("12", 18);
+    await sellTranche(sellerA, 10);
+    await buyTranche(intermediaryB, 10);
+    await sellTranche(intermediaryB, 4, resalePrice);
+    // C only buys from B (otherwise C's higher bid would win A's units directly)
+    await clearingHouse.connect(buyerC).submitOrder({
+      ...request(Side.Buy, tranche, AssetType.ERC1155, 0, 4, resalePrice),
+      counterparty: intermediaryB.address,
+    });
+
+    await increaseTime(301);
+    await clearingHouse.performSettlement();
+
+    expect(await tranche.balanceOf(intermediaryB.address, 0)).to.equal(6);
+    expect(await tranche.balanceOf(buyerC.address, 0)).to.equal(4);
+    expect(await tranche.balanceOf(sellerA.address, 0)).to.equal(90);
+
+    // B nets the resale against the purchase
+    expect(await paymentToken.balanceOf(intermediaryB.address)).to.equal(initialBalance - unitPrice * 10n + resalePrice * 4n);
+    expect(await paymentToken.balanceOf(buyerC.address)).to.equal(initialBalance - resalePrice * 4n);
+    expect(await clearingHouse.activeOrderCount()).to.equal(0);
+  });
+
+  it("Should return the locked quantity after repeated failed cycles", async function () {
+    const [seller, buyer] = users;
+    await paymentToken.connect(buyer).approve(clearingHouse.target, 0);
+    await sellTranche(seller, 30);
+    await buyTranche(buyer, 30);
+
+    await increaseTime(301);
+    await clearingHouse.performSettlement();
+    expect(await tranche.balanceOf(clearingHouse.target, 0)).to.equal(30);
+
+    await increaseTime(301);
+    await clearingHouse.performSettlement();
+    expect(await tranche.balanceOf(clearingHouse.target, 0)).to.equal(0);
+    expect(await tranche.balanceOf(seller.address, 0)).to.equal(100);
+    expect((await clearingHouse.orders(0)).active).to.equal(false);
+  });
+
+  it("Should validate quantity, token ID and asset type", async function () {
+    const [seller] = users;
+    const bond = await ethers.deployContract("Bond");
+
+    await expect(clearingHouse.connect(seller).submitOrder(request(Side.Sell, bond, AssetType.ERC721, 0, 2, unitPrice)))
+      .to.be.revertedWith("Invalid quantity");
+    await expect(clearingHouse.connect(seller).submitOrder(request(Side.Sell, tranche, AssetType.ERC1155, 0, 0, unitPrice)))
+      .to.be.revertedWith("Invalid quantity");
+    await expect(clearingHouse.connect(seller).submitOrder(request(Side.Sell, shares, AssetType.ERC20, 1, 10, unitPrice)))
+      .to.be.revertedWith("Invalid token ID");
+
+    await sellTranche(seller, 10);
+    await expect(clearingHouse.connect(seller).submitOrder(request(Side.Buy, tranche, AssetType.ERC721, 0, 1, unitPrice)))
+      .to.be.revertedWithCustomError(clearingHouse, "InvalidAsset")
+      .withArgs(tranche.target, AssetType.ERC721);
+  });
+
+  it("Should accept ERC1155 transfers and advertise the receiver interfaces", async function () {
+    expect(await clearingHouse.supportsInterface("0x4e2312e0")).to.equal(true);  // IERC1155Receiver
+    expect(await clearingHouse.supportsInterface("0x150b7a02")).to.equal(true);  // IERC721Receiver
+    expect(await clearingHouse.supportsInterface("0xffffffff")).to.equal(false);
+  });
+});
@@ -0,0 +1,166 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import ClearingHouseModule from "../ignition/modules/ClearingHouse.js";
+
+// The clearing house runs on the default simulated network, so each of its settlement transactions is held to the
+// EIP-7825 per-transaction gas cap (2^24). The baseline settles a whole cycle in one transaction, which for these
+// books exceeds that cap, so it is measured on a network of its own running Prague, the hardfork before the cap.
+const { ethers, ignition } = await network.connect();
+const baselineChain = (await network.connect({ override: { hardfork: "prague", blockGasLimit: 30_000_000n } })).ethers;
+
+// Helper for time manipulation
+async function increaseTime(seconds: number, chain = ethers) {
+  await chain.provider.send("evm_increaseTime", [seconds]);
+  await chain.provider.send("evm_mine", []);
+}
+
+// Mirrors ClearingHouseStorage.Side / AssetType
+const Side = { Buy: 0, Sell: 1 };
+const AssetType = { ERC721: 0, ERC1155: 1, ERC20: 2 };
+
+const TRANSACTION_GAS_CAP = 16_777_216n;
+const BLOCK_GAS_LIMIT = 30_000_000n;
+const CHUNK_STEPS = 20; // Settlement steps per advanceSettlement() transaction
+const ORDER_COUNTS = [50, 200, 500];
+
+describe("ClearingHouse Gas Benchmark", function () {
+  this.timeout(600000);
+
+  const price = ethers.parseUnits("1", 18);
+  let participantCount = 0;
+
+  // A funded wallet of its own for each participant, so that the number of participants grows with the book
+  async function participant(chain = ethers) {
+    const address = ethers.getAddress(ethers.toBeHex(0x10000 + participantCount++, 20));
+    await chain.provider.send("hardhat_setBalance", [address, ethers.toQuantity(ethers.parseEther("1"))]);
+    return chain.getImpersonatedSigner(address);
+  }
+
+  async function deployClearingHouse() {
+    const { clearingHouse }: any = await ignition.deploy(ClearingHouseModule);
+    return clearingHouse;
+  }
+
+  // One Sell and one Buy order per bond, between two participants of their own
+  async function listBondPairs(house: any, orderCount: number, chain = ethers) {
+    const bond = await chain.deployContract("Bond");
+    const paymentToken = await chain.deployContract("TokenA");
+    let lastBuyer: any;
+    for (let i = 0; i < orderCount / 2; i++) {
+      const seller = await participant(chain);
+      const buyer = await participant(chain);
+      await bond.mint(seller.address, 1000, 500, 4102444800);
+      await bond.connect(seller).setApprovalForAll(house.target, true);
+      await paymentToken.transfer(buyer.address, price);
+      await paymentToken.connect(buyer).approve(house.target, ethers.MaxUint256);
+
+      await house.connect(seller).submitMulticurrencySellOrder(bond.target, i, [paymentToken.target], [price], ethers.ZeroAddress);
+      await house.connect(buyer).submitBuyOrder(bond.target, i, paymentToken.target, price, ethers.ZeroAddress);
+      lastBuyer = buyer;
+    }
+    return { bond, lastBuyer };
+  }
+
+  // Runs the next cycle in transactions of CHUNK_STEPS steps and returns the gas used by each. Each is sent with
+  // the cap as its gas limit, so one that needs more runs out of gas.
+  async function settleInChunks(clearingHouse: any): Promise<bigint[]> {
+    await increaseTime(301);
+    const overrides = { gasLimit: TRANSACTION_GAS_CAP };
+    const gasUsed = [(await (await clearingHouse.startSettlement(overrides)).wait()).gasUsed];
+    while ((await clearingHouse.settlementPhase()) !== 0n) {
+      gasUsed.push((await (await clearingHouse.advanceSettlement(CHUNK_STEPS, overrides)).wait()).gasUsed);
+    }
+    return gasUsed;
+  }
+
+  // Gas used by the baseline to settle the same book in one transaction, or undefined if that takes more than a
+  // block. Its gas grows with the square of the book, so it is not simulated any further.
+  async function settleBaseline(orderCount: number): Promise<bigint | undefined> {
+    const baseline = await baselineChain.deployContract("BaselineClearingHouse");
+    await listBondPairs(baseline, orderCount, baselineChain);
+    await increaseTime(301, baselineChain);
+    const overrides = { gasLimit: BLOCK_GAS_LIMIT };
+    try {
+      await baseline.performSettlement.staticCall(overrides);
+    } catch (error: any) {
+      expect(error.message).to.include("ran out of gas");
+      return undefined;
+    }
+    return (await (await baseline.performSettlement(overrides)).wait())!.gasUsed;
+  }
+
+  const sum = (values: bigint[]) => values.reduce((total, value) => total + value, 0n);
+  const max = (values: bigint[]) => values.reduce((highest, value) => (value > highest ? value : highest), 0n);
+
+  it("Should settle books of one matched pair per asset in linear gas, unlike the baseline", async function () {
+    const gasPerOrder: Record<number, bigint> = {};
+    for (const orderCount of ORDER_COUNTS) {
+      const clearingHouse = await deployClearingHouse();
+      const { bond, lastBuyer } = await listBondPairs(clearingHouse, orderCount);
+      const gasUsed = await settleInChunks(clearingHouse);
+
+      // The whole book cleared, and no transaction exceeded the cap
+      expect(await clearingHouse.activeOrderCount()).to.equal(0);
+      expect(await bond.ownerOf(orderCount / 2 - 1)).to.equal(lastBuyer.address);
+      expect(max(gasUsed)).to.be.lessThanOrEqual(TRANSACTION_GAS_CAP);
+      gasPerOrder[orderCount] = sum(gasUsed) / BigInt(orderCount);
+
+      // The baseline's single transaction already exceeds the cap for the smallest book, and a whole block for
+      // the larger ones
+      const baselineGas = await settleBaseline(orderCount);
+      if (orderCount === ORDER_COUNTS[0]) {
+        expect(baselineGas).to.be.greaterThan(TRANSACTION_GAS_CAP);
+      } else {
+        expect(baselineGas).to.equal(undefined);
+      }
+    }
+
+    // 10x the orders and participants cost 10x the gas, not 100x
+    expect(gasPerOrder[500]).to.be.lessThan(gasPerOrder[50] * 11n / 10n);
+  });
+
+  it("Should match a deep book of one asset in linear gas", async function () {
+    const gasPerOrder: Record<number, bigint> = {};
+    const crossing = 10; // Pairs that trade; the rest of the book rests away from the market
+
+    for (const orderCount of ORDER_COUNTS) {
+      const clearingHouse = await deployClearingHouse();
+      const shares = await ethers.deployContract("TokenC");
+      const paymentToken = await ethers.deployContract("TokenA");
+      const order = (side: number, quantity: number, bidOrAsk: bigint) => ({
+        side,
+        asset: shares.target,
+        assetType: AssetType.ERC20,
+        tokenId: 0,
+        quantity,
+        paymentTokens: [paymentToken.target],
+        prices: [bidOrAsk],
+        counterparty: ethers.ZeroAddress,
+        expiresAt: 0,
+        goodForCycles: 0,
+      });
+
+      // Resting orders first, so that the matching ones come last in the book
+      for (let i = 0; i < orderCount / 2; i++) {
+        const resting = i < orderCount / 2 - crossing;
+        const seller = await participant();
+        const buyer = await participant();
+        await shares.transfer(seller.address, 1);
+        await shares.connect(seller).approve(clearingHouse.target, 1);
+        await paymentToken.transfer(buyer.address, price);
+        await paymentToken.connect(buyer).approve(clearingHouse.target, ethers.MaxUint256);
+
+        await clearingHouse.connect(seller).submitOrder(order(Side.Sell, 1, resting ? price * 2n + BigInt(i) : price));
+        await clearingHouse.connect(buyer).submitOrder(order(Side.Buy, 1, resting ? price / 2n - BigInt(i) : price));
+      }
+
+      const gasUsed = await settleInChunks(clearingHouse);
+      expect(await clearingHouse.activeOrderCount()).to.equal(orderCount - 2 * crossing);
+      expect(max(gasUsed)).to.be.lessThanOrEqual(TRANSACTION_GAS_CAP);
+      gasPerOrder[orderCount] = sum(gasUsed) / BigInt(orderCount);
+    }
+
+    // Growing the book does not grow the cost of finding each match
+    expect(gasPerOrder[500]).to.be.lessThan(gasPerOrder[50] * 11n / 10n);
+  });
+});
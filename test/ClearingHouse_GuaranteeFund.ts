@@ -0,0 +1,274 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import ClearingHouseModule from "../ignition/modules/ClearingHouse.js";
+
+const { ethers, ignition } = await network.connect();
+
+// Helper for time manipulation
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+// Mirrors GuaranteeFund.Drawdown
+const Drawdown = { DefaulterFirst: 0, Mutualized: 1 };
+
+describe("ClearingHouse Guarantee Fund", function () {
+  let member: any;  // Contributes to the fund, never trades
+  let seller: any;
+  let buyer: any;   // Defaults
+  let buyer2: any;
+
+  // Contracts
+  let clearingHouse: any;
+  let fund: any;
+  let bond: any;
+  let paymentToken: any;
+
+  const price = ethers.parseUnits("100", 18);
+  const initialBalance = ethers.parseUnits("1000", 18);
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    member = signers[1];
+    seller = signers[2];
+    buyer = signers[3];
+    buyer2 = signers[4];
+  });
+
+  beforeEach(async function () {
+    bond = await ethers.deployContract("Bond");
+    paymentToken = await ethers.deployContract("TokenA");
+    ({ clearingHouse } = await ignition.deploy(ClearingHouseModule));
+    fund = await ethers.deployContract("GuaranteeFund", [clearingHouse.target]);
+    await clearingHouse.setGuaranteeFund(fund.target);
+
+    await bond.mint(seller.address, 1000, 500, 4102444800); // Bond 0
+    await bond.mint(seller.address, 1000, 500, 4102444800); // Bond 1
+    for (const user of [member, seller, buyer, buyer2]) {
+      await paymentToken.transfer(user.address, initialBalance);
+      await paymentToken.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+      await paymentToken.connect(user).approve(fund.target, ethers.MaxUint256);
+      await bond.connect(user).setApprovalForAll(clearingHouse.target, true);
+    }
+  });
+
+  async function sell(maker: any, tokenId: number) {
+    await clearingHouse.connect(maker).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target], [price], ethers.ZeroAddress);
+  }
+
+  async function buy(maker: any, tokenId: number) {
+    await clearingHouse.connect(maker).submitBuyOrder(bond.target, tokenId, paymentToken.target, price, ethers.ZeroAddress);
+  }
+
+  async function defaultOnBond0() {
+    await sell(seller, 0);
+    await buy(buyer, 0);
+    await paymentToken.connect(buyer).approve(clearingHouse.target, 0);
+    await increaseTime(301);
+  }
+
+  it("Should cover a defaulting buyer and record a claim", async function () {
+    await fund.connect(member).contribute(paymentToken.target, initialBalance);
+    await defaultOnBond0();
+
+    await expect(clearingHouse.performSettlement())
+      .to.emit(fund, "FundDrawn")
+      .withArgs(buyer.address, paymentToken.target, price, 0)
+      .and.to.not.emit(clearingHouse, "SettlementFailed");
+
+    // The cycle completed for the honest seller
+    expect(await bond.ownerOf(0)).to.equal(buyer.address);
+    expect(await paymentToken.balanceOf(seller.address)).to.equal(initialBalance + price);
+
+    expect(await fund.claims(buyer.address, paymentToken.target)).to.equal(price);
+    expect(await fund.outstandingClaims(buyer.address)).to.equal(1);
+    expect(await fund.fundAssets(paymentToken.target)).to.equal(initialBalance - price);
+    expect(await fund.contributionOf(member.address, paymentToken.target)).to.equal(initialBalance - price);
+
+    // The defaulter cannot trade until the claim is settled
+    await expect(buy(buyer, 1)).to.be.revertedWith("Outstanding guarantee claim");
+  });
+
+  it("Should draw the defaulter's own contribution first", async function () {
+    const own = ethers.parseUnits("60", 18);
+    await fund.connect(member).contribute(paymentToken.target, initialBalance);
+    await fund.connect(buyer).contribute(paymentToken.target, own);
+    await defaultOnBond0();
+
+    await expect(clearingHouse.performSettlement())
+      .to.emit(fund, "FundDrawn")
+      .withArgs(buyer.address, paymentToken.target, price, own);
+
+    expect(await fund.contributionOf(buyer.address, paymentToken.target)).to.equal(0);
+    expect(await fund.claims(buyer.address, paymentToken.target)).to.equal(price - own);
+    expect(await fund.contributionOf(member.address, paymentToken.target)).to.equal(initialBalance - (price - own));
+  });
+
+  it("Should share a mutualized drawdown pro rata", async function () {
+    await fund.setDrawdownOrder(Drawdown.Mutualized);
+    await fund.connect(member).contribute(paymentToken.target, ethers.parseUnits("900", 18));
+    await fund.connect(buyer).contribute(paymentToken.target, ethers.parseUnits("100", 18));
+    await defaultOnBond0();
+
+    await clearingHouse.performSettlement();
+
+    expect(await fund.claims(buyer.address, paymentToken.target)).to.equal(price);
+    expect(await fund.contributionOf(member.address, paymentToken.target)).to.equal(ethers.parseUnits("810", 18));
+    expect(await fund.contributionOf(buyer.address, paymentToken.target)).to.equal(ethers.parseUnits("90", 18));
+  });
+
+  it("Should seize later receivables and deposits towards the claim", async function () {
+    await fund.connect(member).contribute(paymentToken.target, initialBalance);
+    await bond.connect(seller).transferFrom(seller.address, buyer.address, 1);
+    await clearingHouse.connect(buyer).submitMulticurrencySellOrder(bond.target, 1, [paymentToken.target], [price / 2n], ethers.ZeroAddress);
+    await defaultOnBond0();
+    await clearingHouse.performSettlement();
+    expect(await fund.claims(buyer.address, paymentToken.target)).to.equal(price);
+    await paymentToken.connect(buyer).approve(clearingHouse.target, price / 4n);
+    await clearingHouse.connect(buyer).depositCash(paymentToken.target, price / 4n);
+
+    // Deposits cannot be withdrawn, and can be seized by anyone
+    await expect(clearingHouse.connect(buyer).withdrawCash(paymentToken.target, 1))
+      .to.be.revertedWith("Outstanding guarantee claim");
+    await expect(clearingHouse.recoverGuaranteeClaim(buyer.address, paymentToken.target))
+      .to.emit(fund, "ClaimRecovered")
+      .withArgs(buyer.address, paymentToken.target, price / 4n);
+
+    // The defaulter's resting Sell order fills: the proceeds go to the fund
+    await clearingHouse.connect(buyer2).submitBuyOrder(bond.target, 1, paymentToken.target, price / 2n, ethers.ZeroAddress);
+    await increaseTime(301);
+    await expect(clearingHouse.performSettlement())
+      .to.emit(fund, "ClaimRecovered")
+      .withArgs(buyer.address, paymentToken.target, price / 2n);
+
+    const remaining = price - price / 4n - price / 2n;
+    expect(await bond.ownerOf(1)).to.equal(buyer2.address);
+    expect(await fund.claims(buyer.address, paymentToken.target)).to.equal(remaining);
+    expect(await fund.fundAssets(paymentToken.target)).to.equal(initialBalance - remaining);
+
+    // Repaying the rest replenishes the fund and lifts the trading ban
+    await paymentToken.connect(buyer).approve(fund.target, remaining);
+    await fund.connect(buyer).repayClaim(paymentToken.target, remaining);
+    expect(await fund.outstandingClaims(buyer.address)).to.equal(0);
+    expect(await fund.fundAssets(paymentToken.target)).to.equal(initialBalance);
+    await paymentToken.connect(buyer).approve(clearingHouse.target, ethers.MaxUint256);
+    await buy(buyer, 0);
+  });
+
+  it("Should fail the cycle when the fund cannot cover the shortfall", async function () {
+    await fund.connect(member).contribute(paymentToken.target, price - 1n);
+    await defaultOnBond0();
+
+    await expect(clearingHouse.performSettlement())
+      .to.emit(clearingHouse, "SettlementFailed")
+      .and.to.not.emit(fund, "FundDrawn");
+    expect(await fund.fundAssets(paymentToken.target)).to.equal(price - 1n);
+    expect(await fund.outstandingClaims(buyer.address)).to.equal(0);
+  });
+
+  it("Should return the covered amount to the fund if the cycle fails", async function () {
+    await fund.connect(member).contribute(paymentToken.target, price);
+    await sell(seller, 1);
+    await buy(buyer2, 1);
+    await paymentToken.connect(buyer2).approve(clearingHouse.target, 0);
+    await defaultOnBond0();
+
+    // One default is covered, the second exhausts the fund
+    await expect(clearingHouse.performSettlement())
+      .to.emit(fund, "FundDrawn")
+      .and.to.emit(clearingHouse, "SettlementFailed");
+
+    expect(await fund.fundAssets(paymentToken.target)).to.equal(price);
+    expect(await fund.outstandingClaims(buyer.address)).to.equal(0);
+    expect(await fund.outstandingClaims(buyer2.address)).to.equal(0);
+    expect(await paymentToken.balanceOf(clearingHouse.target)).to.equal(0);
+  });
+
+  it("Should require the minimum contribution for Buy orders, with a replenishment period", async function () {
+    await fund.setMinContribution(paymentToken.target, price);
+    await fund.setReplenishmentPeriod(3600);
+    await sell(seller, 0);
+
+    await expect(buy(buyer, 0)).to.be.revertedWith("Insufficient guarantee contribution");
+    await expect(clearingHouse.connect(buyer).submitMulticurrencyBuyOrder(bond.target, 0, [paymentToken.target], [price], ethers.ZeroAddress))
+      .to.be.revertedWith("Insufficient guarantee contribution");
+    await fund.connect(buyer).contribute(paymentToken.target, price);
+    await fund.connect(buyer2).contribute(paymentToken.target, price);
+    await buy(buyer, 0);
+
+    // A covered default pushes the other member below the minimum
+    await paymentToken.connect(buyer).approve(clearingHouse.target, 0);
+    await increaseTime(301);
+    await clearingHouse.performSettlement();
+    expect(await fund.contributionOf(buyer2.address, paymentToken.target)).to.equal(price);
+    expect(await fund.contributionOf(buyer.address, paymentToken.target)).to.equal(0);
+
+    await fund.setDrawdownOrder(Drawdown.Mutualized);
+    await fund.connect(member).contribute(paymentToken.target, price);
+    await sell(seller, 1);
+    await buy(buyer2, 1);
+    await paymentToken.connect(buyer2).approve(clearingHouse.target, 0);
+    await increaseTime(301);
+    await clearingHouse.performSettlement();
+    expect(await fund.contributionOf(buyer2.address, paymentToken.target)).to.be.lessThan(price);
+
+    // Members below the minimum can still buy during the replenishment period
+    expect(await fund.meetsRequirement(member.address, paymentToken.target)).to.equal(true);
+    await increaseTime(3600);
+    expect(await fund.meetsRequirement(member.address, paymentToken.target)).to.equal(false);
+  });
+
+  it("Should re-check the minimum contribution when a Buy order is amended", async function () {
+    await fund.setMinContribution(paymentToken.target, price);
+    await fund.connect(buyer).contribute(paymentToken.target, price);
+    await buy(buyer, 0); // Order 0
+
+    // Withdrawing the contribution leaves the order in place, but it can no longer be amended
+    await fund.connect(buyer).withdraw(paymentToken.target, price);
+    await expect(clearingHouse.connect(buyer).amendBuyOrder(0, price * 2n, ethers.ZeroAddress))
+      .to.be.revertedWith("Insufficient guarantee contribution");
+
+    await fund.connect(buyer).contribute(paymentToken.target, price);
+    await expect(clearingHouse.connect(buyer).amendBuyOrder(0, price * 2n, ethers.ZeroAddress))
+      .to.emit(clearingHouse, "OrderAmended");
+  });
+
+  it("Should restrict withdrawals and drawdowns", async function () {
+    await fund.setMinContribution(paymentToken.target, price);
+    await fund.connect(member).contribute(paymentToken.target, price * 2n);
+
+    await expect(fund.connect(member).draw(member.address, paymentToken.target, 1)).to.be.revertedWith("Not clearing house");
+    await expect(fund.connect(member).withdraw(paymentToken.target, price * 2n + 1n)).to.be.revertedWith("Insufficient contribution");
+    await expect(fund.connect(member).withdraw(paymentToken.target, price + 1n)).to.be.revertedWith("Below minimum contribution");
+    await expect(fund.connect(member).setMinContribution(paymentToken.target, 0))
+      .to.be.revertedWithCustomError(fund, "OwnableUnauthorizedAccount");
+
+    await sell(seller, 0);
+    await increaseTime(301);
+    await clearingHouse.startSettlement();
+    await expect(fund.connect(member).withdraw(paymentToken.target, price)).to.be.revertedWith("Settlement in progress");
+    await clearingHouse.advanceSettlement(100);
+
+    await expect(fund.connect(member).withdraw(paymentToken.target, price * 2n))
+      .to.emit(fund, "Withdrawn");
+    expect(await paymentToken.balanceOf(member.address)).to.equal(initialBalance);
+  });
+
+  it("Should not credit contributions or repayments whose transfer returns false", async function () {
+    const token = await ethers.deployContract("MockFalseReturnToken");
+    await token.transfer(member.address, initialBalance);
+    await token.connect(member).approve(fund.target, ethers.MaxUint256);
+    await fund.connect(member).contribute(token.target, price);
+
+    await token.setFailing(true);
+    await expect(fund.connect(member).contribute(token.target, price))
+      .to.be.revertedWithCustomError(fund, "SafeERC20FailedOperation")
+      .withArgs(token.target);
+    await expect(fund.connect(member).repayClaim(token.target, price))
+      .to.be.revertedWithCustomError(fund, "SafeERC20FailedOperation");
+    await expect(fund.connect(member).withdraw(token.target, price))
+      .to.be.revertedWithCustomError(fund, "SafeERC20FailedOperation");
+    expect(await fund.contributionOf(member.address, token.target)).to.equal(price);
+  });
+});
@@ -0,0 +1,210 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import ClearingHouseModule from "../ignition/modules/ClearingHouse.js";
+
+const { ethers, ignition } = await network.connect();
+
+// Helper for time manipulation
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+describe("ClearingHouse Keeper Rewards", function () {
+  let owner: any;
+  let seller: any;
+  let buyer: any;
+  let keeper: any;
+
+  // Contracts
+  let clearingHouse: any;
+  let bond: any;
+  let paymentToken: any;
+  let rewardToken: any;
+
+  const price = ethers.parseUnits("100", 18);
+  const initialBalance = ethers.parseUnits("1000", 18);
+  const reward = ethers.parseUnits("5", 18);
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    owner = signers[0];
+    seller = signers[1];
+    buyer = signers[2];
+    keeper = signers[3];
+  });
+
+  beforeEach(async function () {
+    bond = await ethers.deployContract("Bond");
+    paymentToken = await ethers.deployContract("TokenA");
+    rewardToken = await ethers.deployContract("TokenB");
+    ({ clearingHouse } = await ignition.deploy(ClearingHouseModule));
+
+    await bond.mint(seller.address, 1000, 500, 4102444800); // Bond 0
+    await bond.mint(seller.address, 1000, 500, 4102444800); // Bond 1
+    for (const user of [seller, buyer]) {
+      await paymentToken.transfer(user.address, initialBalance);
+      await paymentToken.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+      await bond.connect(user).setApprovalForAll(clearingHouse.target, true);
+    }
+  });
+
+  async function trade(tokenId: number) {
+    await clearingHouse.connect(seller).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target], [price], ethers.ZeroAddress);
+    await clearingHouse.connect(buyer).submitBuyOrder(bond.target, tokenId, paymentToken.target, price, ethers.ZeroAddress);
+  }
+
+  async function fundPool(amount: bigint) {
+    await rewardToken.approve(clearingHouse.target, amount);
+    await clearingHouse.depositKeeperRewards(rewardToken.target, amount);
+  }
+
+  // Applies a timelocked setting: proposes the setter call, waits out the parameter delay and executes it
+  async function changeConfig(method: string, ...args: any[]) {
+    const change = clearingHouse.interface.encodeFunctionData(method, args);
+    await clearingHouse.proposeConfigChange(change);
+    await increaseTime(2 * 24 * 60 * 60);
+    await clearingHouse.executeConfigChange(change);
+  }
+
+  it("Should pay the keeper once per cycle, and not when there was nothing to settle", async function () {
+    await changeConfig("setKeeperReward", rewardToken.target, reward, 0, false, 0);
+    await fundPool(reward * 10n);
+
+    // Empty book: the cycle runs but earns nothing
+    await increaseTime(301);
+    await expect(clearingHouse.connect(keeper).performSettlement())
+      .to.emit(clearingHouse, "SettlementCompleted")
+      .and.to.not.emit(clearingHouse, "KeeperRewarded");
+    expect(await rewardToken.balanceOf(keeper.address)).to.equal(0);
+
+    // A cycle with a trade pays the keeper once
+    await trade(0);
+    await increaseTime(301);
+    await expect(clearingHouse.connect(keeper).performSettlement())
+      .to.emit(clearingHouse, "KeeperRewarded")
+      .withArgs(2, keeper.address, rewardToken.target, reward);
+    expect(await rewardToken.balanceOf(keeper.address)).to.equal(reward);
+    expect(await clearingHouse.keeperRewardPool(rewardToken.target)).to.equal(reward * 9n);
+    await expect(clearingHouse.connect(keeper).performSettlement()).to.be.revertedWith("Too early to settle");
+
+    // The orders are filled: the next cycle has nothing to settle
+    await increaseTime(301);
+    await expect(clearingHouse.connect(keeper).performSettlement()).to.not.emit(clearingHouse, "KeeperRewarded");
+    expect(await rewardToken.balanceOf(keeper.address)).to.equal(reward);
+  });
+
+  it("Should pay the account that started a chunked cycle, not the one closing it", async function () {
+    await changeConfig("setKeeperReward", rewardToken.target, reward, 0, false, 0);
+    await fundPool(reward);
+    await trade(0);
+    await increaseTime(301);
+
+    // The reward is paid when the cycle closes, to whoever opened it
+    await expect(clearingHouse.connect(keeper).startSettlement()).to.not.emit(clearingHouse, "KeeperRewarded");
+    await expect(clearingHouse.advanceSettlement(1)).to.not.emit(clearingHouse, "KeeperRewarded");
+    await expect(clearingHouse.connect(buyer).advanceSettlement(100))
+      .to.emit(clearingHouse, "KeeperRewarded")
+      .withArgs(1, keeper.address, rewardToken.target, reward);
+    expect(await rewardToken.balanceOf(keeper.address)).to.equal(reward);
+    expect(await rewardToken.balanceOf(buyer.address)).to.equal(0);
+  });
+
+  it("Should only pay cycles that settle the minimum volume in the reward token", async function () {
+    await changeConfig("setKeeperReward", paymentToken.target, reward, reward, false, price * 2n);
+    await paymentToken.approve(clearingHouse.target, reward * 10n);
+    await clearingHouse.depositKeeperRewards(paymentToken.target, reward * 10n);
+
+    // One trade, then a failed cycle, settle less than the minimum
+    await trade(0);
+    await increaseTime(301);
+    await expect(clearingHouse.connect(keeper).performSettlement()).to.not.emit(clearingHouse, "KeeperRewarded");
+    await trade(1);
+    await paymentToken.connect(buyer).approve(clearingHouse.target, 0);
+    await increaseTime(301);
+    await expect(clearingHouse.connect(keeper).performSettlement())
+      .to.emit(clearingHouse, "SettlementFailed")
+      .and.to.not.emit(clearingHouse, "KeeperRewarded");
+
+    // Reselling Bond 0 settles a second trade alongside Bond 1
+    await paymentToken.connect(buyer).approve(clearingHouse.target, ethers.MaxUint256);
+    await bond.connect(buyer).setApprovalForAll(clearingHouse.target, true);
+    await paymentToken.connect(seller).approve(clearingHouse.target, ethers.MaxUint256);
+    await clearingHouse.connect(buyer).submitMulticurrencySellOrder(bond.target, 0, [paymentToken.target], [price], ethers.ZeroAddress);
+    await clearingHouse.connect(seller).submitBuyOrder(bond.target, 0, paymentToken.target, price, ethers.ZeroAddress);
+    await increaseTime(301);
+    await expect(clearingHouse.connect(keeper).performSettlement())
+      .to.emit(clearingHouse, "KeeperRewarded")
+      .withArgs(3, keeper.address, paymentToken.target, reward);
+  });
+
+  it("Should pay failed cycles only if configured, within what the pool holds", async function () {
+    await changeConfig("setKeeperReward", rewardToken.target, reward, 0, false, 0);
+    await fundPool(reward / 2n);
+    await trade(0);
+    await paymentToken.connect(buyer).approve(clearingHouse.target, 0);
+    await increaseTime(301);
+    await expect(clearingHouse.connect(keeper).performSettlement())
+      .to.emit(clearingHouse, "SettlementFailed")
+      .and.to.not.emit(clearingHouse, "KeeperRewarded");
+
+    await changeConfig("setKeeperReward", rewardToken.target, reward, reward / 5n, false, 0);
+    await increaseTime(301);
+    await expect(clearingHouse.connect(keeper).performSettlement())
+      .to.emit(clearingHouse, "KeeperRewarded")
+      .withArgs(2, keeper.address, rewardToken.target, reward / 5n);
+
+    // The pool only covers part of the reward
+    await paymentToken.connect(buyer).approve(clearingHouse.target, ethers.MaxUint256);
+    await trade(1);
+    await increaseTime(301);
+    await expect(clearingHouse.connect(keeper).performSettlement())
+      .to.emit(clearingHouse, "KeeperRewarded")
+      .withArgs(3, keeper.address, rewardToken.target, reward / 2n - reward / 5n);
+    expect(await clearingHouse.keeperRewardPool(rewardToken.target)).to.equal(0);
+  });
+
+  it("Should pay from accrued fees when configured", async function () {
+    const fee = price * 30n / 10000n;
+    await changeConfig("setFeeRates", 30, 30);
+    await changeConfig("setKeeperReward", paymentToken.target, fee, 0, true, 0);
+    await trade(0);
+    await increaseTime(301);
+
+    // The cycle's own fees are accrued before the keeper is paid
+    await expect(clearingHouse.connect(keeper).performSettlement())
+      .to.emit(clearingHouse, "KeeperRewarded")
+      .withArgs(1, keeper.address, paymentToken.target, fee);
+    expect(await clearingHouse.accruedFees(paymentToken.target)).to.equal(fee);
+    expect(await paymentToken.balanceOf(keeper.address)).to.equal(fee);
+  });
+
+  it("Should restrict the reward configuration and pool to the owner", async function () {
+    const change = clearingHouse.interface.encodeFunctionData("setKeeperReward", [rewardToken.target, reward, 0, false, 0]);
+    await expect(clearingHouse.connect(keeper).proposeConfigChange(change))
+      .to.be.revertedWithCustomError(clearingHouse, "OwnableUnauthorizedAccount");
+    await expect(clearingHouse.setKeeperReward(rewardToken.target, reward, 0, false, 0))
+      .to.be.revertedWith("Timelocked: propose the change");
+    await expect(clearingHouse.connect(keeper).withdrawKeeperRewards(rewardToken.target, 0))
+      .to.be.revertedWithCustomError(clearingHouse, "OwnableUnauthorizedAccount");
+    await clearingHouse.proposeConfigChange(change);
+    await increaseTime(2 * 24 * 60 * 60);
+    await expect(clearingHouse.executeConfigChange(change))
+      .to.emit(clearingHouse, "KeeperRewardSet")
+      .withArgs(rewardToken.target, reward, 0, false, 0);
+    expect(await clearingHouse.keeperReward()).to.deep.equal([rewardToken.target, reward, 0n, false, 0n]);
+
+    await fundPool(reward);
+    await expect(clearingHouse.withdrawKeeperRewards(rewardToken.target, reward + 1n))
+      .to.be.revertedWith("Insufficient reward pool");
+    await expect(clearingHouse.withdrawKeeperRewards(rewardToken.target, reward))
+      .to.emit(clearingHouse, "KeeperRewardPoolWithdrawn")
+      .withArgs(rewardToken.target, reward);
+
+    // Wind-down returns the pool to the owner
+    await fundPool(reward);
+    await clearingHouse.startWindDown();
+    await clearingHouse.windDown(10);
+    expect(await rewardToken.balanceOf(clearingHouse.target)).to.equal(0);
+  });
+});
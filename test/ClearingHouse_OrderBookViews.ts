@@ -0,0 +1,167 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import ClearingHouseModule from "../ignition/modules/ClearingHouse.js";
+import { ClearingHouseClient } from "../scripts/lib/clearing-house-client.js";
+
+const { ethers, ignition } = await network.connect();
+
+// Helper for time manipulation
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+// Mirrors ClearingHouseStorage.Side / AssetType
+const Side = { Buy: 0, Sell: 1 };
+const AssetType = { ERC721: 0, ERC1155: 1, ERC20: 2 };
+
+describe("ClearingHouse Order Book Views", function () {
+  let users: any[] = [];
+
+  // Contracts
+  let clearingHouse: any;
+  let client: ClearingHouseClient;
+  let bond: any;
+  let tokenA: any;
+  let tokenB: any;
+
+  const price = ethers.parseUnits("100", 18);
+  const altPrice = ethers.parseUnits("90", 18);
+  const initialBalance = ethers.parseUnits("1000", 18);
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    for (let i = 1; i <= 3; i++) users.push(signers[i]);
+  });
+
+  beforeEach(async function () {
+    bond = await ethers.deployContract("Bond");
+    tokenA = await ethers.deployContract("TokenA");
+    tokenB = await ethers.deployContract("TokenB");
+    ({ clearingHouse } = await ignition.deploy(ClearingHouseModule));
+    // A small page size, so that listings span several pages
+    client = new ClearingHouseClient(clearingHouse, 2n);
+
+    await bond.mint(users[0].address, 1000, 500, 4102444800); // Bond 0
+    await bond.mint(users[0].address, 1000, 500, 4102444800); // Bond 1
+    await bond.mint(users[1].address, 1000, 500, 4102444800); // Bond 2
+    for (const user of users) {
+      for (const token of [tokenA, tokenB]) {
+        await token.transfer(user.address, initialBalance);
+        await token.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+      }
+      await bond.connect(user).setApprovalForAll(clearingHouse.target, true);
+    }
+  });
+
+  async function sell(maker: any, tokenId: number, tokens = [tokenA.target], prices = [price]) {
+    await clearingHouse.connect(maker).submitMulticurrencySellOrder(bond.target, tokenId, tokens, prices, ethers.ZeroAddress);
+  }
+
+  async function buy(maker: any, tokenId: number, bidPrice = price) {
+    await clearingHouse.connect(maker).submitBuyOrder(bond.target, tokenId, tokenA.target, bidPrice, ethers.ZeroAddress);
+  }
+
+  function ids(orders: any[]) {
+    return orders.map((order) => order.id).sort();
+  }
+
+  it("Should list active orders by asset, token id, side and maker", async function () {
+    const [sellerA, sellerB, buyer] = users;
+    await sell(sellerA, 0); // Order 0
+    await sell(sellerA, 1); // Order 1
+    await sell(sellerB, 2); // Order 2
+    await buy(buyer, 0); // Order 3
+    await buy(buyer, 2); // Order 4
+
+    expect(ids(await client.activeOrders())).to.deep.equal([0n, 1n, 2n, 3n, 4n]);
+    expect(ids(await client.activeOrders({ asset: bond.target, side: Side.Sell }))).to.deep.equal([0n, 1n, 2n]);
+    expect(ids(await client.activeOrders({ asset: bond.target, tokenId: 0, side: Side.Buy }))).to.deep.equal([3n]);
+    expect(ids(await client.activeOrders({ asset: bond.target, tokenId: 2 }))).to.deep.equal([2n, 4n]);
+    expect(ids(await client.activeOrders({ maker: sellerA.address, tokenId: 1 }))).to.deep.equal([1n]);
+    expect(await client.activeOrders({ asset: tokenA.target })).to.deep.equal([]);
+
+    // Cancelled orders are no longer listed
+    await clearingHouse.connect(sellerA).cancelOrder(0);
+    expect(ids(await client.openOrdersOf(sellerA.address))).to.deep.equal([1n]);
+    expect(ids(await client.openOrdersOf(buyer.address))).to.deep.equal([3n, 4n]);
+  });
+
+  it("Should page through an index with a cursor", async function () {
+    const [sellerA, sellerB, buyer] = users;
+    await sell(sellerA, 0);
+    await sell(sellerA, 1);
+    await sell(sellerB, 2);
+    await buy(buyer, 2);
+
+    // Only the sell orders match: a page examines `limit` entries, however many of them match
+    const filter = { maker: ethers.ZeroAddress, asset: ethers.ZeroAddress, matchTokenId: false, tokenId: 0, matchSide: true, side: Side.Sell };
+    const [first, cursor] = await clearingHouse.activeOrders(filter, 0, 3);
+    expect(first.map((order: any) => order.id)).to.deep.equal([0n, 1n, 2n]);
+    expect(cursor).to.equal(3);
+    const [second, end] = await clearingHouse.activeOrders(filter, cursor, 3);
+    expect(second).to.deep.equal([]);
+    expect(end).to.equal(4);
+
+    const [past, pastEnd] = await clearingHouse.activeOrders(filter, 10, 3);
+    expect(past).to.deep.equal([]);
+    expect(pastEnd).to.equal(10);
+
+    // The largest limit reads to the end of the index
+    const [rest, restEnd] = await clearingHouse.activeOrders(filter, 1, ethers.MaxUint256);
+    expect(rest.map((order: any) => order.id)).to.deep.equal([1n, 2n]);
+    expect(restEnd).to.equal(4);
+    const [locked, lockedEnd] = await clearingHouse.lockedAssets(1, ethers.MaxUint256);
+    expect(locked).to.deep.equal([]);
+    expect(lockedEnd).to.equal(4);
+  });
+
+  it("Should return the full payment terms of an order", async function () {
+    const [seller, buyer] = users;
+    await sell(seller, 0, [tokenA.target, tokenB.target], [price, altPrice]);
+    await buy(buyer, 0);
+    await clearingHouse.connect(buyer).submitMulticurrencyBuyOrder(bond.target, 0, [tokenB.target, tokenA.target], [altPrice, price], ethers.ZeroAddress);
+
+    expect(await client.orderTerms(0)).to.deep.equal([
+      { token: tokenA.target, price },
+      { token: tokenB.target, price: altPrice },
+    ]);
+    expect(await client.orderTerms(1)).to.deep.equal([{ token: tokenA.target, price }]);
+    expect(await client.orderTerms(2)).to.deep.equal([
+      { token: tokenB.target, price: altPrice },
+      { token: tokenA.target, price },
+    ]);
+    expect(await client.orderTerms(99)).to.deep.equal([]);
+  });
+
+  it("Should list the locked assets with their failed cycle counts", async function () {
+    const [sellerA, sellerB, buyer] = users;
+    await sell(sellerA, 0);
+    await sell(sellerA, 1);
+    await sell(sellerB, 2);
+    await buy(buyer, 0);
+    await buy(buyer, 2);
+    expect(await client.lockedAssets()).to.deep.equal([]);
+
+    // The buyer cannot pay: the matched sellers' bonds stay in custody
+    await tokenA.connect(buyer).approve(clearingHouse.target, 0);
+    await increaseTime(301);
+    await expect(clearingHouse.performSettlement()).to.emit(clearingHouse, "SettlementFailed");
+
+    const locked = await client.lockedAssets();
+    expect(locked.map((asset) => [asset.orderId, asset.maker, asset.tokenId, asset.failedSettlementCycles]).sort()).to.deep.equal([
+      [0n, sellerA.address, 0n, 1n],
+      [2n, sellerB.address, 2n, 1n],
+    ]);
+    expect(locked[0].asset).to.equal(bond.target);
+    expect(locked[0].assetType).to.equal(AssetType.ERC721);
+    expect(locked[0].quantity).to.equal(1);
+  });
+
+  it("Should only run the views module through the clearing house", async function () {
+    const views = await ethers.getContractAt("ClearingHouseViews", await clearingHouse.viewsModule());
+    await expect(views.lockedAssets(0, 10)).to.be.revertedWith("Delegatecall only");
+    await expect(clearingHouse.delegateView(views.interface.encodeFunctionData("lockedAssets", [0, 10])))
+      .to.be.revertedWith("Delegatecall only");
+  });
+});
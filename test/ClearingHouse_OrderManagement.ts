@@ -0,0 +1,286 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import ClearingHouseModule from "../ignition/modules/ClearingHouse.js";
+
+const { ethers, ignition } = await network.connect();
+
+// Helper for time manipulation
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+describe("ClearingHouse Order Management", function () {
+  let userA: any;
+  let userB: any;
+  let userC: any;
+
+  // Contracts
+  let clearingHouse: any;
+  let bond: any;
+  let paymentToken: any;
+  let paymentTokenB: any;
+
+  const tokenId = 0;
+  const price = ethers.parseUnits("100", 18);
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    userA = signers[1];
+    userB = signers[2];
+    userC = signers[3];
+  });
+
+  beforeEach(async function () {
+    bond = await ethers.deployContract("Bond");
+    paymentToken = await ethers.deployContract("TokenA");
+    paymentTokenB = await ethers.deployContract("TokenB");
+    ({ clearingHouse } = await ignition.deploy(ClearingHouseModule));
+
+    await bond.mint(userA.address, 1000, 500, 4102444800); // Token ID 0
+
+    const initialBalance = ethers.parseUnits("10000", 18);
+    for (const user of [userB, userC]) {
+      await paymentToken.transfer(user.address, initialBalance);
+      await paymentTokenB.transfer(user.address, initialBalance);
+      await paymentToken.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+      await paymentTokenB.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+    }
+    await bond.connect(userA).setApprovalForAll(clearingHouse.target, true);
+  });
+
+  describe("Cancellation", function () {
+    it("Should let the maker cancel an order so it is not settled", async function () {
+      await clearingHouse.connect(userA).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target], [price], ethers.ZeroAddress);
+      await clearingHouse.connect(userB).submitBuyOrder(bond.target, tokenId, paymentToken.target, price, ethers.ZeroAddress);
+
+      await expect(clearingHouse.connect(userB).cancelOrder(1))
+        .to.emit(clearingHouse, "OrderCancelled")
+        .withArgs(1, userB.address);
+      expect((await clearingHouse.orders(1)).active).to.equal(false);
+
+      await increaseTime(301);
+      await clearingHouse.performSettlement();
+
+      expect(await bond.ownerOf(tokenId)).to.equal(userA.address);
+      expect(await paymentToken.balanceOf(userB.address)).to.equal(ethers.parseUnits("10000", 18));
+    });
+
+    it("Should only allow the maker to cancel an active order", async function () {
+      await clearingHouse.connect(userA).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target], [price], ethers.ZeroAddress);
+
+      await expect(clearingHouse.connect(userB).cancelOrder(0)).to.be.revertedWith("Not order maker");
+
+      await clearingHouse.connect(userA).cancelOrder(0);
+      await expect(clearingHouse.connect(userA).cancelOrder(0)).to.be.revertedWith("Order not active");
+    });
+
+    it("Should return a locked asset to the maker on cancellation", async function () {
+      const unaffordable = ethers.parseUnits("100000", 18);
+      await clearingHouse.connect(userA).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target], [unaffordable], ethers.ZeroAddress);
+      await clearingHouse.connect(userB).submitBuyOrder(bond.target, tokenId, paymentToken.target, unaffordable, ethers.ZeroAddress);
+
+      // Cycle fails on payment, asset stays locked in custody
+      await increaseTime(301);
+      await clearingHouse.performSettlement();
+      expect(await bond.ownerOf(tokenId)).to.equal(clearingHouse.target);
+
+      await expect(clearingHouse.connect(userA).cancelOrder(0))
+        .to.emit(clearingHouse, "AssetUnlocked")
+        .withArgs(0, bond.target, tokenId);
+
+      expect(await bond.ownerOf(tokenId)).to.equal(userA.address);
+      const order = await clearingHouse.orders(0);
+      expect(order.active).to.equal(false);
+      expect(order.isLocked).to.equal(false);
+    });
+  });
+
+  describe("Amendment", function () {
+    it("Should match a buy order after its price is raised", async function () {
+      const lowBid = ethers.parseUnits("90", 18);
+      await clearingHouse.connect(userA).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target], [price], ethers.ZeroAddress);
+      await clearingHouse.connect(userB).submitBuyOrder(bond.target, tokenId, paymentToken.target, lowBid, ethers.ZeroAddress);
+
+      await expect(clearingHouse.connect(userB).amendBuyOrder(1, price, ethers.ZeroAddress))
+        .to.emit(clearingHouse, "OrderAmended")
+        .withArgs(1, userB.address, price, ethers.ZeroAddress);
+
+      await increaseTime(301);
+      await clearingHouse.performSettlement();
+
+      expect(await bond.ownerOf(tokenId)).to.equal(userB.address);
+      expect(await paymentToken.balanceOf(userA.address)).to.equal(price);
+    });
+
+    it("Should replace the accepted payment terms of a sell order", async function () {
+      const priceB = ethers.parseUnits("200", 18);
+      await clearingHouse.connect(userA).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target], [price], ethers.ZeroAddress);
+
+      await clearingHouse.connect(userA).amendSellOrder(0, [paymentTokenB.target], [priceB], ethers.ZeroAddress);
+      expect(await clearingHouse.sellOrderTerms(0, paymentToken.target)).to.equal(0);
+      expect(await clearingHouse.sellOrderTerms(0, paymentTokenB.target)).to.equal(priceB);
+
+      // A Token A bid no longer matches, the Token B bid does
+      await clearingHouse.connect(userB).submitBuyOrder(bond.target, tokenId, paymentToken.target, price, ethers.ZeroAddress);
+      await clearingHouse.connect(userC).submitBuyOrder(bond.target, tokenId, paymentTokenB.target, priceB, ethers.ZeroAddress);
+
+      await increaseTime(301);
+      await clearingHouse.performSettlement();
+
+      expect(await bond.ownerOf(tokenId)).to.equal(userC.address);
+      expect(await paymentTokenB.balanceOf(userA.address)).to.equal(priceB);
+      expect(await paymentToken.balanceOf(userA.address)).to.equal(0);
+    });
+
+    it("Should restrict counterparty on amendment", async function () {
+      await clearingHouse.connect(userA).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target], [price], ethers.ZeroAddress);
+      await clearingHouse.connect(userB).submitBuyOrder(bond.target, tokenId, paymentToken.target, price, ethers.ZeroAddress);
+
+      await clearingHouse.connect(userA).amendSellOrder(0, [paymentToken.target], [price], userC.address);
+
+      await increaseTime(301);
+      await clearingHouse.performSettlement();
+
+      expect(await bond.ownerOf(tokenId)).to.equal(userA.address);
+    });
+
+    it("Should return a locked asset when amending a sell order", async function () {
+      const unaffordable = ethers.parseUnits("100000", 18);
+      await clearingHouse.connect(userA).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target], [unaffordable], ethers.ZeroAddress);
+      await clearingHouse.connect(userB).submitBuyOrder(bond.target, tokenId, paymentToken.target, unaffordable, ethers.ZeroAddress);
+
+      await increaseTime(301);
+      await clearingHouse.performSettlement();
+      expect(await bond.ownerOf(tokenId)).to.equal(clearingHouse.target);
+
+      await clearingHouse.connect(userA).amendSellOrder(0, [paymentToken.target], [price], ethers.ZeroAddress);
+      expect(await bond.ownerOf(tokenId)).to.equal(userA.address);
+      const order = await clearingHouse.orders(0);
+      expect(order.active).to.equal(true);
+      expect(order.isLocked).to.equal(false);
+      expect(order.failedSettlementCycles).to.equal(0);
+
+      // Re-priced order now matches the amended bid
+      await clearingHouse.connect(userB).amendBuyOrder(1, price, ethers.ZeroAddress);
+      await increaseTime(301);
+      await clearingHouse.performSettlement();
+      expect(await bond.ownerOf(tokenId)).to.equal(userB.address);
+    });
+
+    it("Should replace the currencies of a multicurrency buy order", async function () {
+      const priceB = ethers.parseUnits("200", 18);
+      await clearingHouse.connect(userA).submitMulticurrencySellOrder(bond.target, tokenId, [paymentTokenB.target], [priceB], ethers.ZeroAddress);
+      await clearingHouse.connect(userB).submitMulticurrencyBuyOrder(bond.target, tokenId, [paymentToken.target], [price], ethers.ZeroAddress);
+
+      await expect(clearingHouse.connect(userB).amendBuyOrder(1, price, ethers.ZeroAddress)).to.be.revertedWith("Multicurrency order");
+      await expect(clearingHouse.connect(userB).amendMulticurrencyBuyOrder(1, [paymentToken.target, paymentTokenB.target], [price, priceB], ethers.ZeroAddress))
+        .to.emit(clearingHouse, "OrderAmended")
+        .withArgs(1, userB.address, 0, ethers.ZeroAddress);
+      expect(await clearingHouse.buyOrderTerms(1, paymentTokenB.target)).to.equal(priceB);
+
+      await increaseTime(301);
+      await clearingHouse.performSettlement();
+
+      expect(await bond.ownerOf(tokenId)).to.equal(userB.address);
+      expect(await paymentTokenB.balanceOf(userA.address)).to.equal(priceB);
+    });
+
+    it("Should reject amendments of the wrong side or by non-makers", async function () {
+      await clearingHouse.connect(userA).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target], [price], ethers.ZeroAddress);
+      await clearingHouse.connect(userB).submitBuyOrder(bond.target, tokenId, paymentToken.target, price, ethers.ZeroAddress);
+
+      await expect(clearingHouse.connect(userA).amendBuyOrder(0, price, ethers.ZeroAddress)).to.be.revertedWith("Not a buy order");
+      await expect(clearingHouse.connect(userB).amendSellOrder(1, [paymentToken.target], [price], ethers.ZeroAddress)).to.be.revertedWith("Not a sell order");
+      await expect(clearingHouse.connect(userC).amendBuyOrder(1, price, ethers.ZeroAddress)).to.be.revertedWith("Not order maker");
+      await expect(clearingHouse.connect(userA).amendSellOrder(0, [paymentToken.target], [], ethers.ZeroAddress)).to.be.revertedWith("Length mismatch");
+      await expect(clearingHouse.connect(userB).amendMulticurrencyBuyOrder(1, [paymentToken.target], [price], ethers.ZeroAddress)).to.be.revertedWith("Not a multicurrency order");
+    });
+  });
+
+  describe("Expiry", function () {
+    async function latestTimestamp() {
+      const block = await ethers.provider.getBlock("latest");
+      return block!.timestamp;
+    }
+
+    it("Should retire an order whose expiry time has passed instead of matching it", async function () {
+      const expiresAt = (await latestTimestamp()) + 120;
+      await clearingHouse.connect(userA).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target], [price], ethers.ZeroAddress);
+      await clearingHouse.connect(userB).submitBuyOrder(bond.target, tokenId, paymentToken.target, price, ethers.ZeroAddress, expiresAt, 0);
+
+      await increaseTime(301);
+      await expect(clearingHouse.performSettlement())
+        .to.emit(clearingHouse, "OrderExpired")
+        .withArgs(1, userB.address);
+
+      expect((await clearingHouse.orders(1)).active).to.equal(false);
+      expect((await clearingHouse.orders(0)).active).to.equal(true);
+      expect(await bond.ownerOf(tokenId)).to.equal(userA.address);
+    });
+
+    it("Should match an order before its expiry time", async function () {
+      const expiresAt = (await latestTimestamp()) + 3600;
+      await clearingHouse.connect(userA).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target], [price], ethers.ZeroAddress, expiresAt, 0);
+      await clearingHouse.connect(userB).submitBuyOrder(bond.target, tokenId, paymentToken.target, price, ethers.ZeroAddress, expiresAt, 0);
+
+      await increaseTime(301);
+      await expect(clearingHouse.performSettlement()).to.not.emit(clearingHouse, "OrderExpired");
+
+      expect(await bond.ownerOf(tokenId)).to.equal(userB.address);
+    });
+
+    it("Should keep a good-for-N-cycles order for exactly N cycles", async function () {
+      await clearingHouse.connect(userB).submitBuyOrder(bond.target, tokenId, paymentToken.target, price, ethers.ZeroAddress, 0, 2);
+      const order = await clearingHouse.orders(0);
+      expect(order.expiryCycle).to.equal(2);
+
+      // Cycles 1 and 2: no seller, the bid rests
+      for (let i = 0; i < 2; i++) {
+        await increaseTime(301);
+        await expect(clearingHouse.performSettlement()).to.not.emit(clearingHouse, "OrderExpired");
+      }
+      expect((await clearingHouse.orders(0)).active).to.equal(true);
+
+      // Cycle 3: retired even though a matching seller arrived
+      await clearingHouse.connect(userA).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target], [price], ethers.ZeroAddress);
+      await increaseTime(301);
+      await expect(clearingHouse.performSettlement())
+        .to.emit(clearingHouse, "OrderExpired")
+        .withArgs(0, userB.address);
+      expect(await bond.ownerOf(tokenId)).to.equal(userA.address);
+    });
+
+    it("Should return a locked asset when its sell order expires", async function () {
+      const unaffordable = ethers.parseUnits("100000", 18);
+      const expiresAt = (await latestTimestamp()) + 400;
+      await clearingHouse.connect(userA).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target], [unaffordable], ethers.ZeroAddress, expiresAt, 0);
+      await clearingHouse.connect(userB).submitBuyOrder(bond.target, tokenId, paymentToken.target, unaffordable, ethers.ZeroAddress);
+
+      // Cycle 1: payment fails, asset locked
+      await increaseTime(301);
+      await clearingHouse.performSettlement();
+      expect(await bond.ownerOf(tokenId)).to.equal(clearingHouse.target);
+
+      // Cycle 2: sell order has expired, asset goes back before the failure queue is consulted
+      await increaseTime(301);
+      await expect(clearingHouse.performSettlement())
+        .to.emit(clearingHouse, "OrderExpired")
+        .withArgs(0, userA.address)
+        .and.to.emit(clearingHouse, "AssetUnlocked");
+
+      expect(await bond.ownerOf(tokenId)).to.equal(userA.address);
+      expect((await clearingHouse.orders(0)).isLocked).to.equal(false);
+    });
+
+    it("Should reject an expiry time in the past", async function () {
+      const past = (await latestTimestamp()) - 1;
+      await expect(
+        clearingHouse.connect(userB).submitBuyOrder(bond.target, tokenId, paymentToken.target, price, ethers.ZeroAddress, past, 0)
+      ).to.be.revertedWith("Expiry in the past");
+      await expect(
+        clearingHouse.connect(userA).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target], [price], ethers.ZeroAddress, past, 0)
+      ).to.be.revertedWith("Expiry in the past");
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import ClearingHouseModule from "../ignition/modules/ClearingHouse.js";
+
+const { ethers, ignition } = await network.connect();
+
+// Helper for time manipulation
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+// Mirrors ClearingHouseStorage.Side / AssetType / DeliveryFailure
+const Side = { Buy: 0, Sell: 1 };
+const AssetType = { ERC721: 0, ERC1155: 1, ERC20: 2 };
+const DeliveryFailure = { None: 0, NotOwned: 1, NotApproved: 2, TransferFailed: 3 };
+
+describe("ClearingHouse Order Validation", function () {
+  let users: any[] = [];
+
+  // Contracts
+  let clearingHouse: any;
+  let bond: any;
+  let tranche: any;
+  let shares: any;
+  let paymentToken: any;
+
+  const price = ethers.parseUnits("100", 18);
+  const resalePrice = ethers.parseUnits("120", 18);
+  const initialBalance = ethers.parseUnits("1000", 18);
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    for (let i = 1; i <= 3; i++) users.push(signers[i]);
+  });
+
+  beforeEach(async function () {
+    bond = await ethers.deployContract("Bond");
+    tranche = await ethers.deployContract("BondTranche");
+    shares = await ethers.deployContract("TokenC");
+    paymentToken = await ethers.deployContract("TokenA");
+    ({ clearingHouse } = await ignition.deploy(ClearingHouseModule));
+
+    await bond.mint(users[0].address, 1000, 500, 4102444800); // Bond 0
+    for (const user of users) {
+      await paymentToken.transfer(user.address, initialBalance);
+      await paymentToken.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+      await bond.connect(user).setApprovalForAll(clearingHouse.target, true);
+    }
+  });
+
+  function request(side: number, asset: any, assetType: number, tokenId: number, quantity: number) {
+    return {
+      side,
+      asset,
+      assetType,
+      tokenId,
+      quantity,
+      paymentTokens: [paymentToken.target],
+      prices: [price],
+      counterparty: ethers.ZeroAddress,
+      expiresAt: 0,
+      goodForCycles: 0,
+    };
+  }
+
+  async function sell(maker: any, askPrice = price) {
+    return clearingHouse.connect(maker).submitMulticurrencySellOrder(bond.target, 0, [paymentToken.target], [askPrice], ethers.ZeroAddress);
+  }
+
+  async function buy(maker: any, bidPrice = price) {
+    return clearingHouse.connect(maker).submitBuyOrder(bond.target, 0, paymentToken.target, bidPrice, ethers.ZeroAddress);
+  }
+
+  it("Should reject assets that do not implement their asset type, and zero prices", async function () {
+    const [seller, buyer] = users;
+    const order = (asset: any, assetType: number) => clearingHouse.connect(buyer).submitOrder(request(Side.Buy, asset, assetType, 0, 1));
+
+    await expect(order(buyer.address, AssetType.ERC721))
+      .to.be.revertedWithCustomError(clearingHouse, "InvalidAsset")
+      .withArgs(buyer.address, AssetType.ERC721);
+    await expect(order(paymentToken.target, AssetType.ERC721)).to.be.revertedWithCustomError(clearingHouse, "InvalidAsset");
+    await expect(order(bond.target, AssetType.ERC1155)).to.be.revertedWithCustomError(clearingHouse, "InvalidAsset");
+    await expect(order(buyer.address, AssetType.ERC20)).to.be.revertedWithCustomError(clearingHouse, "InvalidAsset");
+    await order(tranche.target, AssetType.ERC1155);
+    await order(shares.target, AssetType.ERC20);
+
+    await expect(buy(buyer, 0n)).to.be.revertedWithCustomError(clearingHouse, "ZeroPrice");
+    await expect(sell(seller, 0n)).to.be.revertedWithCustomError(clearingHouse, "ZeroPrice");
+    await expect(clearingHouse.connect(buyer).submitMulticurrencyBuyOrder(bond.target, 0, [paymentToken.target, shares.target], [price, 0], ethers.ZeroAddress))
+      .to.be.revertedWithCustomError(clearingHouse, "ZeroPrice");
+
+    await buy(buyer); // Order 2
+    await expect(clearingHouse.connect(buyer).amendBuyOrder(2, 0, ethers.ZeroAddress)).to.be.revertedWithCustomError(clearingHouse, "ZeroPrice");
+  });
+
+  it("Should only accept sell orders the maker can deliver", async function () {
+    const [seller, other] = users;
+    await expect(sell(other))
+      .to.be.revertedWithCustomError(clearingHouse, "AssetNotOwned")
+      .withArgs(other.address, bond.target, 0);
+
+    await bond.connect(seller).setApprovalForAll(clearingHouse.target, false);
+    await expect(sell(seller))
+      .to.be.revertedWithCustomError(clearingHouse, "AssetNotApproved")
+      .withArgs(seller.address, bond.target, 0);
+
+    // Approving the single token is enough
+    await bond.connect(seller).approve(clearingHouse.target, 0);
+    await sell(seller);
+
+    // Fungible assets need the full quantity and allowance
+    await shares.transfer(seller.address, 5);
+    const sellShares = (quantity: number) => clearingHouse.connect(seller).submitOrder(request(Side.Sell, shares.target, AssetType.ERC20, 0, quantity));
+    await shares.connect(seller).approve(clearingHouse.target, 5);
+    await expect(sellShares(6)).to.be.revertedWithCustomError(clearingHouse, "AssetNotOwned");
+    await shares.connect(seller).approve(clearingHouse.target, 4);
+    await expect(sellShares(5)).to.be.revertedWithCustomError(clearingHouse, "AssetNotApproved");
+  });
+
+  it("Should reject a second sell order for the same ERC721 token", async function () {
+    const [seller] = users;
+    await sell(seller);
+    await expect(sell(seller, resalePrice))
+      .to.be.revertedWithCustomError(clearingHouse, "DuplicateSellOrder")
+      .withArgs(0);
+
+    // Replacing the order is allowed once the first is cancelled
+    await clearingHouse.connect(seller).cancelOrder(0);
+    await sell(seller, resalePrice);
+  });
+
+  it("Should accept several sell lots of a fungible asset", async function () {
+    const [seller] = users;
+    await shares.transfer(seller.address, 10);
+    await shares.connect(seller).approve(clearingHouse.target, 10);
+    await tranche.issue(seller.address, 10, 1000, 500, 4102444800); // Tranche 0
+    await tranche.connect(seller).setApprovalForAll(clearingHouse.target, true);
+
+    // Laddered lots at rising prices
+    for (const [asset, assetType] of [[shares.target, AssetType.ERC20], [tranche.target, AssetType.ERC1155]]) {
+      await clearingHouse.connect(seller).submitOrder(request(Side.Sell, asset, assetType as number, 0, 4));
+      await clearingHouse.connect(seller).submitOrder({ ...request(Side.Sell, asset, assetType as number, 0, 6), prices: [resalePrice] });
+    }
+    expect(await clearingHouse.activeOrderCount()).to.equal(4);
+  });
+
+  it("Should reject orders that would trade against the maker's own orders", async function () {
+    const [seller, buyer] = users;
+    await sell(seller); // Order 0
+    await expect(buy(seller))
+      .to.be.revertedWithCustomError(clearingHouse, "SelfTrade")
+      .withArgs(0);
+
+    // A bid below the maker's own ask cannot match it, until it is raised
+    await buy(seller, price / 2n); // Order 1
+    await expect(clearingHouse.connect(seller).amendBuyOrder(1, price, ethers.ZeroAddress))
+      .to.be.revertedWithCustomError(clearingHouse, "SelfTrade")
+      .withArgs(0);
+
+    // An intermediary resells an asset it is buying, without owning it yet
+    await buy(buyer); // Order 2
+    await expect(sell(buyer, price)).to.be.revertedWithCustomError(clearingHouse, "SelfTrade").withArgs(2);
+    await sell(buyer, resalePrice);
+    expect((await clearingHouse.orders(3)).active).to.equal(true);
+  });
+
+  it("Should record why settlement could not lock a seller's asset", async function () {
+    const [seller, buyer, other] = users;
+    await sell(seller);
+    await buy(buyer);
+    expect(await clearingHouse.lockFailure(0)).to.equal(DeliveryFailure.None);
+
+    // The seller transfers the bond away after placing the order
+    await bond.connect(seller).transferFrom(seller.address, other.address, 0);
+    await increaseTime(301);
+    await expect(clearingHouse.performSettlement())
+      .to.emit(clearingHouse, "AssetLockFailed")
+      .withArgs(1, 0, seller.address, DeliveryFailure.NotOwned);
+    expect(await clearingHouse.lockFailure(0)).to.equal(DeliveryFailure.NotOwned);
+    expect((await clearingHouse.orders(0)).active).to.equal(false);
+
+    // The new owner lists it, then revokes the approval
+    await sell(other); // Order 2
+    await bond.connect(other).setApprovalForAll(clearingHouse.target, false);
+    await increaseTime(301);
+    await expect(clearingHouse.performSettlement())
+      .to.emit(clearingHouse, "AssetLockFailed")
+      .withArgs(2, 2, other.address, DeliveryFailure.NotApproved);
+    expect(await clearingHouse.lockFailure(2)).to.equal(DeliveryFailure.NotApproved);
+    expect((await clearingHouse.orders(1)).active).to.equal(true);
+  });
+});
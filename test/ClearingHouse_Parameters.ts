@@ -0,0 +1,250 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import ClearingHouseModule from "../ignition/modules/ClearingHouse.js";
+
+const { ethers, ignition } = await network.connect();
+
+// Helper for time manipulation
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+// Mirrors ClearingHouseStorage.Parameter / Side / AssetType
+const Parameter = { SettlementInterval: 0, MaxFailedCycles: 1, MaxChainTrades: 2, ParameterDelay: 3 };
+const Side = { Buy: 0, Sell: 1 };
+const AssetType = { ERC721: 0, ERC1155: 1, ERC20: 2 };
+
+const DAY = 24 * 60 * 60;
+
+describe("ClearingHouse Settlement Parameters", function () {
+  let owner: any;
+  let users: any[] = [];
+
+  // Contracts
+  let clearingHouse: any;
+  let bond: any;
+  let shares: any;
+  let paymentToken: any;
+
+  const price = ethers.parseUnits("100", 18);
+  const initialBalance = ethers.parseUnits("1000", 18);
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    owner = signers[0];
+    for (let i = 1; i <= 3; i++) users.push(signers[i]);
+  });
+
+  beforeEach(async function () {
+    bond = await ethers.deployContract("Bond");
+    shares = await ethers.deployContract("TokenC");
+    paymentToken = await ethers.deployContract("TokenA");
+    ({ clearingHouse } = await ignition.deploy(ClearingHouseModule));
+
+    await bond.mint(users[0].address, 1000, 500, 4102444800); // Bond 0
+    await shares.transfer(users[0].address, 500);
+    for (const user of users) {
+      await paymentToken.transfer(user.address, initialBalance);
+      await paymentToken.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+      await bond.connect(user).setApprovalForAll(clearingHouse.target, true);
+      await shares.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+    }
+  });
+
+  async function sellBond(seller: any) {
+    await clearingHouse.connect(seller).submitMulticurrencySellOrder(bond.target, 0, [paymentToken.target], [price], ethers.ZeroAddress);
+  }
+
+  async function buyBond(buyer: any) {
+    await clearingHouse.connect(buyer).submitBuyOrder(bond.target, 0, paymentToken.target, price, ethers.ZeroAddress);
+  }
+
+  function sharesOrder(side: number, quantity: number) {
+    return {
+      side,
+      asset: shares.target,
+      assetType: AssetType.ERC20,
+      tokenId: 0,
+      quantity,
+      paymentTokens: [paymentToken.target],
+      prices: [1n],
+      counterparty: ethers.ZeroAddress,
+      expiresAt: 0,
+      goodForCycles: 0,
+    };
+  }
+
+  // Proposes a change and executes it once the default delay has passed
+  async function changeParameter(parameter: number, value: number) {
+    await clearingHouse.proposeParameterChange(parameter, value);
+    await increaseTime(2 * DAY);
+    await clearingHouse.executeParameterChange(parameter);
+  }
+
+  it("Should start with the default parameters", async function () {
+    expect(await clearingHouse.parameters(Parameter.SettlementInterval)).to.equal(300);
+    expect(await clearingHouse.parameters(Parameter.MaxFailedCycles)).to.equal(2);
+    expect(await clearingHouse.parameters(Parameter.MaxChainTrades)).to.equal(50);
+    expect(await clearingHouse.parameters(Parameter.ParameterDelay)).to.equal(2 * DAY);
+
+    // Compatibility getters from when the parameters were constants
+    await changeParameter(Parameter.SettlementInterval, 3600);
+    expect(await clearingHouse.SETTLEMENT_INTERVAL()).to.equal(3600);
+    expect(await clearingHouse.MAX_FAILED_CYCLES()).to.equal(2);
+  });
+
+  it("Should apply a proposed change only after the delay", async function () {
+    const tx = clearingHouse.proposeParameterChange(Parameter.SettlementInterval, 3600);
+    await expect(tx).to.emit(clearingHouse, "ParameterChangeProposed");
+    const block = await ethers.provider.getBlock("latest");
+    const [value, executableAt] = await clearingHouse.parameterProposals(Parameter.SettlementInterval);
+    expect(value).to.equal(3600);
+    expect(executableAt).to.equal(BigInt(block!.timestamp + 2 * DAY));
+
+    await expect(clearingHouse.executeParameterChange(Parameter.SettlementInterval))
+      .to.be.revertedWith("Parameter change not ready");
+    await increaseTime(2 * DAY);
+    await expect(clearingHouse.executeParameterChange(Parameter.SettlementInterval))
+      .to.emit(clearingHouse, "ParameterChanged")
+      .withArgs(Parameter.SettlementInterval, 300, 3600);
+    expect(await clearingHouse.parameters(Parameter.SettlementInterval)).to.equal(3600);
+    await expect(clearingHouse.executeParameterChange(Parameter.SettlementInterval))
+      .to.be.revertedWith("No pending proposal");
+
+    // The new interval applies from the next cycle
+    await clearingHouse.performSettlement();
+    await increaseTime(301);
+    await expect(clearingHouse.performSettlement()).to.be.revertedWith("Too early to settle");
+    await increaseTime(3600);
+    await clearingHouse.performSettlement();
+  });
+
+  it("Should cancel proposals and reject values out of bounds", async function () {
+    await expect(clearingHouse.proposeParameterChange(Parameter.SettlementInterval, 30))
+      .to.be.revertedWith("Parameter out of bounds");
+    await expect(clearingHouse.proposeParameterChange(Parameter.MaxFailedCycles, 0))
+      .to.be.revertedWith("Parameter out of bounds");
+    await expect(clearingHouse.proposeParameterChange(Parameter.MaxChainTrades, 201))
+      .to.be.revertedWith("Parameter out of bounds");
+    await expect(clearingHouse.proposeParameterChange(Parameter.ParameterDelay, 31 * DAY))
+      .to.be.revertedWith("Parameter out of bounds");
+
+    await expect(clearingHouse.cancelParameterChange(Parameter.MaxFailedCycles))
+      .to.be.revertedWith("No pending proposal");
+    await clearingHouse.proposeParameterChange(Parameter.MaxFailedCycles, 5);
+    await expect(clearingHouse.cancelParameterChange(Parameter.MaxFailedCycles))
+      .to.emit(clearingHouse, "ParameterChangeCancelled")
+      .withArgs(Parameter.MaxFailedCycles);
+    await increaseTime(2 * DAY);
+    await expect(clearingHouse.executeParameterChange(Parameter.MaxFailedCycles))
+      .to.be.revertedWith("No pending proposal");
+
+    // A shorter delay only applies to later proposals
+    await changeParameter(Parameter.ParameterDelay, 3600);
+    await clearingHouse.proposeParameterChange(Parameter.MaxFailedCycles, 5);
+    await increaseTime(3600);
+    await clearingHouse.executeParameterChange(Parameter.MaxFailedCycles);
+    expect(await clearingHouse.parameters(Parameter.MaxFailedCycles)).to.equal(5);
+  });
+
+  it("Should restrict changes to the owner, outside of settlement", async function () {
+    const [seller, buyer] = users;
+    await expect(clearingHouse.connect(seller).proposeParameterChange(Parameter.MaxChainTrades, 10))
+      .to.be.revertedWithCustomError(clearingHouse, "OwnableUnauthorizedAccount");
+    await clearingHouse.proposeParameterChange(Parameter.MaxChainTrades, 10);
+    await expect(clearingHouse.connect(seller).cancelParameterChange(Parameter.MaxChainTrades))
+      .to.be.revertedWithCustomError(clearingHouse, "OwnableUnauthorizedAccount");
+    await increaseTime(2 * DAY);
+    await expect(clearingHouse.connect(seller).executeParameterChange(Parameter.MaxChainTrades))
+      .to.be.revertedWithCustomError(clearingHouse, "OwnableUnauthorizedAccount");
+
+    await sellBond(seller);
+    await buyBond(buyer);
+    await clearingHouse.startSettlement();
+    await expect(clearingHouse.executeParameterChange(Parameter.MaxChainTrades))
+      .to.be.revertedWith("Settlement in progress");
+    await clearingHouse.advanceSettlement(100);
+    await clearingHouse.executeParameterChange(Parameter.MaxChainTrades);
+  });
+
+  it("Should apply risk and fee settings only through a delayed proposal", async function () {
+    const [seller, buyer] = users;
+    const change = clearingHouse.interface.encodeFunctionData("setFeeRates", [20, 40]);
+    const id = ethers.keccak256(change);
+    await expect(clearingHouse.setFeeRates(20, 40)).to.be.revertedWith("Timelocked: propose the change");
+    await expect(clearingHouse.proposeConfigChange(clearingHouse.interface.encodeFunctionData("setFeeRecipient", [seller.address])))
+      .to.be.revertedWith("Not a timelocked setter");
+    await expect(clearingHouse.proposeConfigChange("0x")).to.be.revertedWith("Not a timelocked setter");
+
+    const tx = clearingHouse.proposeConfigChange(change);
+    const block = await ethers.provider.getBlock("latest");
+    await expect(tx)
+      .to.emit(clearingHouse, "ConfigChangeProposed")
+      .withArgs(id, change, block!.timestamp + 1 + 2 * DAY);
+    expect(await clearingHouse.configChangeProposals(id)).to.equal(block!.timestamp + 1 + 2 * DAY);
+    await expect(clearingHouse.executeConfigChange(change)).to.be.revertedWith("Config change not ready");
+    await increaseTime(2 * DAY);
+    await expect(clearingHouse.connect(seller).executeConfigChange(change))
+      .to.be.revertedWithCustomError(clearingHouse, "OwnableUnauthorizedAccount");
+
+    // Not while a cycle is open
+    await sellBond(seller);
+    await buyBond(buyer);
+    await clearingHouse.startSettlement();
+    await expect(clearingHouse.executeConfigChange(change)).to.be.revertedWith("Settlement in progress");
+    await clearingHouse.advanceSettlement(100);
+
+    await expect(clearingHouse.executeConfigChange(change))
+      .to.emit(clearingHouse, "ConfigChangeExecuted")
+      .withArgs(id)
+      .and.to.emit(clearingHouse, "FeeRatesSet")
+      .withArgs(20, 40);
+    expect(await clearingHouse.feeRates()).to.deep.equal([20n, 40n]);
+    await expect(clearingHouse.executeConfigChange(change)).to.be.revertedWith("No pending proposal");
+
+    // Cancelled proposals cannot be executed
+    await clearingHouse.proposeConfigChange(change);
+    await expect(clearingHouse.cancelConfigChange(change))
+      .to.emit(clearingHouse, "ConfigChangeCancelled")
+      .withArgs(id);
+    await increaseTime(2 * DAY);
+    await expect(clearingHouse.executeConfigChange(change)).to.be.revertedWith("No pending proposal");
+  });
+
+  it("Should return a locked asset after MaxFailedCycles failures", async function () {
+    const [seller, buyer] = users;
+    await changeParameter(Parameter.MaxFailedCycles, 1);
+    await paymentToken.connect(buyer).approve(clearingHouse.target, 0);
+    await sellBond(seller);
+    await buyBond(buyer);
+
+    await expect(clearingHouse.performSettlement()).to.emit(clearingHouse, "SettlementFailed");
+    expect(await bond.ownerOf(0)).to.equal(seller.address);
+    expect((await clearingHouse.orders(0)).active).to.equal(false);
+  });
+
+  it("Should limit the trades matched per asset and cycle to MaxChainTrades", async function () {
+    const [seller, buyer, buyer2] = users;
+    await changeParameter(Parameter.MaxChainTrades, 1);
+    await clearingHouse.connect(seller).submitOrder(sharesOrder(Side.Sell, 500));
+    await clearingHouse.connect(buyer).submitOrder(sharesOrder(Side.Buy, 100));
+    await clearingHouse.connect(buyer2).submitOrder(sharesOrder(Side.Buy, 100));
+
+    await clearingHouse.performSettlement();
+    expect(await shares.balanceOf(buyer.address)).to.equal(100);
+    expect(await shares.balanceOf(buyer2.address)).to.equal(0);
+
+    // The rest is matched in the next cycle
+    await increaseTime(301);
+    await clearingHouse.performSettlement();
+    expect(await shares.balanceOf(buyer2.address)).to.equal(100);
+  });
+
+  it("Should only run the modules through the clearing house", async function () {
+    const admin = await ethers.getContractAt("ClearingHouseAdmin", await clearingHouse.adminModule());
+    const engine = await ethers.getContractAt("SettlementEngine", await clearingHouse.settlementEngine());
+    await expect(admin.proposeParameterChange(Parameter.MaxChainTrades, 10)).to.be.revertedWith("Delegatecall only");
+    await expect(engine.performSettlement()).to.be.revertedWith("Delegatecall only");
+  });
+});
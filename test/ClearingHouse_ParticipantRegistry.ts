@@ -0,0 +1,219 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import ClearingHouseModule from "../ignition/modules/ClearingHouse.js";
+
+const { ethers, ignition } = await network.connect();
+
+// Helper for time manipulation
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+// Mirrors ParticipantRegistry roles
+const Role = { ClearingMember: 1, Trader: 2, SettlementOperator: 4 };
+
+describe("ClearingHouse Participant Registry", function () {
+  let seller: any;
+  let buyer: any;
+  let operator: any;
+  let outsider: any;
+
+  // Contracts
+  let clearingHouse: any;
+  let registry: any;
+  let bond: any;
+  let paymentToken: any;
+
+  const price = ethers.parseUnits("100", 18);
+  const initialBalance = ethers.parseUnits("1000", 18);
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    seller = signers[1];
+    buyer = signers[2];
+    operator = signers[3];
+    outsider = signers[4];
+  });
+
+  beforeEach(async function () {
+    bond = await ethers.deployContract("Bond");
+    paymentToken = await ethers.deployContract("TokenA");
+    ({ clearingHouse } = await ignition.deploy(ClearingHouseModule));
+    registry = await ethers.deployContract("ParticipantRegistry", [clearingHouse.target]);
+    await clearingHouse.setParticipantRegistry(registry.target);
+
+    await registry.admit(seller.address, Role.ClearingMember);
+    await registry.admit(buyer.address, Role.Trader);
+    await registry.admit(operator.address, Role.SettlementOperator);
+
+    await bond.mint(seller.address, 1000, 500, 4102444800); // Bond 0
+    await bond.mint(seller.address, 1000, 500, 4102444800); // Bond 1
+    for (const user of [seller, buyer, outsider]) {
+      await paymentToken.transfer(user.address, initialBalance);
+      await paymentToken.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+      await bond.connect(user).setApprovalForAll(clearingHouse.target, true);
+    }
+  });
+
+  async function sell(maker: any, tokenId: number) {
+    await clearingHouse.connect(maker).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target], [price], ethers.ZeroAddress);
+  }
+
+  async function buy(maker: any, tokenId: number) {
+    await clearingHouse.connect(maker).submitBuyOrder(bond.target, tokenId, paymentToken.target, price, ethers.ZeroAddress);
+  }
+
+  it("Should only accept orders from participants allowed to trade", async function () {
+    await expect(buy(outsider, 0)).to.be.revertedWith("Not authorized to trade");
+    await expect(buy(operator, 0)).to.be.revertedWith("Not authorized to trade");
+    await expect(clearingHouse.connect(outsider).submitOrder({
+      side: 1, asset: bond.target, assetType: 0, tokenId: 0, quantity: 1,
+      paymentTokens: [paymentToken.target], prices: [price],
+      counterparty: ethers.ZeroAddress, expiresAt: 0, goodForCycles: 0,
+    })).to.be.revertedWith("Not authorized to trade");
+
+    await sell(seller, 0); // Clearing member
+    await buy(buyer, 0);   // Trader
+    await increaseTime(301);
+    await clearingHouse.connect(outsider).performSettlement(); // Settlement is open to anyone by default
+    expect(await bond.ownerOf(0)).to.equal(buyer.address);
+  });
+
+  it("Should restrict settlement to settlement operators when configured", async function () {
+    await expect(registry.setSettlementRestricted(true))
+      .to.emit(registry, "SettlementRestrictedSet")
+      .withArgs(true);
+    await sell(seller, 0);
+    await buy(buyer, 0);
+    await increaseTime(301);
+
+    await expect(clearingHouse.connect(buyer).performSettlement()).to.be.revertedWith("Not a settlement operator");
+    await expect(clearingHouse.connect(buyer).startSettlement()).to.be.revertedWith("Not a settlement operator");
+
+    await clearingHouse.connect(operator).startSettlement();
+    await expect(clearingHouse.connect(buyer).advanceSettlement(100)).to.be.revertedWith("Not a settlement operator");
+    await clearingHouse.connect(operator).advanceSettlement(100);
+    expect(await bond.ownerOf(0)).to.equal(buyer.address);
+  });
+
+  it("Should cancel a suspended participant's orders and return locked assets", async function () {
+    await paymentToken.connect(buyer).approve(clearingHouse.target, 0);
+    await sell(seller, 0);
+    await sell(seller, 1);
+    await buy(buyer, 0);
+    await increaseTime(301);
+    await clearingHouse.performSettlement(); // Payment fails: Bond 0 stays locked
+    expect(await bond.ownerOf(0)).to.equal(clearingHouse.target);
+
+    await expect(registry.suspend(seller.address))
+      .to.emit(registry, "ParticipantSuspended")
+      .withArgs(seller.address)
+      .and.to.emit(clearingHouse, "AssetUnlocked")
+      .withArgs(0, bond.target, 0)
+      .and.to.emit(clearingHouse, "OrderCancelled")
+      .withArgs(1, seller.address);
+
+    expect(await bond.ownerOf(0)).to.equal(seller.address);
+    expect((await clearingHouse.orders(0)).active).to.equal(false);
+    expect((await clearingHouse.orders(1)).active).to.equal(false);
+    expect(await clearingHouse.activeOrderCount()).to.equal(1); // The buyer's order
+    await expect(sell(seller, 1)).to.be.revertedWith("Not authorized to trade");
+
+    await expect(registry.reinstate(seller.address))
+      .to.emit(registry, "ParticipantReinstated")
+      .withArgs(seller.address);
+    await sell(seller, 1);
+  });
+
+  it("Should leave orders committed to the open cycle to settle", async function () {
+    await sell(seller, 0);
+    await buy(buyer, 0);
+    await sell(seller, 1);
+    await increaseTime(301);
+    await clearingHouse.startSettlement();
+    await clearingHouse.advanceSettlement(2); // Both assets matched
+
+    await registry.offboard(seller.address);
+    expect((await clearingHouse.orders(0)).active).to.equal(true);
+    expect((await clearingHouse.orders(2)).active).to.equal(false);
+
+    await clearingHouse.advanceSettlement(100);
+    expect(await bond.ownerOf(0)).to.equal(buyer.address);
+    expect(await clearingHouse.activeOrderCount()).to.equal(0);
+  });
+
+  it("Should cancel orders when the right to trade is removed", async function () {
+    await buy(buyer, 0);
+    await expect(clearingHouse.cancelOrdersOf(buyer.address, 10)).to.be.revertedWith("Participant may trade");
+
+    await expect(registry.setRoles(buyer.address, Role.SettlementOperator))
+      .to.emit(registry, "RolesUpdated")
+      .withArgs(buyer.address, Role.SettlementOperator)
+      .and.to.emit(clearingHouse, "OrderCancelled")
+      .withArgs(0, buyer.address);
+    expect(await clearingHouse.activeOrderCount()).to.equal(0);
+  });
+
+  it("Should change memberships without cancelling once the registry is replaced", async function () {
+    await sell(seller, 0); // Order 0
+    await sell(seller, 1); // Order 1
+    await buy(buyer, 0);   // Order 2
+
+    // The seller is not a member of the new registry; the old one can still manage its own membership
+    const replacement = await ethers.deployContract("ParticipantRegistry", [clearingHouse.target]);
+    await clearingHouse.setParticipantRegistry(replacement.target);
+    await expect(registry.suspend(buyer.address)).to.not.emit(clearingHouse, "OrderCancelled");
+    await registry.offboard(seller.address);
+    expect(await clearingHouse.activeOrderCount()).to.equal(3);
+
+    // Anyone cancels the seller's orders in batches
+    expect(await clearingHouse.cancelOrdersOf.staticCall(seller.address, 1)).to.equal(false);
+    await expect(clearingHouse.connect(outsider).cancelOrdersOf(seller.address, 1))
+      .to.emit(clearingHouse, "OrderCancelled")
+      .withArgs(1, seller.address);
+    expect(await clearingHouse.cancelOrdersOf.staticCall(seller.address, 1)).to.equal(true);
+    await clearingHouse.connect(outsider).cancelOrdersOf(seller.address, 1);
+    expect(await clearingHouse.activeOrderCount()).to.equal(1);
+  });
+
+  it("Should not block membership changes of a registry that is not wired", async function () {
+    const standalone = await ethers.deployContract("ParticipantRegistry", [ethers.ZeroAddress]);
+    await standalone.admit(seller.address, Role.Trader);
+    await expect(standalone.suspend(seller.address)).to.emit(standalone, "ParticipantSuspended");
+
+    const unused = await ethers.deployContract("ParticipantRegistry", [clearingHouse.target]);
+    await unused.admit(seller.address, Role.Trader);
+    await sell(seller, 0);
+    await expect(unused.offboard(seller.address)).to.emit(unused, "ParticipantOffboarded");
+    expect((await clearingHouse.orders(0)).active).to.equal(true);
+  });
+
+  it("Should manage membership transitions and emit events", async function () {
+    await expect(registry.admit(outsider.address, Role.Trader | Role.SettlementOperator))
+      .to.emit(registry, "ParticipantAdmitted")
+      .withArgs(outsider.address, Role.Trader | Role.SettlementOperator);
+    expect(await registry.hasRole(outsider.address, Role.SettlementOperator)).to.equal(true);
+    await expect(registry.admit(outsider.address, Role.Trader)).to.be.revertedWith("Already admitted");
+    await expect(registry.reinstate(outsider.address)).to.be.revertedWith("Not suspended");
+
+    await registry.suspend(outsider.address);
+    expect(await registry.canTrade(outsider.address)).to.equal(false);
+    await expect(registry.suspend(outsider.address)).to.be.revertedWith("Not active");
+
+    await expect(registry.offboard(outsider.address))
+      .to.emit(registry, "ParticipantOffboarded")
+      .withArgs(outsider.address);
+    await expect(registry.setRoles(outsider.address, Role.Trader)).to.be.revertedWith("Not admitted");
+    await expect(registry.offboard(outsider.address)).to.be.revertedWith("Not admitted");
+
+    // Offboarded participants can be admitted again
+    await registry.admit(outsider.address, Role.Trader);
+    expect(await registry.canTrade(outsider.address)).to.equal(true);
+
+    await expect(registry.connect(outsider).suspend(buyer.address))
+      .to.be.revertedWithCustomError(registry, "OwnableUnauthorizedAccount");
+    await expect(clearingHouse.connect(outsider).setParticipantRegistry(ethers.ZeroAddress))
+      .to.be.revertedWithCustomError(clearingHouse, "OwnableUnauthorizedAccount");
+  });
+});
@@ -0,0 +1,202 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import ClearingHouseModule from "../ignition/modules/ClearingHouse.js";
+import { ClearingHouseClient } from "../scripts/lib/clearing-house-client.js";
+
+const { ethers, ignition } = await network.connect();
+
+// Helper for time manipulation
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+// Mirrors ParticipantRegistry roles
+const Role = { ClearingMember: 1, Trader: 2, SettlementOperator: 4 };
+
+describe("ClearingHouse Settlement Preview", function () {
+  let users: any[] = [];
+
+  // Contracts
+  let clearingHouse: any;
+  let client: ClearingHouseClient;
+  let bond: any;
+  let paymentToken: any;
+
+  const price = ethers.parseUnits("100", 18);
+  const resalePrice = ethers.parseUnits("120", 18);
+  const initialBalance = ethers.parseUnits("1000", 18);
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    for (let i = 1; i <= 3; i++) users.push(signers[i]);
+  });
+
+  beforeEach(async function () {
+    bond = await ethers.deployContract("Bond");
+    paymentToken = await ethers.deployContract("TokenA");
+    ({ clearingHouse } = await ignition.deploy(ClearingHouseModule));
+    client = new ClearingHouseClient(clearingHouse);
+
+    await bond.mint(users[0].address, 1000, 500, 4102444800); // Bond 0
+    for (const user of users) {
+      await paymentToken.transfer(user.address, initialBalance);
+      await paymentToken.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+      await bond.connect(user).setApprovalForAll(clearingHouse.target, true);
+    }
+  });
+
+  async function sell(maker: any, askPrice = price) {
+    await clearingHouse.connect(maker).submitMulticurrencySellOrder(bond.target, 0, [paymentToken.target], [askPrice], ethers.ZeroAddress);
+  }
+
+  async function buy(maker: any, bidPrice = price, counterparty = ethers.ZeroAddress) {
+    await clearingHouse.connect(maker).submitBuyOrder(bond.target, 0, paymentToken.target, bidPrice, counterparty);
+  }
+
+  function netAmounts(preview: any) {
+    return preview.obligations.map((obligation: any) => [obligation.user, obligation.token, obligation.amount]);
+  }
+
+  // Applies a timelocked setting: proposes the setter call, waits out the parameter delay and executes it
+  async function changeConfig(method: string, ...args: any[]) {
+    const change = clearingHouse.interface.encodeFunctionData(method, args);
+    await clearingHouse.proposeConfigChange(change);
+    await increaseTime(2 * 24 * 60 * 60);
+    await clearingHouse.executeConfigChange(change);
+  }
+
+  it("Should preview the trades and net obligations of a chain without changing state", async function () {
+    const [sellerA, intermediaryB, buyerC] = users;
+    await sell(sellerA);
+    await buy(intermediaryB);
+    await sell(intermediaryB, resalePrice);
+    await buy(buyerC, resalePrice, intermediaryB.address);
+
+    await increaseTime(301);
+    const preview = await client.previewSettlement();
+    expect(preview.trades.map((trade) => [trade.buyOrderId, trade.sellOrderId, trade.price, trade.quantity])).to.deep.equal([
+      [1n, 0n, price, 1n],
+      [3n, 2n, resalePrice, 1n],
+    ]);
+    expect(netAmounts(preview)).to.have.deep.members([
+      [sellerA.address, paymentToken.target, price],
+      [intermediaryB.address, paymentToken.target, resalePrice - price],
+      [buyerC.address, paymentToken.target, -resalePrice],
+    ]);
+    expect(preview.shortfalls).to.deep.equal([]);
+
+    // Nothing was locked or recorded
+    await clearingHouse.previewSettlement();
+    expect(await bond.ownerOf(0)).to.equal(sellerA.address);
+    expect((await clearingHouse.orders(0)).isLocked).to.equal(false);
+    expect(await clearingHouse.settlementCycle()).to.equal(0);
+
+    // The cycle settles as previewed
+    const tx = clearingHouse.performSettlement();
+    await expect(tx).to.emit(clearingHouse, "TradeMatched").withArgs(1, 1, 0, paymentToken.target, price, 1);
+    await expect(tx).to.emit(clearingHouse, "TradeMatched").withArgs(1, 3, 2, paymentToken.target, resalePrice, 1);
+    expect(await bond.ownerOf(0)).to.equal(buyerC.address);
+  });
+
+  it("Should flag obligations the buyer cannot cover, until topped up", async function () {
+    const [seller, buyer] = users;
+    const fee = price * 30n / 10000n;
+    await changeConfig("setFeeRates", 30, 30);
+    await sell(seller);
+    await buy(buyer);
+
+    await paymentToken.connect(buyer).approve(clearingHouse.target, price);
+    await increaseTime(301);
+    let preview = await client.previewSettlement();
+    expect(preview.shortfalls.map((shortfall) => [shortfall.user, shortfall.token, shortfall.owed, shortfall.available, shortfall.covered])).to.deep.equal([
+      [buyer.address, paymentToken.target, price + fee, price, false],
+    ]);
+
+    // Cash deposited with the clearing house counts towards the obligation
+    await clearingHouse.connect(buyer).depositCash(paymentToken.target, price);
+    await paymentToken.connect(buyer).approve(clearingHouse.target, fee);
+    preview = await client.previewSettlement();
+    expect(preview.shortfalls).to.deep.equal([]);
+
+    await expect(clearingHouse.performSettlement()).to.emit(clearingHouse, "SettlementCompleted");
+    expect(await bond.ownerOf(0)).to.equal(buyer.address);
+  });
+
+  it("Should leave out trades whose seller cannot deliver", async function () {
+    const [seller, buyer] = users;
+    await sell(seller);
+    await buy(buyer);
+    await bond.connect(seller).setApprovalForAll(clearingHouse.target, false);
+
+    await increaseTime(301);
+    const preview = await client.previewSettlement();
+    expect(preview.trades).to.deep.equal([]);
+    expect(preview.obligations).to.deep.equal([]);
+    expect((await clearingHouse.orders(0)).active).to.equal(true);
+  });
+
+  it("Should not preview while a cycle is in progress", async function () {
+    const [seller, buyer] = users;
+    await sell(seller);
+    await buy(buyer);
+    await increaseTime(301);
+    await clearingHouse.startSettlement();
+    await expect(client.previewSettlement()).to.be.revertedWith("Settlement in progress");
+
+    await clearingHouse.advanceSettlement(100);
+    await increaseTime(301);
+    expect((await client.previewSettlement()).trades).to.deep.equal([]);
+  });
+
+  it("Should let anyone preview before the interval has passed", async function () {
+    const [seller, buyer, outsider] = users;
+    await sell(seller);
+    await buy(buyer);
+    await expect(clearingHouse.startSettlement()).to.be.revertedWith("Too early to settle");
+    expect((await client.previewSettlement()).trades).to.have.lengthOf(1);
+
+    await clearingHouse.setSettlementPaused(true);
+    expect((await client.previewSettlement()).trades).to.have.lengthOf(1);
+    await clearingHouse.setSettlementPaused(false);
+
+    // Settlement restricted to operators: traders still preview their own shortfalls
+    const [owner] = await ethers.getSigners();
+    const registry = await ethers.deployContract("ParticipantRegistry", [clearingHouse.target]);
+    await clearingHouse.setParticipantRegistry(registry.target);
+    await registry.admit(seller.address, Role.ClearingMember);
+    await registry.admit(buyer.address, Role.Trader);
+    await registry.admit(owner.address, Role.SettlementOperator);
+    await registry.setSettlementRestricted(true);
+    await paymentToken.connect(buyer).approve(clearingHouse.target, 0);
+    const preview = await new ClearingHouseClient(clearingHouse.connect(outsider)).previewSettlement();
+    expect(preview.shortfalls.map((shortfall: any) => shortfall.user)).to.deep.equal([buyer.address]);
+    expect(await clearingHouse.settlementCycle()).to.equal(0);
+  });
+
+  it("Should flag shortfalls the guarantee fund would cover", async function () {
+    const [seller, buyer, member] = users;
+    const fund = await ethers.deployContract("GuaranteeFund", [clearingHouse.target]);
+    await clearingHouse.setGuaranteeFund(fund.target);
+    await paymentToken.connect(member).approve(fund.target, ethers.MaxUint256);
+    await fund.connect(member).contribute(paymentToken.target, price / 2n);
+
+    await sell(seller);
+    await buy(buyer);
+    await paymentToken.connect(buyer).approve(clearingHouse.target, 0);
+    await increaseTime(301);
+    let preview = await client.previewSettlement();
+    expect(preview.shortfalls.map((shortfall) => [shortfall.user, shortfall.owed, shortfall.covered])).to.deep.equal([
+      [buyer.address, price, false],
+    ]);
+
+    // With enough in the fund, the cycle would not fail on the shortfall
+    await fund.connect(member).contribute(paymentToken.target, price / 2n);
+    preview = await client.previewSettlement();
+    expect(preview.shortfalls.map((shortfall) => [shortfall.user, shortfall.owed, shortfall.covered])).to.deep.equal([
+      [buyer.address, price, true],
+    ]);
+    await expect(clearingHouse.performSettlement()).to.emit(fund, "FundDrawn");
+    expect(await bond.ownerOf(0)).to.equal(buyer.address);
+  });
+});
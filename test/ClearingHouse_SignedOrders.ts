@@ -0,0 +1,198 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import ClearingHouseModule from "../ignition/modules/ClearingHouse.js";
+import { ClearingHouseClient, SIGNED_ORDER_TYPES } from "../scripts/lib/clearing-house-client.js";
+
+const { ethers, ignition } = await network.connect();
+
+// Helper for time manipulation
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+// Mirrors ClearingHouseStorage.Side / AssetType
+const Side = { Buy: 0, Sell: 1 };
+const AssetType = { ERC721: 0, ERC1155: 1, ERC20: 2 };
+
+describe("ClearingHouse Signed Orders", function () {
+  let seller: any;
+  let buyer: any;
+  let relayer: any;
+
+  // Contracts
+  let clearingHouse: any;
+  let client: ClearingHouseClient;
+  let bond: any;
+  let paymentToken: any;
+
+  const price = ethers.parseUnits("100", 18);
+  const initialBalance = ethers.parseUnits("1000", 18);
+  let deadline: number;
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    seller = signers[1];
+    buyer = signers[2];
+    relayer = signers[3];
+  });
+
+  beforeEach(async function () {
+    bond = await ethers.deployContract("Bond");
+    paymentToken = await ethers.deployContract("TokenA");
+    ({ clearingHouse } = await ignition.deploy(ClearingHouseModule));
+    client = new ClearingHouseClient(clearingHouse);
+
+    await bond.mint(seller.address, 1000, 500, 4102444800); // Bond 0
+    for (const user of [seller, buyer]) {
+      await paymentToken.transfer(user.address, initialBalance);
+      await paymentToken.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+      await bond.connect(user).setApprovalForAll(clearingHouse.target, true);
+    }
+    deadline = (await ethers.provider.getBlock("latest"))!.timestamp + 3600;
+  });
+
+  function bondOrder(side: number, orderPrice = price) {
+    return {
+      side,
+      asset: bond.target,
+      assetType: AssetType.ERC721,
+      tokenId: 0,
+      quantity: 1,
+      paymentTokens: [paymentToken.target],
+      prices: [orderPrice],
+      counterparty: ethers.ZeroAddress,
+      expiresAt: 0,
+      goodForCycles: 0,
+    };
+  }
+
+  it("Should place orders relayed on behalf of their makers", async function () {
+    const sell = await client.signOrder(seller, bondOrder(Side.Sell), 1, deadline);
+    const buy = await client.signOrder(buyer, bondOrder(Side.Buy), 1, deadline);
+
+    const tx = clearingHouse.connect(relayer).submitSignedOrders([sell, buy]);
+    await expect(tx).to.emit(clearingHouse, "SignedOrderSubmitted").withArgs(0, seller.address, 1, relayer.address);
+    await expect(tx).to.emit(clearingHouse, "SignedOrderSubmitted").withArgs(1, buyer.address, 1, relayer.address);
+    await expect(tx)
+      .to.emit(clearingHouse, "OrderPlaced")
+      .withArgs(0, seller.address, bond.target, 0, Side.Sell, [paymentToken.target], [price], ethers.ZeroAddress);
+    expect((await clearingHouse.orders(1)).maker).to.equal(buyer.address);
+    expect(await clearingHouse.isOrderNonceUsed(seller.address, 1)).to.equal(true);
+    expect(await clearingHouse.isOrderNonceUsed(seller.address, 2)).to.equal(false);
+
+    // The makers own the orders: they settle and can be cancelled like any other
+    await increaseTime(301);
+    await clearingHouse.performSettlement();
+    expect(await bond.ownerOf(0)).to.equal(buyer.address);
+  });
+
+  it("Should reject bad signatures and revert the whole batch", async function () {
+    const valid = await client.signOrder(seller, bondOrder(Side.Sell), 1, deadline);
+
+    // Signed by someone other than the maker
+    const forged = await client.signOrder(relayer, bondOrder(Side.Buy), 1, deadline, buyer.address);
+    await expect(clearingHouse.connect(relayer).submitSignedOrders([valid, forged])).to.be.revertedWith("Invalid signature");
+    expect(await clearingHouse.nextOrderId()).to.equal(0);
+
+    // Terms changed after signing
+    const signed = await client.signOrder(buyer, bondOrder(Side.Buy), 1, deadline);
+    const tampered = { ...signed, request: { ...signed.request, prices: [price / 2n] } };
+    await expect(clearingHouse.connect(relayer).submitSignedOrders([tampered])).to.be.revertedWith("Invalid signature");
+
+    // Signed for another chain
+    const order = { maker: buyer.address, request: bondOrder(Side.Buy), nonce: 1, deadline };
+    const otherChain = { name: "ClearingHouse", version: "1", chainId: 1n, verifyingContract: clearingHouse.target };
+    const signature = await buyer.signTypedData(otherChain, SIGNED_ORDER_TYPES, order);
+    await expect(clearingHouse.connect(relayer).submitSignedOrders([{ ...order, signature }])).to.be.revertedWith("Invalid signature");
+
+    // Past its deadline
+    const expired = await client.signOrder(buyer, bondOrder(Side.Buy), 2, deadline);
+    await increaseTime(3601);
+    await expect(clearingHouse.connect(relayer).submitSignedOrders([expired])).to.be.revertedWith("Signature expired");
+  });
+
+  it("Should not accept a signed order twice", async function () {
+    const sell = await client.signOrder(seller, bondOrder(Side.Sell), 7, deadline);
+    await expect(clearingHouse.connect(relayer).submitSignedOrders([sell, sell])).to.be.revertedWith("Nonce already used");
+
+    await clearingHouse.connect(relayer).submitSignedOrders([sell]);
+    await expect(clearingHouse.connect(relayer).submitSignedOrders([sell])).to.be.revertedWith("Nonce already used");
+
+    // Cancelling the order does not free the nonce
+    await clearingHouse.connect(seller).cancelOrder(0);
+    await expect(clearingHouse.connect(buyer).submitSignedOrders([sell])).to.be.revertedWith("Nonce already used");
+  });
+
+  it("Should let makers cancel nonces before their orders are submitted", async function () {
+    const first = await client.signOrder(buyer, bondOrder(Side.Buy), 1, deadline);
+    const second = await client.signOrder(buyer, bondOrder(Side.Buy), 5, deadline);
+    const third = await client.signOrder(buyer, bondOrder(Side.Buy), 10, deadline);
+
+    await expect(clearingHouse.connect(buyer).cancelOrderNonce(1))
+      .to.emit(clearingHouse, "OrderNonceCancelled")
+      .withArgs(buyer.address, 1);
+    await expect(clearingHouse.connect(relayer).submitSignedOrders([first])).to.be.revertedWith("Nonce already used");
+
+    await expect(clearingHouse.connect(buyer).invalidateOrderNonces(10))
+      .to.emit(clearingHouse, "OrderNoncesInvalidated")
+      .withArgs(buyer.address, 10);
+    expect(await clearingHouse.isOrderNonceUsed(buyer.address, 9)).to.equal(true);
+    await expect(clearingHouse.connect(relayer).submitSignedOrders([second])).to.be.revertedWith("Nonce invalidated");
+    await expect(clearingHouse.connect(buyer).invalidateOrderNonces(10)).to.be.revertedWith("Nonce too low");
+
+    // Another maker's nonces are unaffected
+    await clearingHouse.connect(relayer).submitSignedOrders([third, await client.signOrder(seller, bondOrder(Side.Sell), 1, deadline)]);
+    expect(await clearingHouse.activeOrderCount()).to.equal(2);
+  });
+
+  it("Should accept orders of contract wallets signed under ERC-1271", async function () {
+    const wallet = await ethers.deployContract("MockERC1271Wallet", [], buyer);
+    const signed = await client.signOrder(buyer, bondOrder(Side.Buy), 1, deadline, wallet.target as string);
+    await clearingHouse.connect(relayer).submitSignedOrders([signed]);
+    expect((await clearingHouse.orders(0)).maker).to.equal(wallet.target);
+
+    const forged = await client.signOrder(relayer, bondOrder(Side.Buy), 2, deadline, wallet.target as string);
+    await expect(clearingHouse.connect(relayer).submitSignedOrders([forged])).to.be.revertedWith("Invalid signature");
+  });
+
+  it("Should settle an ERC721 buy by a contract wallet that cannot receive it", async function () {
+    const wallet = await ethers.deployContract("MockERC1271Wallet", [], buyer);
+    await paymentToken.connect(buyer).transfer(wallet.target, price);
+    await wallet.execute(paymentToken.target, paymentToken.interface.encodeFunctionData("approve", [clearingHouse.target, price]));
+    await clearingHouse.connect(relayer).submitSignedOrders([
+      await client.signOrder(seller, bondOrder(Side.Sell), 1, deadline),
+      await client.signOrder(buyer, bondOrder(Side.Buy), 1, deadline, wallet.target as string),
+    ]);
+
+    await increaseTime(301);
+    await expect(clearingHouse.performSettlement())
+      .to.emit(clearingHouse, "AssetDeliveryFailed").withArgs(1, 1, wallet.target, bond.target, 0, 1)
+      .and.to.emit(clearingHouse, "SettlementCompleted");
+
+    // The seller is paid; the bond is held for the wallet until it claims it
+    expect(await paymentToken.balanceOf(seller.address)).to.equal(initialBalance + price);
+    expect(await paymentToken.balanceOf(wallet.target)).to.equal(0);
+    expect(await bond.ownerOf(0)).to.equal(clearingHouse.target);
+    expect(await clearingHouse.beneficialOwner(bond.target, 0)).to.equal(wallet.target);
+
+    await wallet.execute(clearingHouse.target, clearingHouse.interface.encodeFunctionData("claimUndeliveredAsset", [1, buyer.address]));
+    expect(await bond.ownerOf(0)).to.equal(buyer.address);
+    expect(await clearingHouse.beneficialOwner(bond.target, 0)).to.equal(ethers.ZeroAddress);
+    expect(await clearingHouse.undeliveredQuantities(1)).to.equal(0);
+  });
+
+  it("Should apply the order entry checks to the maker", async function () {
+    const registry = await ethers.deployContract("ParticipantRegistry", [clearingHouse.target]);
+    await clearingHouse.setParticipantRegistry(registry.target);
+    const buy = await client.signOrder(buyer, bondOrder(Side.Buy), 1, deadline);
+    await registry.admit(relayer.address, await registry.TRADER());
+    await expect(clearingHouse.connect(relayer).submitSignedOrders([buy])).to.be.revertedWith("Not authorized to trade");
+
+    await registry.admit(buyer.address, await registry.TRADER());
+    await clearingHouse.setOrderEntryPaused(true);
+    await expect(clearingHouse.connect(relayer).submitSignedOrders([buy])).to.be.revertedWith("Order entry paused");
+    await clearingHouse.setOrderEntryPaused(false);
+    await clearingHouse.connect(relayer).submitSignedOrders([buy]);
+  });
+});
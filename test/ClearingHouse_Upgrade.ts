@@ -0,0 +1,157 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import ClearingHouseModule from "../ignition/modules/ClearingHouse.js";
+
+const { ethers, ignition } = await network.connect();
+
+// Helper for time manipulation
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+// ERC-7201 location of ClearingHouseStorage.Layout (its first field is nextOrderId)
+const LAYOUT_LOCATION = "0x7cdc10b569b5929e48a4c659bf899538fccade423747aa709e317539c5825c00";
+
+describe("ClearingHouse Upgrade", function () {
+  let owner: any;
+  let seller: any;
+  let buyer: any;
+  let other: any;
+
+  // Contracts
+  let clearingHouse: any;
+  let proxyAdmin: any;
+  let bond: any;
+  let paymentToken: any;
+
+  const price = ethers.parseUnits("100", 18);
+  const initialBalance = ethers.parseUnits("1000", 18);
+
+  before(async function () {
+    [owner, seller, buyer, other] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    bond = await ethers.deployContract("Bond");
+    paymentToken = await ethers.deployContract("TokenA");
+    ({ clearingHouse, proxyAdmin } = await ignition.deploy(ClearingHouseModule));
+
+    await bond.mint(seller.address, 1000, 500, 4102444800); // Bond 0
+    await bond.mint(seller.address, 1000, 500, 4102444800); // Bond 1
+    for (const user of [seller, buyer, other]) {
+      await paymentToken.transfer(user.address, initialBalance);
+      await paymentToken.connect(user).approve(clearingHouse.target, ethers.MaxUint256);
+      await bond.connect(user).setApprovalForAll(clearingHouse.target, true);
+    }
+  });
+
+  async function sell(tokenId: number) {
+    await clearingHouse.connect(seller).submitMulticurrencySellOrder(bond.target, tokenId, [paymentToken.target], [price], ethers.ZeroAddress);
+  }
+
+  async function buy(maker: any, tokenId: number) {
+    await clearingHouse.connect(maker).submitBuyOrder(bond.target, tokenId, paymentToken.target, price, ethers.ZeroAddress);
+  }
+
+  // The implementation's delegatecall modules
+  async function modules() {
+    return [await clearingHouse.settlementEngine(), await clearingHouse.adminModule(), await clearingHouse.viewsModule(),
+      await clearingHouse.ordersModule(), await clearingHouse.previewModule()];
+  }
+
+  async function upgrade() {
+    const implementation = await ethers.deployContract("MockClearingHouseV2", await modules());
+    await proxyAdmin.upgradeAndCall(clearingHouse.target, implementation.target, "0x");
+    return ethers.getContractAt("MockClearingHouseV2", clearingHouse.target);
+  }
+
+  it("Should carry active and locked orders across an upgrade", async function () {
+    await sell(0);
+    await sell(1);
+    await buy(buyer, 0);
+    await paymentToken.connect(buyer).approve(clearingHouse.target, 0);
+    await clearingHouse.connect(other).depositCash(paymentToken.target, price);
+    await increaseTime(301);
+    await clearingHouse.performSettlement(); // Payment fails: Bond 0 stays locked
+
+    expect((await clearingHouse.orders(0)).isLocked).to.equal(true);
+    expect(await bond.ownerOf(0)).to.equal(clearingHouse.target);
+
+    const upgraded = await upgrade();
+    expect(await upgraded.version()).to.equal(2);
+
+    // Orders, custody, cycle state and balances are unchanged
+    expect(await upgraded.activeOrderCount()).to.equal(3);
+    expect(await upgraded.nextOrderId()).to.equal(3);
+    expect(await upgraded.settlementCycle()).to.equal(1);
+    const locked = await upgraded.orders(0);
+    expect(locked.isLocked).to.equal(true);
+    expect(locked.failedSettlementCycles).to.equal(1);
+    expect((await upgraded.orders(1)).active).to.equal(true);
+    expect(await upgraded.sellOrderTerms(1, paymentToken.target)).to.equal(price);
+    expect(await upgraded.cashBalances(other.address, paymentToken.target)).to.equal(price);
+    expect(await upgraded.owner()).to.equal(owner.address);
+
+    // The locked order settles under the new implementation, and new orders continue the ID sequence
+    await paymentToken.connect(buyer).approve(clearingHouse.target, ethers.MaxUint256);
+    await buy(other, 1);
+    expect((await upgraded.orders(3)).maker).to.equal(other.address);
+    await increaseTime(301);
+    await upgraded.performSettlement();
+
+    expect(await bond.ownerOf(0)).to.equal(buyer.address);
+    expect(await bond.ownerOf(1)).to.equal(other.address);
+    expect(await paymentToken.balanceOf(seller.address)).to.equal(initialBalance + price * 2n);
+    expect(await upgraded.activeOrderCount()).to.equal(0);
+  });
+
+  it("Should resume a cycle left open across an upgrade", async function () {
+    await sell(0);
+    await buy(buyer, 0);
+    await increaseTime(301);
+    await clearingHouse.startSettlement();
+    await clearingHouse.advanceSettlement(1); // Bond 0 matched and locked
+
+    const upgraded = await upgrade();
+    expect(await upgraded.settlementPhase()).to.not.equal(0);
+    await upgraded.advanceSettlement(100);
+    expect(await bond.ownerOf(0)).to.equal(buyer.address);
+  });
+
+  it("Should keep its state in the namespaced storage location", async function () {
+    await sell(0);
+    await sell(1);
+    expect(await ethers.provider.getStorage(clearingHouse.target, LAYOUT_LOCATION)).to.equal(ethers.toBeHex(2, 32));
+    // Nothing in the sequential slots a reentrancy guard or owner would otherwise take
+    expect(await ethers.provider.getStorage(clearingHouse.target, 0)).to.equal(ethers.ZeroHash);
+    expect(await ethers.provider.getStorage(clearingHouse.target, 1)).to.equal(ethers.ZeroHash);
+  });
+
+  it("Should transfer ownership like Ownable", async function () {
+    await expect(clearingHouse.connect(other).transferOwnership(other.address))
+      .to.be.revertedWithCustomError(clearingHouse, "OwnableUnauthorizedAccount");
+    await expect(clearingHouse.transferOwnership(ethers.ZeroAddress))
+      .to.be.revertedWithCustomError(clearingHouse, "OwnableInvalidOwner");
+
+    await expect(clearingHouse.transferOwnership(other.address))
+      .to.emit(clearingHouse, "OwnershipTransferred");
+    expect(await clearingHouse.owner()).to.equal(other.address);
+    await clearingHouse.connect(other).renounceOwnership();
+    expect(await clearingHouse.owner()).to.equal(ethers.ZeroAddress);
+  });
+
+  it("Should only be initialized once and only be upgraded by the proxy admin's owner", async function () {
+    await expect(clearingHouse.initialize(other.address))
+      .to.be.revertedWithCustomError(clearingHouse, "InvalidInitialization");
+
+    // The implementation cannot be initialized directly
+    const implementation = await ethers.deployContract("ClearingHouse", await modules());
+    await expect(implementation.initialize(other.address))
+      .to.be.revertedWithCustomError(implementation, "InvalidInitialization");
+
+    await expect(proxyAdmin.connect(other).upgradeAndCall(clearingHouse.target, implementation.target, "0x"))
+      .to.be.revertedWithCustomError(proxyAdmin, "OwnableUnauthorizedAccount");
+    await proxyAdmin.upgradeAndCall(clearingHouse.target, implementation.target, "0x");
+  });
+});